@@ -59,11 +59,17 @@ export default defineConfig({
       file: () => import('#providers/tg_logger_provider'),
       environment: ['web'],
     },
+    {
+      file: () => import('#providers/ingest_provider'),
+      environment: ['web'],
+    },
     () => import('#providers/trakt_provider'),
     () => import('@adonisjs/cache/cache_provider'),
     () => import('@adonisjs/redis/redis_provider'),
     () => import('#providers/fanart_provider'),
     () => import('#providers/tmdb_provider'),
+    () => import('#providers/metadata_provider'),
+    () => import('#providers/stream_provider'),
   ],
 
   /*
@@ -0,0 +1,100 @@
+import type { HttpContext } from '@adonisjs/core/http'
+import app from '@adonisjs/core/services/app'
+import router from '@adonisjs/core/services/router'
+
+import Album from '#models/album'
+import Track from '#models/track'
+import type { StreamSigningService } from '#services/stream_signing_service'
+import { musicPaginateValidator } from '#validators/music_validator'
+
+export default class AlbumsController {
+  /**
+   * Covers are loaded by image elements, which cannot send the auth header
+   */
+  static coverUrl(signing: StreamSigningService, id: string) {
+    return signing.signedUrl('api.music.albums.cover', { id }, `album-cover-${id}`).streamUrl
+  }
+
+  async index({ request }: HttpContext) {
+    const {
+      page = 1,
+      limit = 20,
+      order = 'asc',
+      search = '',
+    } = await musicPaginateValidator.validate(request.qs())
+    const safeLimit = Math.min(limit || 1, 50)
+
+    const albums = await Album.query()
+      .if(search, (q) => q.whereILike('title', `%${search}%`))
+      .preload('artist')
+      .withCount('tracks', (q) => q.whereNotNull('cover').as('covers'))
+      .orderBy('title', order)
+      .paginate(page || 1, safeLimit)
+
+    albums.baseUrl(router.makeUrl('api.music.albums.index'))
+
+    const signing = await app.container.make('stream:signing')
+    const data = albums.all().map((album) => ({
+      id: album.id,
+      title: album.title,
+      year: album.year,
+      artist: { id: album.artist.id, name: album.artist.name },
+      cover: Number(album.$extras.covers) ? AlbumsController.coverUrl(signing, album.id) : null,
+    }))
+
+    return {
+      meta: albums.getMeta(),
+      data,
+    }
+  }
+
+  async show({ params, response }: HttpContext) {
+    const album = await Album.query()
+      .where('id', params.id)
+      .preload('artist')
+      .preload('tracks', (query) => query.preload('artist').orderBy(['disc', 'number', 'title']))
+      .first()
+    if (!album) return response.notFound({ message: 'Album not found' })
+
+    const signing = await app.container.make('stream:signing')
+    const cover = album.tracks.some((track) => track.cover)
+      ? AlbumsController.coverUrl(signing, album.id)
+      : null
+
+    return {
+      id: album.id,
+      title: album.title,
+      year: album.year,
+      artist: { id: album.artist.id, name: album.artist.name },
+      cover,
+      tracks: album.tracks,
+    }
+  }
+
+  /**
+   * Serve the picture embedded in the first track that has one
+   */
+  async cover({ params, request, response }: HttpContext) {
+    const signing = await app.container.make('stream:signing')
+    const expires = request.input('expires')
+    const signature = request.input('signature')
+    if (!signing.verify(`album-cover-${params.id}`, expires, signature)) {
+      return response.unauthorized({ message: 'Invalid or expired cover URL' })
+    }
+
+    const track = await Track.query()
+      .where('album_id', params.id)
+      .whereNotNull('cover')
+      .orderBy(['disc', 'number'])
+      .first()
+    if (!track?.cover) return response.notFound({ message: 'Cover not found' })
+
+    const tg = await app.container.make('tg')
+    const { offset, length, mimeType } = track.cover
+    const image = await tg.readSources(track.streamable.sources, offset, length)
+
+    response.header('Content-Type', mimeType)
+    response.header('Cache-Control', 'public, max-age=604800')
+    return response.send(image)
+  }
+}
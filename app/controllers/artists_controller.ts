@@ -0,0 +1,62 @@
+import type { HttpContext } from '@adonisjs/core/http'
+import app from '@adonisjs/core/services/app'
+import router from '@adonisjs/core/services/router'
+
+import AlbumsController from '#controllers/albums_controller'
+import Artist from '#models/artist'
+import { musicPaginateValidator } from '#validators/music_validator'
+
+export default class ArtistsController {
+  async index({ request }: HttpContext) {
+    const {
+      page = 1,
+      limit = 20,
+      order = 'asc',
+      search = '',
+    } = await musicPaginateValidator.validate(request.qs())
+    const safeLimit = Math.min(limit || 1, 50)
+
+    const artists = await Artist.query()
+      .if(search, (q) => q.whereILike('name', `%${search}%`))
+      .withCount('tracks')
+      .orderBy('name', order)
+      .paginate(page || 1, safeLimit)
+
+    artists.baseUrl(router.makeUrl('api.music.artists.index'))
+
+    const data = artists.all().map((artist) => ({
+      id: artist.id,
+      name: artist.name,
+      totalTracks: Number(artist.$extras.tracks_count),
+    }))
+
+    return {
+      meta: artists.getMeta(),
+      data,
+    }
+  }
+
+  async show({ params, response }: HttpContext) {
+    const artist = await Artist.query()
+      .where('id', params.id)
+      .preload('albums', (query) => {
+        query.orderBy('year').withCount('tracks', (q) => q.whereNotNull('cover').as('covers'))
+      })
+      .preload('tracks', (query) => query.whereNull('album_id').orderBy('title'))
+      .first()
+    if (!artist) return response.notFound({ message: 'Artist not found' })
+
+    const signing = await app.container.make('stream:signing')
+    return {
+      id: artist.id,
+      name: artist.name,
+      albums: artist.albums.map((album) => ({
+        id: album.id,
+        title: album.title,
+        year: album.year,
+        cover: Number(album.$extras.covers) ? AlbumsController.coverUrl(signing, album.id) : null,
+      })),
+      singles: artist.tracks,
+    }
+  }
+}
@@ -0,0 +1,104 @@
+import type { HttpContext } from '@adonisjs/core/http'
+import type { ModelQueryBuilderContract } from '@adonisjs/lucid/types/model'
+
+import MediaFile from '#models/media_file'
+
+type Collision = {
+  type: 'exact' | 'near'
+  /**
+   * The files are attached to different titles, one of them is likely wrong
+   */
+  conflict: boolean
+  files: ReturnType<typeof CollisionsController.serializeFile>[]
+}
+
+export default class CollisionsController {
+  /**
+   * Files with the same fingerprint, and files flagged at ingest as sharing
+   * most of their content with another one
+   */
+  async index({}: HttpContext) {
+    const exact = await this.withTargets(
+      MediaFile.query()
+        .whereIn('fingerprint', (query) => {
+          query
+            .from('media_files')
+            .select('fingerprint')
+            .whereNotNull('fingerprint')
+            .groupBy('fingerprint')
+            .havingRaw('count(*) > 1')
+        })
+        .orderBy('created_at')
+    )
+    const near = await this.withTargets(
+      MediaFile.query()
+        .whereNotNull('duplicateOfId')
+        .preload('duplicateOf', (query) => {
+          query
+            .preload('movie')
+            .preload('episodes', (episodes) =>
+              episodes.preload('seasonInfo', (season) => season.preload('tvShow'))
+            )
+        })
+        .orderBy('created_at')
+    )
+
+    const groups = new Map<string, MediaFile[]>()
+    for (const file of exact) {
+      groups.set(file.fingerprint!, [...(groups.get(file.fingerprint!) ?? []), file])
+    }
+
+    const collisions: Collision[] = [
+      ...[...groups.values()].map((files) => this.collision('exact', files)),
+      ...near
+        .filter((file) => file.duplicateOf)
+        .map((file) => this.collision('near', [file.duplicateOf, file])),
+    ]
+    return { data: collisions }
+  }
+
+  static serializeFile(file: MediaFile) {
+    return {
+      id: file.id,
+      filename: file.metadata.filename,
+      size: file.metadata.size,
+      fileLink: file.tgMetadata.fileLink,
+      createdAt: file.createdAt,
+      movie: file.movie
+        ? { id: file.movie.id, title: file.movie.title, year: file.movie.year }
+        : null,
+      episodes: file.episodes.map((episode) => ({
+        id: episode.id,
+        tvId: episode.seasonInfo.tvId,
+        tvTitle: episode.seasonInfo.tvShow.title,
+        seasonNumber: episode.season,
+        episodeNumber: episode.number,
+        title: episode.title,
+      })),
+    }
+  }
+
+  private collision(type: Collision['type'], files: MediaFile[]): Collision {
+    const targets = files.map((file) =>
+      file.movieId
+        ? `movie:${file.movieId}`
+        : file.episodes
+            .map((episode) => episode.id)
+            .sort()
+            .join()
+    )
+    return {
+      type,
+      conflict: new Set(targets).size > 1,
+      files: files.map((file) => CollisionsController.serializeFile(file)),
+    }
+  }
+
+  private withTargets(query: ModelQueryBuilderContract<typeof MediaFile>) {
+    return query
+      .preload('movie')
+      .preload('episodes', (episodes) =>
+        episodes.preload('seasonInfo', (season) => season.preload('tvShow'))
+      )
+  }
+}
@@ -0,0 +1,47 @@
+import type { HttpContext } from '@adonisjs/core/http'
+import app from '@adonisjs/core/services/app'
+import router from '@adonisjs/core/services/router'
+
+import FailedJob from '#models/failed_job'
+import { collectionPaginateValidator } from '#validators/collection_validator'
+
+export default class FailedJobsController {
+  async index({ request }: HttpContext) {
+    const {
+      page = 1,
+      limit = 20,
+      order = 'desc',
+    } = await collectionPaginateValidator.validate(request.qs())
+
+    const jobs = await FailedJob.query()
+      .orderBy('created_at', order)
+      .paginate(page, Math.min(limit, 100))
+
+    jobs.baseUrl(router.makeUrl('api.admin.failedJobs.index'))
+
+    return {
+      meta: jobs.getMeta(),
+      data: jobs.all(),
+    }
+  }
+
+  async retry({ params, response }: HttpContext) {
+    const job = await FailedJob.find(params.id)
+    if (!job) return response.notFound({ message: 'Failed job not found' })
+
+    await this.requeue(job)
+    return response.accepted({ message: 'Job queued' })
+  }
+
+  async retryAll({ response }: HttpContext) {
+    const jobs = await FailedJob.all()
+    for (const job of jobs) await this.requeue(job)
+    return response.accepted({ message: `${jobs.length} jobs queued` })
+  }
+
+  private async requeue(job: FailedJob) {
+    const queue = await app.container.make('ingest:queue')
+    await queue.enqueue({ ...job.payload, attempts: 0 })
+    await job.delete()
+  }
+}
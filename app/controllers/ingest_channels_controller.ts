@@ -0,0 +1,50 @@
+import type { HttpContext } from '@adonisjs/core/http'
+
+import IngestChannel from '#models/ingest_channel'
+import {
+  createIngestChannelValidator,
+  updateIngestChannelValidator,
+} from '#validators/ingest_channel_validator'
+
+export default class IngestChannelsController {
+  async index() {
+    const channels = await IngestChannel.query().orderBy('created_at', 'asc')
+    return { data: channels }
+  }
+
+  async show({ params, response }: HttpContext) {
+    const channel = await IngestChannel.find(params.id)
+    if (!channel) return response.notFound({ message: 'Channel not found' })
+    return channel
+  }
+
+  async store({ request, response }: HttpContext) {
+    const payload = await request.validateUsing(createIngestChannelValidator)
+    const existing = await IngestChannel.findBy('chatId', payload.chatId)
+    if (existing) return response.conflict({ message: 'Channel already exists' })
+
+    const channel = await IngestChannel.create({
+      captionFormat: 'caption',
+      autoImport: true,
+      ...payload,
+    })
+    return response.created(channel)
+  }
+
+  async update({ params, request, response }: HttpContext) {
+    const channel = await IngestChannel.find(params.id)
+    if (!channel) return response.notFound({ message: 'Channel not found' })
+
+    const payload = await request.validateUsing(updateIngestChannelValidator)
+    await channel.merge(payload).save()
+    return channel
+  }
+
+  async destroy({ params, response }: HttpContext) {
+    const channel = await IngestChannel.find(params.id)
+    if (!channel) return response.notFound({ message: 'Channel not found' })
+
+    await channel.delete()
+    return response.noContent()
+  }
+}
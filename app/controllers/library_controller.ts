@@ -0,0 +1,148 @@
+import type { HttpContext } from '@adonisjs/core/http'
+import app from '@adonisjs/core/services/app'
+
+import bindMovie from '#decorators/bind_movie'
+import Episode from '#models/episode'
+import MediaFile from '#models/media_file'
+import Movie from '#models/movie'
+import TV from '#models/tv'
+import { parseMessageLink } from '#utils/tg'
+import {
+  importMessageValidator,
+  rematchEpisodeValidator,
+  rematchMovieValidator,
+} from '#validators/library_validator'
+
+/**
+ * Fixes wrong matches by hand. Everything goes through the ingest pipeline, so
+ * the files end up exactly as if their captions had named the right title.
+ */
+export default class LibraryController {
+  /**
+   * Move the files and subtitles of a movie to another one. The movie is
+   * removed once nothing is left on it.
+   */
+  @bindMovie()
+  async rematchMovie({ request, response }: HttpContext, movie: Movie) {
+    const { imdb, tmdb } = await request.validateUsing(rematchMovieValidator)
+    const ingest = await app.container.make('ingest')
+    const match = await ingest.resolveMatch(this.matchIds({ type: 'movie', imdb, tmdb }))
+    if (!match) return response.unprocessableEntity({ message: 'No IMDb or TMDB id given' })
+
+    const files = await movie.related('files').query()
+    const subtitles = await movie.related('subtitles').query()
+    const data = await ingest.rematch([...files, ...subtitles], match)
+
+    const left = await movie.related('files').query().count('* as total').first()
+    const leftSubtitles = await movie.related('subtitles').query().count('* as total').first()
+    if (!Number(left?.$extras.total) && !Number(leftSubtitles?.$extras.total)) {
+      await movie.delete()
+    }
+    return { data }
+  }
+
+  /**
+   * Move the files and subtitles of an episode to another one, by default the
+   * same season and episode of the show with the given id
+   */
+  async rematchEpisode({ params, request, response }: HttpContext) {
+    const episode = await Episode.query()
+      .where('id', params.id)
+      .preload('files')
+      .preload('subtitles')
+      .first()
+    if (!episode) return response.notFound({ message: 'Episode not found' })
+
+    const payload = await request.validateUsing(rematchEpisodeValidator)
+    const ingest = await app.container.make('ingest')
+    const match = await ingest.resolveMatch(
+      this.matchIds({
+        type: 'show',
+        imdb: payload.imdb,
+        tmdb: payload.tmdb,
+        season: payload.season ?? episode.season,
+        episode: payload.episode ?? episode.number,
+        lastEpisode: payload.lastEpisode,
+      })
+    )
+    if (!match) return response.unprocessableEntity({ message: 'No IMDb or TMDB id given' })
+
+    const data = await ingest.rematch([...episode.files, ...episode.subtitles], match)
+    return { data }
+  }
+
+  /**
+   * Import a message by its link with the ids of the title it holds, whatever
+   * its caption says
+   */
+  async importMessage({ request, response }: HttpContext) {
+    const payload = await request.validateUsing(importMessageValidator)
+    const message = parseMessageLink(payload.link)
+    if (!message) return response.unprocessableEntity({ message: 'Invalid Telegram message link' })
+
+    const ingest = await app.container.make('ingest')
+    const match = await ingest.resolveMatch(this.matchIds(payload))
+    if (!match) return response.unprocessableEntity({ message: 'No IMDb or TMDB id given' })
+
+    return ingest.importMessage(message.chatId, message.messageId, match)
+  }
+
+  /**
+   * Remove a file from the library, the Telegram message is left alone and can
+   * be imported again
+   */
+  async unlinkFile({ params, response }: HttpContext) {
+    const file = await MediaFile.find(params.id)
+    if (!file) return response.notFound({ message: 'File not found' })
+
+    await file.delete()
+    return response.noContent()
+  }
+
+  /**
+   * Delete a movie with its files and subtitles
+   */
+  @bindMovie()
+  async destroyMovie({ response }: HttpContext, movie: Movie) {
+    await movie.delete()
+    return response.noContent()
+  }
+
+  /**
+   * Delete a show with its seasons, episodes, subtitles and the files that
+   * hold no episodes of other shows
+   */
+  async destroyTV({ params, response }: HttpContext) {
+    const tv = await TV.find(params.id)
+    if (!tv) return response.notFound({ message: 'TV show not found' })
+
+    const files = await MediaFile.query()
+      .whereHas('episodes', (query) => {
+        query.whereHas('seasonInfo', (seasonQuery) => seasonQuery.where('tvId', tv.id))
+      })
+      .whereDoesntHave('episodes', (query) => {
+        query.whereHas('seasonInfo', (seasonQuery) => seasonQuery.whereNot('tvId', tv.id))
+      })
+    for (const file of files) await file.delete()
+    await tv.delete()
+    return response.noContent()
+  }
+
+  private matchIds(ids: {
+    type: 'movie' | 'show'
+    imdb?: string
+    tmdb?: number
+    season?: number
+    episode?: number
+    lastEpisode?: number
+  }) {
+    return {
+      type: ids.type,
+      imdb: ids.imdb ?? null,
+      tmdb: ids.tmdb ?? null,
+      season: ids.season ?? null,
+      episode: ids.episode ?? null,
+      lastEpisode: ids.lastEpisode ?? null,
+    }
+  }
+}
@@ -1,6 +1,6 @@
 import type { HttpContext } from '@adonisjs/core/http'
-import crypto from 'node:crypto'
 
+import SubtitlesController from '#controllers/subtitles_controller'
 import bindMovie from '#decorators/bind_movie'
 import Movie from '#models/movie'
 import { moviePaginateValidator } from '#validators/movie_validator'
@@ -9,9 +9,6 @@ import app from '@adonisjs/core/services/app'
 import router from '@adonisjs/core/services/router'
 
 export default class MoviesController {
-  private readonly SIGNING_SECRET = process.env.STREAM_SIGNING_SECRET || 'your-secret-key'
-  private readonly URL_EXPIRY = 3600 // 1 hour in seconds
-
   async index({ request }: HttpContext) {
     const {
       page = 1,
@@ -63,132 +60,81 @@ export default class MoviesController {
   }
 
   @bindMovie()
-  async getStreamUrl({}: HttpContext, movie: Movie) {
-    // Create expiration timestamp
-    const expiresAt = Math.floor(Date.now() / 1000) + this.URL_EXPIRY
+  async artwork({}: HttpContext, movie: Movie) {
+    const artwork = await app.container.make('artwork')
+    return cache.getOrSet({
+      key: `movie-artwork-${movie.id}`,
+      factory: async () => await artwork.movie(movie),
+      grace: '24h',
+      ttl: '24h',
+      tags: ['movie-artwork'],
+    })
+  }
 
-    // Create signature payload
-    const payload = {
-      movieId: movie.id,
-      expiresAt,
-    }
+  @bindMovie()
+  async files({}: HttpContext, movie: Movie) {
+    return movie.related('files').query().orderBy('created_at')
+  }
 
-    // Generate signature
-    const signature = this.generateSignature(payload)
+  @bindMovie()
+  async subtitles({}: HttpContext, movie: Movie) {
+    const subtitles = await movie.related('subtitles').query().orderBy('language')
+    return SubtitlesController.serialize(subtitles)
+  }
 
-    // Create the signed streaming URL
-    const streamUrl = router.makeUrl(
+  @bindMovie()
+  async getStreamUrl({ request, response }: HttpContext, movie: Movie) {
+    const file = await this.findFile(movie, request.input('file'))
+    if (!file) return response.notFound({ message: 'File not found' })
+
+    const signing = await app.container.make('stream:signing')
+    const { streamUrl, expiresAt, expiresIn } = signing.signedUrl(
       'api.movies.stream',
       { id: movie.id },
-      {
-        qs: {
-          expires: expiresAt,
-          signature,
-        },
-      }
+      `${movie.id}-${file.id}`,
+      { file: file.id }
     )
 
     return {
       streamUrl,
       expiresAt,
-      ...movie.metadata,
-      expiresIn: this.URL_EXPIRY,
+      fileId: file.id,
+      ...file.metadata,
+      expiresIn,
     }
   }
 
   @bindMovie()
-  async stream({ request, response }: HttpContext, movie: Movie) {
+  async stream(ctx: HttpContext, movie: Movie) {
+    const { request, response } = ctx
     // Verify signed URL
+    const fileId = request.input('file')
     const expires = request.input('expires')
     const signature = request.input('signature')
 
-    if (!this.verifySignature(movie.id, expires, signature)) {
+    const signing = await app.container.make('stream:signing')
+    if (!fileId || !signing.verify(`${movie.id}-${fileId}`, expires, signature)) {
       return response.unauthorized({
         message: 'Invalid or expired streaming URL',
       })
     }
 
-    const { size, mimeType } = movie.metadata
-    const range = request.header('range')
-
-    let start = 0
-    let end = size - 1
-    let contentLength = size
-
-    if (range) {
-      const parts = range.replace(/bytes=/, '').split('-')
-      start = Number.parseInt(parts[0], 10)
-      end = parts[1] ? Number.parseInt(parts[1], 10) : size - 1
-
-      // Validate range (NEW: end boundary check)
-      if (Number.isNaN(start) || Number.isNaN(end) || start >= size || end >= size || start > end) {
-        return response
-          .status(416)
-          .header('Content-Range', `bytes */${size}`)
-          .json({ message: 'Range not satisfiable' })
-      }
-
-      contentLength = end - start + 1
-      response.status(206)
-      response.header('Content-Range', `bytes ${start}-${end}/${size}`)
-    } else {
-      response.status(200)
-    }
-
-    // Unified header configuration
-    response.header('Content-Length', contentLength.toString())
-    response.header('Content-Type', mimeType)
-    response.header('Accept-Ranges', 'bytes')
-    response.header('Access-Control-Allow-Origin', '*')
-    response.header('Access-Control-Allow-Methods', 'GET, OPTIONS')
-    response.header('Access-Control-Allow-Headers', 'Range, Content-Type')
-
-    // Calculate precise download parameters
-    const tgOffset = start
-    const tgLimit = contentLength
-
-    const { tg } = await app.container.make('tg')
-    const tgStream = tg.downloadAsNodeStream(movie.tgMetadata.fileId, {
-      offset: tgOffset,
-      limit: tgLimit,
-    })
-
-    return response.stream(tgStream)
-  }
+    const file = await this.findFile(movie, fileId)
+    if (!file) return response.notFound({ message: 'File not found' })
 
-  /**
-   * Generate HMAC signature for URL signing
-   */
-  private generateSignature(payload: { movieId: string; expiresAt: number }): string {
-    const data = `${payload.movieId}-${payload.expiresAt}`
-    return crypto.createHmac('sha256', this.SIGNING_SECRET).update(data).digest('hex')
+    const stream = await app.container.make('stream')
+    return stream.serve(ctx, file.streamable)
   }
 
   /**
-   * Verify the signature and expiration of a signed URL
+   * Find the requested file of a movie, defaults to the first uploaded one
    */
-  private verifySignature(movieId: string, expires: string, signature: string): boolean {
-    if (!expires || !signature) {
-      return false
-    }
-
-    const expiresAt = Number.parseInt(expires, 10)
-
-    // Check if URL has expired
-    if (Number.isNaN(expiresAt) || expiresAt < Math.floor(Date.now() / 1000)) {
-      return false
-    }
-
-    // Generate expected signature
-    const expectedSignature = this.generateSignature({
-      movieId,
-      expiresAt,
-    })
-
-    // Use constant-time comparison to prevent timing attacks
-    return crypto.timingSafeEqual(
-      Buffer.from(signature, 'hex'),
-      Buffer.from(expectedSignature, 'hex')
-    )
+  private findFile(movie: Movie, fileId?: string) {
+    return movie
+      .related('files')
+      .query()
+      .if(fileId, (q) => q.where('id', fileId!))
+      .orderBy('created_at')
+      .first()
   }
 }
@@ -0,0 +1,13 @@
+import type { HttpContext } from '@adonisjs/core/http'
+import app from '@adonisjs/core/services/app'
+
+export default class StreamsController {
+  /**
+   * Counters of the Telegram download engine, like the time to first byte and
+   * the throughput of streams
+   */
+  async stats({}: HttpContext) {
+    const tgService = await app.container.make('tg')
+    return tgService.downloads.stats()
+  }
+}
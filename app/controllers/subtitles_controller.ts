@@ -0,0 +1,51 @@
+import type { HttpContext } from '@adonisjs/core/http'
+
+import Subtitle from '#models/subtitle'
+import { toWebVTT } from '#utils/subtitles'
+import cache from '@adonisjs/cache/services/main'
+import app from '@adonisjs/core/services/app'
+
+export default class SubtitlesController {
+  /**
+   * Subtitle tracks of a movie or episode, with the signed URL the player loads them from
+   */
+  static async serialize(subtitles: Subtitle[]) {
+    const signing = await app.container.make('stream:signing')
+    return subtitles.map((subtitle) => ({
+      id: subtitle.id,
+      language: subtitle.language,
+      label: subtitle.label,
+      format: subtitle.format,
+      url: signing.signedUrl('api.subtitles.show', { id: subtitle.id }, `subtitle-${subtitle.id}`)
+        .streamUrl,
+    }))
+  }
+
+  async show({ params, request, response }: HttpContext) {
+    const subtitle = await Subtitle.find(params.id)
+    if (!subtitle) return response.notFound({ message: 'Subtitle not found' })
+
+    const signing = await app.container.make('stream:signing')
+    const expires = request.input('expires')
+    const signature = request.input('signature')
+    if (!signing.verify(`subtitle-${subtitle.id}`, expires, signature)) {
+      return response.unauthorized({ message: 'Invalid or expired subtitle URL' })
+    }
+
+    const tg = await app.container.make('tg')
+    const vtt = await cache.getOrSet({
+      key: `subtitle-vtt-${subtitle.id}`,
+      factory: async () => {
+        const data = await tg.readSources(subtitle.sources, 0, subtitle.metadata.size)
+        return toWebVTT(data, subtitle.format)
+      },
+      grace: '24h',
+      ttl: '24h',
+      tags: ['subtitles'],
+    })
+
+    response.header('Content-Type', 'text/vtt; charset=utf-8')
+    response.header('Access-Control-Allow-Origin', '*')
+    return response.send(vtt)
+  }
+}
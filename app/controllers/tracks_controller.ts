@@ -0,0 +1,42 @@
+import type { HttpContext } from '@adonisjs/core/http'
+
+import bindTrack from '#decorators/bind_track'
+import Track from '#models/track'
+import app from '@adonisjs/core/services/app'
+
+export default class TracksController {
+  @bindTrack()
+  async getStreamUrl({}: HttpContext, track: Track) {
+    const signing = await app.container.make('stream:signing')
+    const { streamUrl, expiresAt, expiresIn } = signing.signedUrl(
+      'api.music.tracks.stream',
+      { id: track.id },
+      `track-${track.id}`
+    )
+
+    return {
+      streamUrl,
+      expiresAt,
+      fileId: track.id,
+      ...track.metadata,
+      expiresIn,
+    }
+  }
+
+  @bindTrack()
+  async stream(ctx: HttpContext, track: Track) {
+    const { request, response } = ctx
+    const expires = request.input('expires')
+    const signature = request.input('signature')
+
+    const signing = await app.container.make('stream:signing')
+    if (!signing.verify(`track-${track.id}`, expires, signature)) {
+      return response.unauthorized({
+        message: 'Invalid or expired streaming URL',
+      })
+    }
+
+    const stream = await app.container.make('stream')
+    return stream.serve(ctx, track.streamable)
+  }
+}
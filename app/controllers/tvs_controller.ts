@@ -1,9 +1,11 @@
 import type { HttpContext } from '@adonisjs/core/http'
 
+import SubtitlesController from '#controllers/subtitles_controller'
 import Episode from '#models/episode'
 import Season from '#models/season'
 import TV from '#models/tv'
 import { tvPaginateValidator } from '#validators/tv_validator'
+import cache from '@adonisjs/cache/services/main'
 import app from '@adonisjs/core/services/app'
 import router from '@adonisjs/core/services/router'
 
@@ -21,17 +23,19 @@ export default class TvsController {
       .select([
         'id',
         'title',
-        'first_air_date',
-        'last_air_date',
+        'year',
+        'firstAirDate',
+        'lastAirDate',
         'popularity',
-        'vote_average',
-        'vote_count',
+        'voteAverage',
+        'voteCount',
         'adult',
+        'poster',
       ])
       .orderBy(sort, order)
       .paginate(page || 1, safeLimit)
 
-    tvs.baseUrl(router.makeUrl('tvs.index'))
+    tvs.baseUrl(router.makeUrl('api.tvs.index'))
 
     const data = await Promise.all(
       tvs.all().map(async (tv) => ({
@@ -51,6 +55,7 @@ export default class TvsController {
       .select([
         'id',
         'title',
+        'year',
         'originalTitle',
         'overview',
         'firstAirDate',
@@ -60,11 +65,15 @@ export default class TvsController {
         'voteCount',
         'adult',
         'genres',
+        'poster',
+        'backdrop',
       ])
       .preload('seasons', (query) => {
+        // Specials in season 0 are listed after the regular seasons
         query
-          .select(['id', 'title', 'seasonNumber', 'voteAverage'])
-          .orderBy('seasonNumber')
+          .select(['id', 'title', 'number', 'voteAverage', 'poster', 'tvId'])
+          .orderByRaw('number = 0')
+          .orderBy('number')
           .withCount('episodes', (q) => q.as('totalEpisodes'))
       })
       .first()
@@ -72,9 +81,10 @@ export default class TvsController {
 
     const data: any[] = []
     for (const season of tv?.seasons || []) {
-      const { tvId, ...t } = season.toJSON()
+      const { tvId, number, ...t } = season.toJSON()
       data.push({
         ...t,
+        seasonNumber: number,
         totalEpisodes: Number.parseInt(season.$extras.totalEpisodes),
       })
     }
@@ -85,38 +95,55 @@ export default class TvsController {
     }
   }
 
+  async artwork({ params, response }: HttpContext) {
+    const tv = await TV.find(params.id)
+    if (!tv) return response.notFound({ message: 'TV Show not found' })
+
+    const artwork = await app.container.make('artwork')
+    return cache.getOrSet({
+      key: `tv-artwork-${tv.id}`,
+      factory: async () => await artwork.tv(tv),
+      grace: '24h',
+      ttl: '24h',
+      tags: ['tv-artwork'],
+    })
+  }
+
   async season({ params, response }: HttpContext) {
     const season = await Season.query()
-      .select(['id', 'title', 'seasonNumber', 'airDate', 'overview', 'voteAverage', 'tvId'])
+      .select(['id', 'title', 'number', 'airDate', 'overview', 'voteAverage', 'poster', 'tvId'])
       .where('tvId', params.tvId)
-      .andWhere('seasonNumber', params.seasonNumber)
+      .andWhere('number', params.seasonNumber)
       .preload('tvShow', (query) => {
-        query.select(['id', 'title', 'originalTitle']).preload('seasons', (q) => {
-          q.select(['id', 'seasonNumber', 'title']).orderBy('seasonNumber')
-        })
+        query
+          .select(['id', 'title', 'originalTitle', 'poster', 'backdrop'])
+          .preload('seasons', (q) => {
+            q.select(['id', 'number', 'title', 'tvId']).orderByRaw('number = 0').orderBy('number')
+          })
       })
       .preload('episodes', (query) => {
         query
           .select([
             'id',
             'airDate',
-            'episodeNumber',
+            'number',
             'title',
             'overview',
             'runtime',
             'voteAverage',
-            'runtime',
             'voteCount',
+            'thumbnail',
+            'seasonId',
           ])
-          .orderBy('episodeNumber')
+          .orderBy('number')
       })
       .first()
     if (!season) return response.notFound({ message: 'Season not found' })
 
     const episodes = await Promise.all(
       season.episodes.map(async (episode) => {
-        const { seasonId, ...data } = episode.toJSON()
-        return { ...data }
+        const { seasonId, number, ...data } = episode.toJSON()
+        return { ...data, episodeNumber: number }
       })
     )
 
@@ -124,10 +151,24 @@ export default class TvsController {
 
     return {
       id: season.id,
+      title: season.title,
+      seasonNumber: season.number,
+      airDate: season.airDate,
+      overview: season.overview,
+      voteAverage: season.voteAverage,
+      poster: season.poster,
       episodes,
       tvShow: {
         id: tvShow.id,
         title: tvShow.title,
+        originalTitle: tvShow.originalTitle,
+        poster: tvShow.poster,
+        backdrop: tvShow.backdrop,
+        seasons: tvShow.seasons.map((item) => ({
+          id: item.id,
+          seasonNumber: item.number,
+          title: item.title,
+        })),
       },
     }
   }
@@ -137,10 +178,10 @@ export default class TvsController {
 
     const tvShow = await TV.query()
       .where('id', tvId)
-      .select(['id', 'title', 'originalTitle'])
+      .select(['id', 'title', 'originalTitle', 'poster', 'backdrop'])
       .preload('seasons', (seasonQuery) => {
-        seasonQuery.where('seasonNumber', seasonNumber).preload('episodes', (episodeQuery) => {
-          episodeQuery.orderBy('episodeNumber')
+        seasonQuery.where('number', seasonNumber).preload('episodes', (episodeQuery) => {
+          episodeQuery.orderBy('number')
         })
       })
       .first()
@@ -160,73 +201,115 @@ export default class TvsController {
         episodeNumber: ep.number,
         title: ep.title,
       }))
-    const { seasonId, ...episodeData } = episode.toJSON()
+    // Episodes sharing a file with this one, like a double-length finale, play as one item
+    const files = await episode
+      .related('files')
+      .query()
+      .preload('episodes', (query) => query.orderBy('number'))
+    const combined = new Map(
+      files
+        .flatMap((file) => file.episodes)
+        .map((ep) => [ep.id, { id: ep.id, episodeNumber: ep.number, title: ep.title }])
+    )
+
+    const { seasonId, number, ...episodeData } = episode.toJSON()
     return {
       ...episodeData,
+      episodeNumber: number,
+      combined: [...combined.values()].sort((a, b) => a.episodeNumber - b.episodeNumber),
       more: moreEpisodes,
       tvShow: {
         id: tvShow.id,
         title: tvShow.title,
+        originalTitle: tvShow.originalTitle,
+        poster: tvShow.poster,
+        backdrop: tvShow.backdrop,
       },
     }
   }
 
-  async stream({ request, response, params }: HttpContext) {
+  async subtitles({ params, response }: HttpContext) {
     const { tvId, seasonNumber, episodeNumber } = params
 
-    // Find the exact episode
     const episode = await Episode.query()
-      .select(['id', 'title', 'meta', 'tgMeta'])
       .whereHas('seasonInfo', (seasonQuery) => {
-        seasonQuery.where('tvId', tvId).where('seasonNumber', seasonNumber)
+        seasonQuery.where('tvId', tvId).where('number', seasonNumber)
       })
-      .where('episodeNumber', episodeNumber)
+      .where('number', episodeNumber)
+      .preload('subtitles', (query) => query.orderBy('language'))
       .first()
+    if (!episode) return response.notFound({ message: 'Episode not found' })
+
+    return SubtitlesController.serialize(episode.subtitles)
+  }
+
+  async getStreamUrl({ request, response, params }: HttpContext) {
+    const episode = await this.findEpisode(params)
+    if (!episode) return response.notFound({ message: 'Episode not found' })
 
+    const file = await this.findFile(episode, request.input('file'))
+    if (!file) return response.notFound({ message: 'File not found' })
+
+    const signing = await app.container.make('stream:signing')
+    const { streamUrl, expiresAt, expiresIn } = signing.signedUrl(
+      'api.tvs.episode.stream',
+      params,
+      `episode-${episode.id}-${file.id}`,
+      { file: file.id }
+    )
+
+    return {
+      streamUrl,
+      expiresAt,
+      fileId: file.id,
+      ...file.metadata,
+      expiresIn,
+    }
+  }
+
+  async stream(ctx: HttpContext) {
+    const { request, response, params } = ctx
+    const episode = await this.findEpisode(params)
     if (!episode) return response.notFound({ message: 'Episode not found' })
 
-    const { size, mimeType } = episode.metadata
-    const range = request.header('range')
-
-    let start = 0
-    let end = size - 1
-    let contentLength = size
-
-    if (range) {
-      const parts = range.replace(/bytes=/, '').split('-')
-      start = Number.parseInt(parts[0], 10)
-      end = parts[1] ? Number.parseInt(parts[1], 10) : end
-
-      if (Number.isNaN(start) || Number.isNaN(end) || start >= size || end >= size || start > end) {
-        return response
-          .status(416)
-          .header('Content-Range', `bytes */${size}`)
-          .json({ message: 'Range not satisfiable' })
-      }
-
-      contentLength = end - start + 1
-      response.status(206)
-      response.header('Content-Range', `bytes ${start}-${end}/${size}`)
-    } else {
-      response.status(200)
+    // Verify signed URL
+    const fileId = request.input('file')
+    const expires = request.input('expires')
+    const signature = request.input('signature')
+
+    const signing = await app.container.make('stream:signing')
+    if (!fileId || !signing.verify(`episode-${episode.id}-${fileId}`, expires, signature)) {
+      return response.unauthorized({
+        message: 'Invalid or expired streaming URL',
+      })
     }
 
-    // Set headers
-    response.header('Content-Length', contentLength.toString())
-    response.header('Content-Type', mimeType)
-    response.header('Accept-Ranges', 'bytes')
-    // response.header('Content-Disposition', `inline; filename="${episode.title}.${ext}"`)
-    response.header('Access-Control-Allow-Origin', '*')
-    response.header('Access-Control-Allow-Methods', 'GET, OPTIONS')
-    response.header('Access-Control-Allow-Headers', 'Range, Content-Type')
-
-    // Telegram stream
-    const { tg } = await app.container.make('tg')
-    const tgStream = tg.downloadAsNodeStream(episode.tgMetadata.fileId, {
-      offset: start,
-      limit: contentLength,
-    })
+    const file = await this.findFile(episode, fileId)
+    if (!file) return response.notFound({ message: 'File not found' })
 
-    return response.stream(tgStream)
+    const stream = await app.container.make('stream')
+    return stream.serve(ctx, file.streamable)
+  }
+
+  private findEpisode(params: Record<string, any>) {
+    const { tvId, seasonNumber, episodeNumber } = params
+    return Episode.query()
+      .whereHas('seasonInfo', (seasonQuery) => {
+        seasonQuery.where('tvId', tvId).where('number', seasonNumber)
+      })
+      .where('number', episodeNumber)
+      .first()
+  }
+
+  /**
+   * Find the requested file of an episode, defaults to the first uploaded one
+   */
+  private findFile(episode: Episode, fileId?: string) {
+    return episode
+      .related('files')
+      .query()
+      .if(fileId, (q) => q.where('id', fileId!))
+      .orderBy('created_at')
+      .first()
   }
 }
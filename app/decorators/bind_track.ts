@@ -0,0 +1,19 @@
+import { type HttpContext } from '@adonisjs/core/http'
+
+import Track from '#models/track'
+
+const bindTrack = () => (_target: any, _key: any, descriptor: PropertyDescriptor) => {
+  const originalMethod = descriptor.value
+
+  descriptor.value = async function (this: any, ctx: HttpContext) {
+    const { params, response } = ctx
+
+    const track = await Track.find(params.id)
+    if (!track) return response.notFound({ message: 'Track not found' })
+
+    return originalMethod.call(this, ctx, track)
+  }
+  return descriptor
+}
+
+export default bindTrack
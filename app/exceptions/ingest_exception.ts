@@ -0,0 +1,10 @@
+import { Exception } from '@adonisjs/core/exceptions'
+
+/**
+ * Raised for uploads that can never be ingested as they are, e.g. a caption
+ * that cannot be parsed. These are not retried by the ingest queue.
+ */
+export default class IngestException extends Exception {
+  static status = 422
+  static code = 'E_INGEST'
+}
@@ -0,0 +1,18 @@
+import type { HttpContext } from '@adonisjs/core/http'
+import type { NextFn } from '@adonisjs/core/types/http'
+
+import env from '#start/env'
+
+/**
+ * Admin middleware restricts routes to the Telegram admin account. It must
+ * run after the auth middleware.
+ */
+export default class AdminMiddleware {
+  async handle(ctx: HttpContext, next: NextFn) {
+    const user = ctx.auth.getUserOrFail()
+    if (Number(user.id) !== env.get('TG_ADMIN_ID')) {
+      return ctx.response.forbidden({ message: 'Admin access required' })
+    }
+    return next()
+  }
+}
@@ -0,0 +1,26 @@
+import { compose } from '@adonisjs/core/helpers'
+import { BaseModel, belongsTo, column, hasMany } from '@adonisjs/lucid/orm'
+
+import type { BelongsTo, HasMany } from '@adonisjs/lucid/types/relations'
+
+import Artist from '#models/artist'
+import Track from '#models/track'
+import withID from '#models/utils/with_id'
+import { withTimestamps } from '#models/utils/with_timestamps'
+
+export default class Album extends compose(BaseModel, withID(), withTimestamps()) {
+  @column()
+  declare artistId: string
+
+  @column()
+  declare title: string
+
+  @column()
+  declare year: number | null
+
+  @belongsTo(() => Artist)
+  declare artist: BelongsTo<typeof Artist>
+
+  @hasMany(() => Track)
+  declare tracks: HasMany<typeof Track>
+}
@@ -0,0 +1,20 @@
+import { compose } from '@adonisjs/core/helpers'
+import { BaseModel, column, hasMany } from '@adonisjs/lucid/orm'
+
+import type { HasMany } from '@adonisjs/lucid/types/relations'
+
+import Album from '#models/album'
+import Track from '#models/track'
+import withID from '#models/utils/with_id'
+import { withTimestamps } from '#models/utils/with_timestamps'
+
+export default class Artist extends compose(BaseModel, withID(), withTimestamps()) {
+  @column()
+  declare name: string
+
+  @hasMany(() => Album)
+  declare albums: HasMany<typeof Album>
+
+  @hasMany(() => Track)
+  declare tracks: HasMany<typeof Track>
+}
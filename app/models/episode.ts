@@ -1,12 +1,14 @@
 import { compose } from '@adonisjs/core/helpers'
-import { BaseModel, belongsTo, column } from '@adonisjs/lucid/orm'
+import { BaseModel, belongsTo, column, hasMany, manyToMany } from '@adonisjs/lucid/orm'
+import type { DateTime } from 'luxon'
 
-import type { BelongsTo } from '@adonisjs/lucid/types/relations'
+import type { BelongsTo, HasMany, ManyToMany } from '@adonisjs/lucid/types/relations'
 
 import withID from '#models/utils/with_id'
 import { withTimestamps } from '#models/utils/with_timestamps'
+import MediaFile from '#models/media_file'
 import Season from '#models/season'
-import type { MediaMetadata, TGMetadata } from '#types/tg'
+import Subtitle from '#models/subtitle'
 
 export default class Episode extends compose(BaseModel, withID(), withTimestamps()) {
   @column()
@@ -19,33 +21,44 @@ export default class Episode extends compose(BaseModel, withID(), withTimestamps
   declare title: string
 
   @column()
-  declare trakt: number
+  declare trakt: number | null
 
   @column()
-  declare tvdb: number
+  declare tvdb: number | null
 
   @column()
-  declare imdb: string
+  declare imdb: string | null
 
   @column()
-  declare tmdb: number
+  declare tmdb: number | null
 
-  @column({
-    consume: (value) => value,
-    prepare: (value) => JSON.stringify(value),
-    serializeAs: null,
-  })
-  declare tgMetadata: TGMetadata
+  @column()
+  declare overview: string | null
+
+  @column.date()
+  declare airDate: DateTime | null
+
+  @column()
+  declare runtime: number | null
 
-  @column({
-    consume: (value) => value,
-    prepare: (value) => JSON.stringify(value),
-  })
-  declare metadata: MediaMetadata
+  @column()
+  declare voteAverage: number | null
+
+  @column()
+  declare voteCount: number | null
+
+  @column()
+  declare thumbnail: string | null
 
   @column()
   declare seasonId: string
 
   @belongsTo(() => Season)
   declare seasonInfo: BelongsTo<typeof Season>
+
+  @manyToMany(() => MediaFile, { pivotTable: 'episode_media_files' })
+  declare files: ManyToMany<typeof MediaFile>
+
+  @hasMany(() => Subtitle)
+  declare subtitles: HasMany<typeof Subtitle>
 }
@@ -0,0 +1,29 @@
+import { compose } from '@adonisjs/core/helpers'
+import { BaseModel, column } from '@adonisjs/lucid/orm'
+
+import withID from '#models/utils/with_id'
+import { withTimestamps } from '#models/utils/with_timestamps'
+import type { IngestJob } from '#types/tg'
+
+export default class FailedJob extends compose(BaseModel, withID(), withTimestamps()) {
+  @column()
+  declare chatId: number
+
+  @column()
+  declare messageId: number
+
+  @column()
+  declare messageLink: string
+
+  @column()
+  declare error: string
+
+  @column()
+  declare attempts: number
+
+  @column({
+    consume: (value) => value,
+    prepare: (value) => JSON.stringify(value),
+  })
+  declare payload: IngestJob
+}
@@ -0,0 +1,40 @@
+import { compose } from '@adonisjs/core/helpers'
+import { BaseModel, column } from '@adonisjs/lucid/orm'
+
+import withID from '#models/utils/with_id'
+import { withTimestamps } from '#models/utils/with_timestamps'
+import type { CaptionFormat, ParsedMediaText } from '#types/tg'
+
+/**
+ * A Telegram chat uploads are ingested from. Messages of other chats are
+ * ignored.
+ */
+export default class IngestChannel extends compose(BaseModel, withID(), withTimestamps()) {
+  // Postgres returns bigint columns as strings, chat ids fit in a number
+  @column({ consume: (value) => Number(value) })
+  declare chatId: number
+
+  @column()
+  declare title: string | null
+
+  /**
+   * Type assumed when the caption has an IMDb id but does not say movie or show
+   */
+  @column()
+  declare defaultType: ParsedMediaText['type'] | null
+
+  @column()
+  declare captionFormat: CaptionFormat
+
+  /**
+   * Language of subtitles and audio tracks that do not name their own
+   */
+  @column()
+  declare language: string | null
+
+  /**
+   * Uploads of channels without auto import wait for a chat admin to approve them
+   */
+  @column()
+  declare autoImport: boolean
+}
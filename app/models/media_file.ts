@@ -0,0 +1,118 @@
+import { compose } from '@adonisjs/core/helpers'
+import { BaseModel, belongsTo, column, manyToMany } from '@adonisjs/lucid/orm'
+
+import type { BelongsTo, ManyToMany } from '@adonisjs/lucid/types/relations'
+
+import Episode from '#models/episode'
+import Movie from '#models/movie'
+import withID from '#models/utils/with_id'
+import { withTimestamps } from '#models/utils/with_timestamps'
+import type { StreamableFile } from '#types/stream'
+import type { FileSource, MediaFilePart, MediaMetadata, TGMetadata } from '#types/tg'
+
+export default class MediaFile extends compose(BaseModel, withID(), withTimestamps()) {
+  @column()
+  declare movieId: string | null
+
+  @column()
+  declare resolution: string | null
+
+  @column()
+  declare codec: string | null
+
+  @column()
+  declare source: string | null
+
+  @column()
+  declare edition: string | null
+
+  @column({
+    consume: (value) => value,
+    prepare: (value) => JSON.stringify(value),
+    serializeAs: null,
+  })
+  declare tgMetadata: TGMetadata
+
+  @column({
+    consume: (value) => value,
+    prepare: (value) => JSON.stringify(value),
+  })
+  declare metadata: MediaMetadata
+
+  @column({ serializeAs: null })
+  declare fingerprint: string | null
+
+  @column({
+    consume: (value) => value,
+    prepare: (value) => (value ? JSON.stringify(value) : null),
+    serializeAs: null,
+  })
+  declare fingerprintSamples: string[] | null
+
+  /**
+   * Set when ingest found a file sharing most of its content, the duplicate
+   * report lists these for review
+   */
+  @column()
+  declare duplicateOfId: string | null
+
+  @belongsTo(() => MediaFile, { foreignKey: 'duplicateOfId' })
+  declare duplicateOf: BelongsTo<typeof MediaFile>
+
+  @column({ serializeAs: null })
+  declare partGroup: string | null
+
+  /**
+   * Every upload of a file split over several messages, including the one in
+   * `tgMetadata`. Null for files uploaded whole.
+   */
+  @column({
+    consume: (value) => value,
+    prepare: (value) => (value ? JSON.stringify(value) : null),
+    serializeAs: null,
+  })
+  declare parts: MediaFilePart[] | null
+
+  @belongsTo(() => Movie)
+  declare movie: BelongsTo<typeof Movie>
+
+  /**
+   * Usually one, files of double episodes and ranges like S01E01-E02 hold several
+   */
+  @manyToMany(() => Episode, { pivotTable: 'episode_media_files' })
+  declare episodes: ManyToMany<typeof Episode>
+
+  /**
+   * The uploads holding the bytes of the file in order. Split files only play
+   * up to the first missing part.
+   */
+  get sources(): FileSource[] {
+    if (!this.parts?.length) {
+      const { fileId, chatId, messageId } = this.tgMetadata
+      return [{ fileId, chatId, messageId, size: this.metadata.size }]
+    }
+
+    const sources: FileSource[] = []
+    const parts = [...this.parts].sort((a, b) => a.number - b.number)
+    for (const [index, part] of parts.entries()) {
+      if (part.number !== index + 1) break
+      sources.push({
+        fileId: part.fileId,
+        chatId: part.chatId,
+        messageId: part.messageId,
+        size: part.size,
+      })
+    }
+    return sources
+  }
+
+  /**
+   * The bytes that can be streamed, a split file with a missing part ends
+   * before it
+   */
+  get streamable(): StreamableFile {
+    const sources = this.sources
+    const size = sources.reduce((total, source) => total + source.size, 0)
+    return { tag: `${this.id}-${size}`, size, mimeType: this.metadata.mimeType, sources }
+  }
+}
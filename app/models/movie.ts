@@ -1,9 +1,11 @@
 import { compose } from '@adonisjs/core/helpers'
-import { BaseModel, column } from '@adonisjs/lucid/orm'
+import { BaseModel, column, hasMany } from '@adonisjs/lucid/orm'
 
-import { withTimestamps } from '#models/utils/with_timestamps'
+import type { HasMany } from '@adonisjs/lucid/types/relations'
 
-import type { MediaMetadata, TGMetadata } from '#types/tg'
+import MediaFile from '#models/media_file'
+import Subtitle from '#models/subtitle'
+import { withTimestamps } from '#models/utils/with_timestamps'
 
 export default class Movie extends compose(BaseModel, withTimestamps()) {
   @column({ isPrimary: true })
@@ -16,27 +18,20 @@ export default class Movie extends compose(BaseModel, withTimestamps()) {
   declare year: number
 
   @column()
-  declare trakt: number
+  declare trakt: number | null
 
   @column()
-  declare imdb: string
+  declare imdb: string | null
 
   @column()
   declare tmdb: number
 
   @column()
-  declare poster: string
-
-  @column({
-    consume: (value) => value,
-    prepare: (value) => JSON.stringify(value),
-    serializeAs: null,
-  })
-  declare tgMetadata: TGMetadata
-
-  @column({
-    consume: (value) => value,
-    prepare: (value) => JSON.stringify(value),
-  })
-  declare metadata: MediaMetadata
+  declare poster: string | null
+
+  @hasMany(() => MediaFile)
+  declare files: HasMany<typeof MediaFile>
+
+  @hasMany(() => Subtitle)
+  declare subtitles: HasMany<typeof Subtitle>
 }
@@ -1,5 +1,6 @@
 import { compose } from '@adonisjs/core/helpers'
 import { BaseModel, belongsTo, column, hasMany } from '@adonisjs/lucid/orm'
+import type { DateTime } from 'luxon'
 
 import type { BelongsTo, HasMany } from '@adonisjs/lucid/types/relations'
 
@@ -13,13 +14,28 @@ export default class Season extends compose(BaseModel, withID(), withTimestamps(
   declare number: number
 
   @column()
-  declare trakt: number
+  declare trakt: number | null
 
   @column()
-  declare tvdb: number
+  declare tvdb: number | null
 
   @column()
-  declare tmdb: number
+  declare tmdb: number | null
+
+  @column()
+  declare title: string | null
+
+  @column()
+  declare overview: string | null
+
+  @column.date()
+  declare airDate: DateTime | null
+
+  @column()
+  declare voteAverage: number | null
+
+  @column()
+  declare poster: string | null
 
   @column()
   declare tvId: string
@@ -0,0 +1,61 @@
+import { compose } from '@adonisjs/core/helpers'
+import { BaseModel, belongsTo, column, computed } from '@adonisjs/lucid/orm'
+
+import type { BelongsTo } from '@adonisjs/lucid/types/relations'
+
+import Episode from '#models/episode'
+import Movie from '#models/movie'
+import withID from '#models/utils/with_id'
+import { withTimestamps } from '#models/utils/with_timestamps'
+import type { SubtitleFormat } from '#types/subtitle'
+import type { FileSource, MediaMetadata, TGMetadata } from '#types/tg'
+import { languageName } from '#utils/subtitles'
+
+export default class Subtitle extends compose(BaseModel, withID(), withTimestamps()) {
+  @column()
+  declare movieId: string | null
+
+  @column()
+  declare episodeId: string | null
+
+  /**
+   * ISO 639-1 code, `und` when the upload did not name a language
+   */
+  @column()
+  declare language: string
+
+  @column()
+  declare format: SubtitleFormat
+
+  @column({
+    consume: (value) => value,
+    prepare: (value) => JSON.stringify(value),
+  })
+  declare metadata: MediaMetadata
+
+  @column({
+    consume: (value) => value,
+    prepare: (value) => JSON.stringify(value),
+    serializeAs: null,
+  })
+  declare tgMetadata: TGMetadata
+
+  @computed()
+  get label() {
+    return languageName(this.language)
+  }
+
+  /**
+   * The upload holding the bytes of the subtitle
+   */
+  get sources(): FileSource[] {
+    const { fileId, chatId, messageId } = this.tgMetadata
+    return [{ fileId, chatId, messageId, size: this.metadata.size }]
+  }
+
+  @belongsTo(() => Movie)
+  declare movie: BelongsTo<typeof Movie>
+
+  @belongsTo(() => Episode)
+  declare episode: BelongsTo<typeof Episode>
+}
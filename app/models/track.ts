@@ -0,0 +1,65 @@
+import { compose } from '@adonisjs/core/helpers'
+import { BaseModel, belongsTo, column } from '@adonisjs/lucid/orm'
+
+import type { BelongsTo } from '@adonisjs/lucid/types/relations'
+
+import Album from '#models/album'
+import Artist from '#models/artist'
+import withID from '#models/utils/with_id'
+import { withTimestamps } from '#models/utils/with_timestamps'
+import type { CoverLocation } from '#types/music'
+import type { StreamableFile } from '#types/stream'
+import type { MediaMetadata, TGMetadata } from '#types/tg'
+
+export default class Track extends compose(BaseModel, withID(), withTimestamps()) {
+  @column()
+  declare artistId: string
+
+  @column()
+  declare albumId: string | null
+
+  @column()
+  declare title: string
+
+  @column()
+  declare number: number | null
+
+  @column()
+  declare disc: number | null
+
+  @column()
+  declare duration: number | null
+
+  @column({
+    consume: (value) => value,
+    prepare: (value) => (value ? JSON.stringify(value) : null),
+    serializeAs: null,
+  })
+  declare cover: CoverLocation | null
+
+  @column({
+    consume: (value) => value,
+    prepare: (value) => JSON.stringify(value),
+  })
+  declare metadata: MediaMetadata
+
+  @column({
+    consume: (value) => value,
+    prepare: (value) => JSON.stringify(value),
+    serializeAs: null,
+  })
+  declare tgMetadata: TGMetadata
+
+  @belongsTo(() => Artist)
+  declare artist: BelongsTo<typeof Artist>
+
+  @belongsTo(() => Album)
+  declare album: BelongsTo<typeof Album>
+
+  get streamable(): StreamableFile {
+    const { size, mimeType } = this.metadata
+    const { fileId, chatId, messageId } = this.tgMetadata
+    const sources = [{ fileId, chatId, messageId, size }]
+    return { tag: `${this.id}-${size}`, size, mimeType, sources }
+  }
+}
@@ -1,5 +1,6 @@
 import { compose } from '@adonisjs/core/helpers'
 import { BaseModel, column, hasMany, hasManyThrough } from '@adonisjs/lucid/orm'
+import type { DateTime } from 'luxon'
 
 import type { HasMany, HasManyThrough } from '@adonisjs/lucid/types/relations'
 
@@ -18,17 +19,68 @@ export default class TV extends compose(BaseModel, withTimestamps()) {
   declare year: number
 
   @column()
-  declare trakt: number
+  declare trakt: number | null
 
   @column()
-  declare tvdb: number
+  declare tvdb: number | null
 
   @column()
-  declare imdb: string
+  declare imdb: string | null
 
   @column()
   declare tmdb: number
 
+  @column()
+  declare originalTitle: string | null
+
+  @column()
+  declare overview: string | null
+
+  @column.date()
+  declare firstAirDate: DateTime | null
+
+  @column.date()
+  declare lastAirDate: DateTime | null
+
+  @column()
+  declare popularity: number | null
+
+  @column()
+  declare voteAverage: number | null
+
+  @column()
+  declare voteCount: number | null
+
+  @column()
+  declare adult: boolean
+
+  @column({
+    consume: (value) => value,
+    prepare: (value) => JSON.stringify(value),
+  })
+  declare genres: string[]
+
+  @column()
+  declare poster: string | null
+
+  @column()
+  declare backdrop: string | null
+
+  /**
+   * Last TMDB refresh of the show, its seasons and episodes
+   */
+  @column.dateTime({ serializeAs: null })
+  declare metadataSyncedAt: DateTime | null
+
+  @column({ serializeAs: null })
+  declare metadataSyncFailures: number
+
+  /**
+   * Set after a failed refresh, the show is skipped until then
+   */
+  @column.dateTime({ serializeAs: null })
+  declare metadataSyncRetryAt: DateTime | null
+
   @hasMany(() => Season)
   declare seasons: HasMany<typeof Season>
 
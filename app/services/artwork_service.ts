@@ -0,0 +1,119 @@
+import app from '@adonisjs/core/services/app'
+import logger from '@adonisjs/core/services/logger'
+import type { Image } from 'tmdb-ts'
+
+import type Movie from '#models/movie'
+import type TV from '#models/tv'
+import type { Artwork, ArtworkImage, FanartImage, FanartMovie, FanartShow } from '#types/artwork'
+
+const TMDB_IMAGE_URL = 'https://image.tmdb.org/t/p/original'
+
+/**
+ * Artwork kinds where text is expected, the rest prefers images without text
+ */
+const TEXT_KINDS = new Set<keyof Artwork>(['logos', 'banners', 'discs', 'posters'])
+
+/**
+ * Merges fanart.tv artwork with the TMDB images of a title. Fanart.tv has the
+ * clear logos, banners and disc art TMDB lacks, TMDB fills in titles fanart.tv
+ * does not know.
+ */
+export class ArtworkService {
+  constructor(private language = 'en') {}
+
+  async movie(movie: Movie): Promise<Artwork> {
+    const tmdb = await app.container.make('tmdb')
+    const [fanart, images] = await Promise.all([
+      this.fetchFanart<FanartMovie>('movies', movie.tmdb ?? movie.imdb),
+      tmdb.movies.images(movie.tmdb, { include_image_language: [this.language, 'null'] }),
+    ])
+
+    return this.sort({
+      logos: [
+        ...this.fromFanart(fanart?.hdmovielogo),
+        ...this.fromFanart(fanart?.movielogo),
+        ...this.fromTmdb(images.logos),
+      ],
+      backgrounds: [
+        ...this.fromFanart(fanart?.moviebackground),
+        ...this.fromTmdb(images.backdrops),
+      ],
+      banners: this.fromFanart(fanart?.moviebanner),
+      discs: this.fromFanart(fanart?.moviedisc),
+      posters: [...this.fromTmdb(images.posters), ...this.fromFanart(fanart?.movieposter)],
+    })
+  }
+
+  async tv(tv: TV): Promise<Artwork> {
+    const tmdb = await app.container.make('tmdb')
+    const [fanart, images] = await Promise.all([
+      this.fetchFanart<FanartShow>('tv', tv.tvdb),
+      tmdb.tvShows.images(tv.tmdb, { include_image_language: [this.language, 'null'] }),
+    ])
+
+    return this.sort({
+      logos: [
+        ...this.fromFanart(fanart?.hdtvlogo),
+        ...this.fromFanart(fanart?.clearlogo),
+        ...this.fromTmdb(images.logos),
+      ],
+      backgrounds: [...this.fromFanart(fanart?.showbackground), ...this.fromTmdb(images.backdrops)],
+      banners: this.fromFanart(fanart?.tvbanner),
+      discs: [],
+      posters: [...this.fromTmdb(images.posters), ...this.fromFanart(fanart?.tvposter)],
+    })
+  }
+
+  /**
+   * Fanart.tv answers with a 404 for titles without artwork, those and any
+   * other failure leave only the TMDB images. Shows are looked up by TVDB id.
+   */
+  private async fetchFanart<T>(
+    kind: 'movies' | 'tv',
+    id: string | number | null
+  ): Promise<T | null> {
+    if (!id) return null
+    try {
+      const fanart = await app.container.make('fanart')
+      return (await fanart[kind].get(String(id))) as T
+    } catch (error) {
+      logger.debug(`No fanart.tv artwork for ${kind} ${id}: ${error.message}`)
+      return null
+    }
+  }
+
+  private fromFanart(images: FanartImage[] | undefined): ArtworkImage[] {
+    return (images ?? []).map((image) => ({
+      url: image.url,
+      language: image.lang && image.lang !== '00' ? image.lang : null,
+      likes: Number(image.likes) || 0,
+      source: 'fanart',
+    }))
+  }
+
+  private fromTmdb(images: Image[] | undefined): ArtworkImage[] {
+    return (images ?? []).map((image) => ({
+      url: `${TMDB_IMAGE_URL}${image.file_path}`,
+      language: image.iso_639_1 || null,
+      likes: image.vote_count,
+      source: 'tmdb',
+    }))
+  }
+
+  /**
+   * Best match first: the preferred language for artwork with text, no text for
+   * backgrounds, then the most liked
+   */
+  private sort(artwork: Artwork): Artwork {
+    const sorted = { ...artwork }
+    for (const kind of Object.keys(artwork) as (keyof Artwork)[]) {
+      const rank = (image: ArtworkImage) => {
+        if (image.language === (TEXT_KINDS.has(kind) ? this.language : null)) return 0
+        if (image.language === (TEXT_KINDS.has(kind) ? null : this.language)) return 1
+        return 2
+      }
+      sorted[kind] = [...artwork[kind]].sort((a, b) => rank(a) - rank(b) || b.likes - a.likes)
+    }
+    return sorted
+  }
+}
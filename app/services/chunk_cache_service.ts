@@ -0,0 +1,178 @@
+import logger from '@adonisjs/core/services/logger'
+import crypto from 'node:crypto'
+import fs from 'node:fs/promises'
+import path from 'node:path'
+
+/**
+ * Keeps downloaded chunks of Telegram files on disk, least recently used ones
+ * are deleted once the cache grows past its size cap. Chunks are written to a
+ * temporary file and renamed into place, so a crash never leaves a partial
+ * chunk behind. Requests for a chunk that is already being downloaded wait
+ * for that download instead of starting another one.
+ */
+export class ChunkCacheService {
+  /**
+   * Cached chunks and their sizes, least recently used first
+   */
+  private readonly entries = new Map<string, number>()
+  private readonly pending = new Map<string, Promise<Uint8Array>>()
+  private ready: Promise<void> | null = null
+  private size = 0
+  private hits = 0
+  private misses = 0
+
+  constructor(
+    private readonly directory: string,
+    private readonly maxSize: number
+  ) {}
+
+  /**
+   * Read a chunk from the cache or download it with `fetch`. The download is
+   * shared with every request for the chunk, so the signal only stops this
+   * request from waiting and never aborts the download itself.
+   */
+  async get(
+    fileId: string,
+    index: number,
+    fetch: () => Promise<Uint8Array>,
+    signal?: AbortSignal
+  ): Promise<Uint8Array> {
+    this.ready ??= this.load()
+    await this.ready
+
+    const name = this.entryName(fileId, index)
+    let chunk = this.pending.get(name)
+    if (!chunk) {
+      chunk = this.readOrFetch(name, fetch).finally(() => this.pending.delete(name))
+      this.pending.set(name, chunk)
+    } else {
+      this.hits++
+    }
+    return abortable(chunk, signal)
+  }
+
+  stats() {
+    return { hits: this.hits, misses: this.misses, size: this.size, maxSize: this.maxSize }
+  }
+
+  private async readOrFetch(name: string, fetch: () => Promise<Uint8Array>) {
+    const cached = await this.read(name)
+    if (cached) {
+      this.hits++
+      return cached
+    }
+
+    this.misses++
+    const chunk = await fetch()
+    await this.write(name, chunk).catch((error) => {
+      logger.warn(`Failed to cache chunk ${name}: ${error.message}`)
+    })
+    return chunk
+  }
+
+  private async read(name: string) {
+    try {
+      const data = await fs.readFile(this.entryPath(name))
+      this.touch(name, data.length)
+      // Recency survives restarts through the modification time
+      const now = new Date()
+      fs.utimes(this.entryPath(name), now, now).catch(() => {})
+      return data
+    } catch (error) {
+      if (error.code !== 'ENOENT') throw error
+      this.forget(name)
+      return null
+    }
+  }
+
+  private async write(name: string, chunk: Uint8Array) {
+    const target = this.entryPath(name)
+    const temporary = `${target}.${crypto.randomBytes(6).toString('hex')}.tmp`
+    await fs.mkdir(path.dirname(target), { recursive: true })
+    try {
+      await fs.writeFile(temporary, chunk)
+      await fs.rename(temporary, target)
+    } catch (error) {
+      await fs.rm(temporary, { force: true })
+      throw error
+    }
+    this.touch(name, chunk.length)
+    await this.evict()
+  }
+
+  private touch(name: string, size: number) {
+    this.forget(name)
+    this.entries.set(name, size)
+    this.size += size
+  }
+
+  private forget(name: string) {
+    const size = this.entries.get(name)
+    if (size === undefined) return
+    this.entries.delete(name)
+    this.size -= size
+  }
+
+  private async evict() {
+    while (this.size > this.maxSize) {
+      const [name] = this.entries.keys()
+      if (name === undefined) break
+      this.forget(name)
+      await fs.rm(this.entryPath(name), { force: true })
+    }
+  }
+
+  /**
+   * Index the chunks left by earlier runs, oldest first, and drop the
+   * temporary files of writes that never finished
+   */
+  private async load() {
+    await fs.mkdir(this.directory, { recursive: true })
+    const found: { name: string; size: number; mtime: number }[] = []
+    const entries = await fs.readdir(this.directory, { recursive: true, withFileTypes: true })
+    for (const entry of entries) {
+      if (!entry.isFile()) continue
+      const file = path.join(entry.parentPath, entry.name)
+      if (entry.name.endsWith('.tmp')) {
+        await fs.rm(file, { force: true })
+        continue
+      }
+      const stats = await fs.stat(file).catch(() => null)
+      if (stats) found.push({ name: entry.name, size: stats.size, mtime: stats.mtimeMs })
+    }
+
+    for (const entry of found.sort((a, b) => a.mtime - b.mtime)) {
+      this.touch(entry.name, entry.size)
+    }
+    await this.evict()
+    logger.info(
+      `Chunk cache holds ${this.entries.size} chunks (${Math.round(this.size / 1024 ** 2)}MB)`
+    )
+  }
+
+  /**
+   * File ids are long and may contain characters that are not safe in file
+   * names, so they are hashed
+   */
+  private entryName(fileId: string, index: number) {
+    const hash = crypto.createHash('sha1').update(fileId).digest('hex')
+    return `${hash}-${index}`
+  }
+
+  /**
+   * Chunks are spread over subdirectories to keep directories small
+   */
+  private entryPath(name: string) {
+    return path.join(this.directory, name.slice(0, 2), name)
+  }
+}
+
+function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise
+  signal.throwIfAborted()
+  return new Promise((resolve, reject) => {
+    const onAbort = () => reject(signal.reason)
+    signal.addEventListener('abort', onAbort, { once: true })
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort))
+  })
+}
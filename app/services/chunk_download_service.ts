@@ -0,0 +1,175 @@
+import logger from '@adonisjs/core/services/logger'
+import { performance } from 'node:perf_hooks'
+import { Readable } from 'node:stream'
+
+import type { ChunkCacheService } from '#services/chunk_cache_service'
+import type { TGWorkerPoolService } from '#services/tg_worker_pool_service'
+import type { DownloadStats } from '#types/stream'
+import type { FileSource } from '#types/tg'
+
+/**
+ * Downloads byte ranges of Telegram files in whole chunks aligned to the 1MB
+ * boundaries Telegram serves, several at a time. A stream keeps a window of
+ * chunks ahead of what the client has read and stops fetching while the client
+ * is not reading, so memory per stream stays at the window size.
+ */
+export class ChunkDownloadService {
+  readonly CHUNK_SIZE = 1024 * 1024
+  private readonly CONCURRENCY = 4 // chunk requests in flight per stream
+  private readonly READ_AHEAD = 8 // chunks held ahead of the client per stream
+
+  private readonly totals = {
+    activeStreams: 0,
+    streams: 0,
+    bytes: 0,
+    chunks: 0,
+    failedChunks: 0,
+    chunkTime: 0,
+    firstBytes: 0,
+    firstByteTime: 0,
+    finishedBytes: 0,
+    finishedTime: 0,
+  }
+
+  constructor(
+    private readonly workers: TGWorkerPoolService,
+    private readonly cache?: ChunkCacheService
+  ) {}
+
+  stream(source: FileSource, offset: number, length: number): Readable {
+    const first = Math.floor(offset / this.CHUNK_SIZE)
+    const last = Math.floor((offset + length - 1) / this.CHUNK_SIZE)
+    const controller = new AbortController()
+    const run = limit(this.CONCURRENCY, controller.signal)
+    const startedAt = performance.now()
+    let firstByteAt: number | null = null
+    let sent = 0
+
+    const self = this
+    async function* chunks() {
+      const window: Promise<Uint8Array>[] = []
+      let scheduled = first
+      self.totals.activeStreams++
+      self.totals.streams++
+      try {
+        for (let index = first; index <= last; index++) {
+          while (scheduled <= last && scheduled < index + self.READ_AHEAD) {
+            const chunkIndex = scheduled
+            const chunk = run(() => self.fetchChunk(source, chunkIndex, controller.signal))
+            // Chunks left over when the client goes away reject once aborted
+            chunk.catch(() => {})
+            window.push(chunk)
+            scheduled++
+          }
+
+          const chunk = await window.shift()!
+          const start = index === first ? offset - index * self.CHUNK_SIZE : 0
+          const end = index === last ? offset + length - index * self.CHUNK_SIZE : chunk.length
+          if (chunk.length < end) {
+            throw new Error(`File ${source.fileId} ended before the requested range`)
+          }
+
+          firstByteAt ??= performance.now()
+          sent += end - start
+          yield Buffer.from(chunk.buffer, chunk.byteOffset + start, end - start)
+        }
+      } finally {
+        controller.abort()
+        self.finish(source.fileId, startedAt, firstByteAt, sent)
+      }
+    }
+
+    return Readable.from(chunks(), { objectMode: false, highWaterMark: this.CHUNK_SIZE })
+  }
+
+  stats(): DownloadStats {
+    const { totals } = this
+    return {
+      activeStreams: totals.activeStreams,
+      streams: totals.streams,
+      bytes: totals.bytes,
+      chunks: totals.chunks,
+      failedChunks: totals.failedChunks,
+      averageChunkTime: totals.chunks ? Math.round(totals.chunkTime / totals.chunks) : null,
+      averageFirstByteTime: totals.firstBytes
+        ? Math.round(totals.firstByteTime / totals.firstBytes)
+        : null,
+      throughput: totals.finishedTime
+        ? Math.round(totals.finishedBytes / (totals.finishedTime / 1000))
+        : null,
+      workers: this.workers.stats(),
+      cache: this.cache?.stats() ?? null,
+    }
+  }
+
+  /**
+   * Read one whole chunk through the cache, the last chunk of a file is shorter
+   */
+  protected fetchChunk(source: FileSource, index: number, signal: AbortSignal) {
+    if (!this.cache) return this.download(source, index, signal)
+    // Other streams may wait on the same download, so it is not aborted with
+    // the stream that started it and ends up in the cache either way
+    return this.cache.get(source.fileId, index, () => this.download(source, index), signal)
+  }
+
+  private async download(source: FileSource, index: number, signal?: AbortSignal) {
+    const startedAt = performance.now()
+    try {
+      const chunk = await this.workers.downloadChunk(
+        source,
+        index * this.CHUNK_SIZE,
+        this.CHUNK_SIZE,
+        signal
+      )
+      this.totals.chunks++
+      this.totals.chunkTime += performance.now() - startedAt
+      return chunk
+    } catch (error) {
+      if (!signal?.aborted) this.totals.failedChunks++
+      throw error
+    }
+  }
+
+  private finish(fileId: string, startedAt: number, firstByteAt: number | null, bytes: number) {
+    const time = performance.now() - startedAt
+    this.totals.activeStreams--
+    this.totals.bytes += bytes
+    if (firstByteAt === null) return
+
+    const firstByteTime = firstByteAt - startedAt
+    this.totals.firstBytes++
+    this.totals.firstByteTime += firstByteTime
+    this.totals.finishedBytes += bytes
+    this.totals.finishedTime += time
+    logger.debug(
+      `Streamed ${(bytes / this.CHUNK_SIZE).toFixed(1)}MB of ${fileId} in ${Math.round(time)}ms, ` +
+        `first byte after ${Math.round(firstByteTime)}ms`
+    )
+  }
+}
+
+/**
+ * Run at most `concurrency` tasks at once, tasks still waiting when the signal
+ * aborts are rejected without running
+ */
+function limit(concurrency: number, signal: AbortSignal) {
+  let active = 0
+  const waiting: (() => void)[] = []
+
+  return async <T>(task: () => Promise<T>): Promise<T> => {
+    if (active < concurrency) {
+      active++
+    } else {
+      // The slot of a finished task is handed over without being released
+      await new Promise<void>((resolve) => waiting.push(resolve))
+    }
+    try {
+      signal.throwIfAborted()
+      return await task()
+    } finally {
+      const next = waiting.shift()
+      if (next) next()
+      else active--
+    }
+  }
+}
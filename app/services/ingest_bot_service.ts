@@ -0,0 +1,165 @@
+import app from '@adonisjs/core/services/app'
+import logger from '@adonisjs/core/services/logger'
+import { CallbackDataBuilder, type CallbackQueryContext } from '@mtcute/dispatcher'
+import { BotKeyboard, type Message, type ReplyMarkup } from '@mtcute/node'
+
+import type { IngestJob, IngestResult, MatchCandidate, MediaMessage } from '#types/tg'
+import { asMediaMessage, parseReleaseName } from '#utils/tg'
+
+/**
+ * Callback data of the buttons attached to failed ingest replies
+ */
+export const IngestCallback = new CallbackDataBuilder('ingest', 'action', 'tmdb')
+
+/**
+ * Replies to uploaded files with the ingest result, so the uploader can check
+ * the match. Failure replies come with buttons to retry or pick a match by hand,
+ * uploads of channels without auto import with buttons to approve or reject them.
+ */
+export class IngestBotService {
+  private readonly MAX_CANDIDATES = 5
+
+  async replyResult(job: IngestJob, result: IngestResult) {
+    const heading = result.status === 'imported' ? 'Imported' : 'Already in the library'
+    const year = result.year ? ` (${result.year})` : ''
+    const lastEpisode = result.lastEpisode !== null ? `-E${this.pad(result.lastEpisode)}` : ''
+    const episode =
+      result.season !== null && result.episode !== null
+        ? ` S${this.pad(result.season)}E${this.pad(result.episode)}${lastEpisode}`
+        : ''
+    await this.reply(job, `${heading}: ${result.title}${year}${episode}\n${result.url}`)
+  }
+
+  async replyFailure(job: IngestJob, error: Error) {
+    await this.reply(
+      job,
+      `Failed to import: ${error.message}`,
+      BotKeyboard.inline([[this.retryButton(), this.pickButton()]])
+    )
+  }
+
+  async requestApproval(message: Pick<Message, 'chat' | 'id' | 'link'>) {
+    await this.reply(
+      { chatId: message.chat.id, messageId: message.id, messageLink: message.link },
+      'Waiting for an admin to approve the import',
+      BotKeyboard.inline([[this.approveButton(), this.rejectButton()]])
+    )
+  }
+
+  async handleCallback(ctx: CallbackQueryContext, data: Record<'action' | 'tmdb', string>) {
+    const { tg } = await app.container.make('tg')
+    const member = await tg.getChatMember({ chatId: ctx.chat.id, userId: ctx.user.id })
+    if (member?.status !== 'creator' && member?.status !== 'admin') {
+      return ctx.answer({ text: 'Only chat admins can manage imports', alert: true })
+    }
+
+    const original = await this.findOriginal(ctx)
+    if (!original) {
+      return ctx.answer({ text: 'The uploaded file no longer exists', alert: true })
+    }
+
+    const queue = await app.container.make('ingest:queue')
+    const ingest = await app.container.make('ingest')
+    const release = parseReleaseName(original.media.fileName ?? '')
+
+    if (data.action === 'retry' || data.action === 'approve') {
+      await queue.push(original)
+      await ctx.editMessage({
+        text:
+          data.action === 'approve' ? 'Approved, queued for import' : 'Queued for another attempt',
+      })
+      return ctx.answer({})
+    }
+
+    if (data.action === 'reject') {
+      await ctx.editMessage({ text: 'Import rejected' })
+      return ctx.answer({})
+    }
+
+    if (!release) {
+      return ctx.answer({ text: 'Could not read a title from the file name', alert: true })
+    }
+
+    if (data.action === 'pick') {
+      const candidates = await ingest.searchReleaseName(release)
+      if (!candidates.length) {
+        return ctx.answer({ text: `No TMDB results for ${release.title}`, alert: true })
+      }
+      await ctx.editMessage({
+        text: `Pick a match for ${original.media.fileName}`,
+        replyMarkup: BotKeyboard.inline([
+          ...candidates.slice(0, this.MAX_CANDIDATES).map((c) => [this.matchButton(c)]),
+          [this.retryButton()],
+        ]),
+      })
+      return ctx.answer({})
+    }
+
+    const match = await ingest.resolveCandidate(release, Number(data.tmdb))
+    if (!match) return ctx.answer({ text: 'The selected title has no IMDb id', alert: true })
+    await queue.push(original, match)
+    await ctx.editMessage({ text: `Queued as ${match.imdb}` })
+    return ctx.answer({})
+  }
+
+  /**
+   * Replies never fail the job, the file is ingested either way
+   */
+  private async reply(
+    job: Pick<IngestJob, 'chatId' | 'messageId' | 'messageLink'>,
+    text: string,
+    replyMarkup?: ReplyMarkup
+  ) {
+    try {
+      const { tg } = await app.container.make('tg')
+      await tg.sendText(job.chatId, text, {
+        replyTo: job.messageId,
+        replyMarkup,
+        disableWebPreview: true,
+      })
+    } catch (error) {
+      logger.warn(`Failed to reply to ${job.messageLink}: ${error.message}`)
+    }
+  }
+
+  /**
+   * The uploaded message is the one the bot reply with the buttons answers to
+   */
+  private async findOriginal(ctx: CallbackQueryContext): Promise<MediaMessage | null> {
+    const reply = await ctx.getMessage()
+    const originalId = reply?.replyToMessage?.id
+    if (!originalId) return null
+
+    const { tg } = await app.container.make('tg')
+    const [message] = await tg.getMessages(ctx.chat.id, originalId)
+    return asMediaMessage(message)
+  }
+
+  private retryButton() {
+    return BotKeyboard.callback('Retry', IngestCallback.build({ action: 'retry', tmdb: '' }))
+  }
+
+  private pickButton() {
+    return BotKeyboard.callback('Pick match', IngestCallback.build({ action: 'pick', tmdb: '' }))
+  }
+
+  private approveButton() {
+    return BotKeyboard.callback('Approve', IngestCallback.build({ action: 'approve', tmdb: '' }))
+  }
+
+  private rejectButton() {
+    return BotKeyboard.callback('Reject', IngestCallback.build({ action: 'reject', tmdb: '' }))
+  }
+
+  private matchButton(candidate: MatchCandidate) {
+    const label = candidate.year ? `${candidate.title} (${candidate.year})` : candidate.title
+    return BotKeyboard.callback(
+      label,
+      IngestCallback.build({ action: 'match', tmdb: String(candidate.tmdbId) })
+    )
+  }
+
+  private pad(value: number) {
+    return String(value).padStart(2, '0')
+  }
+}
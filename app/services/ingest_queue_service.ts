@@ -0,0 +1,129 @@
+import { cuid } from '@adonisjs/core/helpers'
+import app from '@adonisjs/core/services/app'
+import logger from '@adonisjs/core/services/logger'
+import redis from '@adonisjs/redis/services/main'
+import type { Message } from '@mtcute/node'
+
+import IngestException from '#exceptions/ingest_exception'
+import FailedJob from '#models/failed_job'
+import type { IngestBotService } from '#services/ingest_bot_service'
+import type { IngestJob, ParsedMediaText } from '#types/tg'
+
+/**
+ * Redis backed queue for ingesting channel uploads. Jobs only reference the
+ * Telegram message, which is fetched again when the job runs. Failed jobs are
+ * retried with exponential backoff and end up in the `failed_jobs` table.
+ */
+export class IngestQueueService {
+  private readonly QUEUE_KEY = 'ingest:queue'
+  private readonly PROCESSING_KEY = 'ingest:processing'
+  private readonly DELAYED_KEY = 'ingest:delayed'
+  private readonly MAX_ATTEMPTS = 5
+  private readonly BACKOFF_BASE = 30 // seconds, doubled on every attempt
+  private readonly POLL_INTERVAL = 1000 // 1 second
+
+  private timer: NodeJS.Timeout | null = null
+  private stopped = true
+
+  /**
+   * Queue a channel message for ingestion, optionally with a match picked by hand
+   */
+  async push(message: Pick<Message, 'chat' | 'id' | 'link'>, match?: ParsedMediaText) {
+    await this.enqueue({
+      id: cuid(),
+      chatId: message.chat.id,
+      messageId: message.id,
+      messageLink: message.link,
+      attempts: 0,
+      ...(match ? { match } : {}),
+    })
+  }
+
+  async enqueue(job: IngestJob) {
+    await redis.lpush(this.QUEUE_KEY, JSON.stringify(job))
+  }
+
+  /**
+   * Start processing jobs, including the ones interrupted by the last shutdown
+   */
+  async start() {
+    while (await redis.rpoplpush(this.PROCESSING_KEY, this.QUEUE_KEY)) {}
+    this.stopped = false
+    this.schedule()
+  }
+
+  stop() {
+    this.stopped = true
+    if (this.timer) clearTimeout(this.timer)
+  }
+
+  private schedule() {
+    if (this.stopped) return
+    this.timer = setTimeout(() => this.tick(), this.POLL_INTERVAL)
+  }
+
+  private async tick() {
+    try {
+      await this.promoteDelayed()
+      let raw: string | null
+      while (!this.stopped && (raw = await redis.rpoplpush(this.QUEUE_KEY, this.PROCESSING_KEY))) {
+        try {
+          await this.process(raw)
+        } finally {
+          await redis.lrem(this.PROCESSING_KEY, 1, raw)
+        }
+      }
+    } catch (error) {
+      logger.error(error, 'Ingest queue tick failed')
+    }
+    this.schedule()
+  }
+
+  /**
+   * Move delayed jobs whose backoff has elapsed back to the queue
+   */
+  private async promoteDelayed() {
+    const due = await redis.zrangebyscore(this.DELAYED_KEY, 0, Date.now())
+    for (const raw of due) {
+      if (await redis.zrem(this.DELAYED_KEY, raw)) await redis.lpush(this.QUEUE_KEY, raw)
+    }
+  }
+
+  private async process(raw: string) {
+    const job: IngestJob = JSON.parse(raw)
+    job.attempts++
+    let reply: (bot: IngestBotService) => Promise<void>
+    try {
+      const ingest = await app.container.make('ingest')
+      const result = await ingest.importMessage(job.chatId, job.messageId, job.match)
+      reply = (bot) => bot.replyResult(job, result)
+    } catch (error) {
+      const retryable = !(error instanceof IngestException)
+      if (retryable && job.attempts < this.MAX_ATTEMPTS) {
+        const delay = this.BACKOFF_BASE * 2 ** (job.attempts - 1)
+        logger.warn(`Ingest of ${job.messageLink} failed, retrying in ${delay}s: ${error.message}`)
+        await redis.zadd(this.DELAYED_KEY, Date.now() + delay * 1000, JSON.stringify(job))
+        return
+      }
+
+      logger.error(error, `Ingest of ${job.messageLink} failed`)
+      await FailedJob.create({
+        chatId: job.chatId,
+        messageId: job.messageId,
+        messageLink: job.messageLink,
+        error: error.message,
+        attempts: job.attempts,
+        payload: job,
+      })
+      reply = (bot) => bot.replyFailure(job, error)
+    }
+
+    // The job is settled at this point, a failed reply must not run it again
+    try {
+      const bot = await app.container.make('ingest:bot')
+      await reply(bot)
+    } catch (error) {
+      logger.warn(`Failed to reply to ${job.messageLink}: ${error.message}`)
+    }
+  }
+}
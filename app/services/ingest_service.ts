@@ -0,0 +1,1125 @@
+import { cuid } from '@adonisjs/core/helpers'
+import app from '@adonisjs/core/services/app'
+import logger from '@adonisjs/core/services/logger'
+import db from '@adonisjs/lucid/services/db'
+import type { TransactionClientContract } from '@adonisjs/lucid/types/database'
+import redis from '@adonisjs/redis/services/main'
+import { errors as vineErrors } from '@vinejs/vine'
+import { setTimeout as sleep } from 'node:timers/promises'
+
+import IngestException from '#exceptions/ingest_exception'
+import Album from '#models/album'
+import Artist from '#models/artist'
+import Episode from '#models/episode'
+import IngestChannel from '#models/ingest_channel'
+import MediaFile from '#models/media_file'
+import Movie from '#models/movie'
+import Subtitle from '#models/subtitle'
+import Track from '#models/track'
+import TV from '#models/tv'
+import { TGService } from '#services/tg_service'
+import env from '#start/env'
+import type { MediaContainer, MediaProbe } from '#types/media'
+import type { ShowMetadata } from '#types/metadata'
+import type { SubtitleFormat } from '#types/subtitle'
+import type {
+  IngestResult,
+  MatchCandidate,
+  MediaFilePart,
+  MediaMessage,
+  MediaMetadata,
+  ParsedMediaText,
+  ParsedMovieText,
+  ParsedReleaseName,
+  ParsedShowText,
+  RematchResult,
+  StructuredCaption,
+  TGMetadata,
+} from '#types/tg'
+import { readAudioTags } from '#utils/audio_tags'
+import { fingerprintFile, sharedSamples } from '#utils/fingerprint'
+import type { Fingerprint } from '#utils/fingerprint'
+import { probeMedia } from '#utils/media_probe'
+import { normalizeLanguage, parseSubtitleLanguage, subtitleFormat } from '#utils/subtitles'
+import {
+  asMediaMessage,
+  CAPTION_KEYS,
+  parseFilePart,
+  parseMediaText,
+  parseReleaseName,
+  parseReleaseQuality,
+  parseStructuredCaption,
+} from '#utils/tg'
+import { captionValidator } from '#validators/caption_validator'
+
+type MatchIds = Pick<
+  StructuredCaption,
+  'type' | 'imdb' | 'tmdb' | 'season' | 'episode' | 'lastEpisode'
+>
+
+type MediaFileAttributes = Pick<
+  MediaFile,
+  | 'resolution'
+  | 'codec'
+  | 'source'
+  | 'edition'
+  | 'metadata'
+  | 'tgMetadata'
+  | 'fingerprint'
+  | 'fingerprintSamples'
+  | 'duplicateOfId'
+  | 'partGroup'
+  | 'parts'
+>
+
+const CONTAINER_MIME_TYPES: Record<MediaContainer, string> = {
+  mp4: 'video/mp4',
+  matroska: 'video/x-matroska',
+  webm: 'video/webm',
+}
+
+/**
+ * Deletes a lock only while it still holds the token of its owner
+ */
+const RELEASE_LOCK_SCRIPT = `
+if redis.call('get', KEYS[1]) == ARGV[1] then
+  return redis.call('del', KEYS[1])
+end
+return 0
+`
+
+export class IngestService {
+  private readonly LOCK_TTL = 120 // seconds
+  private readonly LOCK_WAIT = 60 // seconds
+  private readonly LOCK_RETRY_DELAY = 250 // milliseconds
+  private readonly WAITING_PARTS_TTL = 7 * 24 * 60 * 60 // 7 days in seconds
+
+  constructor(private tgService: TGService) {}
+
+  /**
+   * Match an uploaded file to a movie or episode and store it. A `match` picked
+   * by the uploader takes precedence over the caption and the file name. Audio
+   * files are indexed into the music library from their tags instead, and
+   * subtitle files are attached to the movie or episode they were matched to.
+   */
+  async ingest(message: MediaMessage, match?: ParsedMediaText): Promise<IngestResult> {
+    const { text, media } = message
+    logger.info(`Processing: ${media.fileName}, ${text}`)
+    if (media.type === 'audio' || media.mimeType.startsWith('audio/')) {
+      return this.handleTrack(message)
+    }
+    const channel = await IngestChannel.findBy('chatId', message.chat.id)
+    const defaultType = channel?.defaultType ?? undefined
+    const readCaption = channel?.captionFormat !== 'filename'
+    const caption = readCaption ? await this.readCaption(text, defaultType) : null
+    const format = subtitleFormat(media.fileName, media.mimeType)
+
+    // Later parts of a split upload join the file of the first one and need no caption
+    const part = format ? null : this.filePart(message, caption)
+    if (part) {
+      const file = await this.findPartFile(message, part.group)
+      // A match picked by hand for the first part moves the whole file
+      const rematch = match && file?.tgMetadata.messageId === message.id
+      if (file && !rematch) return this.handlePart(file, part.number, message)
+      // The job is retried, and queued again once the first part is in if it ran out of retries
+      if (!file && part.number > 1) {
+        await this.waitForFirstPart(message, part.group)
+        throw new Error(`Part ${part.number} of ${part.group} is waiting for the first part`)
+      }
+    }
+
+    const meta =
+      match ??
+      (caption ? await this.resolveMatch(caption, defaultType) : null) ??
+      (readCaption && !caption ? parseMediaText(text, defaultType) : null) ??
+      (await this.resolveReleaseName(media.fileName))
+    if (!meta) throw new IngestException(`Failed to parse media info: ${text}`)
+    if (format) return this.handleSubtitle(meta, format, message, channel, caption)
+
+    // Copies of an ingested file are rejected before their caption can match another title
+    const existing = await this.findMessageFile(message)
+    // A split file keeps what was read from all of its parts
+    const attributes = existing?.parts
+      ? this.splitFileAttributes(existing, message)
+      : await this.mediaFileAttributes(message, existing, channel, caption)
+    if (part && !existing?.parts) {
+      attributes.partGroup = part.group
+      attributes.parts = [this.filePartMetadata(message, part.number)]
+    }
+    const duplicate = await this.findDuplicate(attributes, existing)
+    if (duplicate && duplicate.fingerprint === attributes.fingerprint) {
+      return this.duplicateResult(message, duplicate)
+    }
+    attributes.duplicateOfId = duplicate?.id ?? null
+
+    const result =
+      meta.type === 'movie'
+        ? await this.handleMovie(meta, message, existing, attributes)
+        : await this.handleTV(meta, message, existing, attributes)
+    if (part && !existing?.parts) await this.queueWaitingParts(message, part.group)
+    if (!duplicate) return result
+
+    logger.warn(`${message.link} looks like a copy of ${duplicate.tgMetadata.fileLink}`)
+    return {
+      ...result,
+      message: `${result.message}, possibly a copy of ${this.describeTarget(duplicate).name}`,
+    }
+  }
+
+  /**
+   * Ingest a channel message by its id, with the match picked by hand if any
+   */
+  async importMessage(chatId: number | string, messageId: number, match?: ParsedMediaText) {
+    return this.ingest(await this.fetchMessage(chatId, messageId), match)
+  }
+
+  async fetchMessage(chatId: number | string, messageId: number): Promise<MediaMessage> {
+    const [message] = await this.tgService.tg.getMessages(chatId, messageId)
+    if (!message) throw new IngestException('Message no longer exists')
+    const mediaMessage = asMediaMessage(message)
+    if (!mediaMessage) throw new IngestException('Message has no document, video or audio')
+    return mediaMessage
+  }
+
+  /**
+   * Ingest the messages of files and subtitles again with a match picked by an
+   * admin, which moves them to the matched title. A failed message does not
+   * stop the others.
+   */
+  async rematch(
+    records: { tgMetadata: TGMetadata }[],
+    match: ParsedMediaText
+  ): Promise<RematchResult[]> {
+    const results: RematchResult[] = []
+    for (const { tgMetadata } of records) {
+      const { chatId, messageId, fileLink: link } = tgMetadata
+      try {
+        const { status, message } = await this.importMessage(chatId, messageId, match)
+        results.push({ link, status, message })
+      } catch (error) {
+        logger.warn(`Rematch of ${link} failed: ${error.message}`)
+        results.push({ link, status: 'failed', message: error.message })
+      }
+    }
+    return results
+  }
+
+  /**
+   * Search TMDB for the release name parsed from a file name, best match first
+   */
+  async searchReleaseName(release: ParsedReleaseName): Promise<MatchCandidate[]> {
+    const tmdb = await app.container.make('tmdb')
+    if (release.type === 'movie') {
+      const { results } = await tmdb.search.movies({
+        query: release.title,
+        ...(release.year ? { year: release.year } : {}),
+      })
+      return results.map((result) => ({
+        tmdbId: result.id,
+        title: result.title,
+        year: this.releaseYear(result.release_date),
+      }))
+    }
+
+    const { results } = await tmdb.search.tvShows({
+      query: release.title,
+      ...(release.year ? { first_air_date_year: release.year } : {}),
+    })
+    return results.map((result) => ({
+      tmdbId: result.id,
+      title: result.name,
+      year: this.releaseYear(result.first_air_date),
+    }))
+  }
+
+  /**
+   * Turn a TMDB search result into the IMDb based media info used for ingesting
+   */
+  async resolveCandidate(
+    release: ParsedReleaseName,
+    tmdbId: number
+  ): Promise<ParsedMediaText | null> {
+    const tmdb = await app.container.make('tmdb')
+    if (release.type === 'movie') {
+      const { imdb_id: imdb } = await tmdb.movies.externalIds(tmdbId)
+      return imdb ? { type: 'movie', imdb } : null
+    }
+
+    const { imdb_id: imdb } = await tmdb.tvShows.externalIds(tmdbId)
+    if (!imdb) return null
+    const { season, episode, lastEpisode } = release
+    return { type: 'show', imdb, season, episode, ...(lastEpisode ? { lastEpisode } : {}) }
+  }
+
+  /**
+   * Validate a structured caption. An invalid one is still read the legacy way,
+   * its errors are only reported when that fails too.
+   */
+  private async readCaption(
+    text: string,
+    defaultType?: ParsedMediaText['type']
+  ): Promise<StructuredCaption | null> {
+    const errors: string[] = []
+    let fields: Record<string, unknown> | null = null
+    try {
+      fields = parseStructuredCaption(text)
+    } catch (error) {
+      errors.push(`The caption JSON cannot be read: ${error.message}`)
+    }
+
+    let caption: StructuredCaption | null = null
+    if (fields) {
+      const unknown = Object.keys(fields).filter(
+        (key) => !(CAPTION_KEYS as readonly string[]).includes(key)
+      )
+      if (unknown.length) errors.push(`Unknown caption keys: ${unknown.join(', ')}`)
+
+      try {
+        caption = this.captionFromFields(await captionValidator.validate(fields))
+      } catch (error) {
+        if (!(error instanceof vineErrors.E_VALIDATION_ERROR)) throw error
+        errors.push(...error.messages.map((item: { message: string }) => item.message))
+      }
+      if (caption && fields.language && !caption.language) {
+        errors.push(`Unknown language ${fields.language}`)
+      }
+    }
+
+    if (!errors.length) return caption
+    if (parseMediaText(text, defaultType)) {
+      logger.warn(`Ignoring the invalid structured caption: ${errors.join('; ')}`)
+      return null
+    }
+    throw new IngestException(`Invalid caption: ${errors.join('; ')}`)
+  }
+
+  /**
+   * The match named by explicit ids, like the ones of a structured caption or
+   * picked by an admin. Without an IMDb or TMDB id the match is left to the
+   * file name.
+   */
+  async resolveMatch(
+    caption: MatchIds,
+    defaultType?: ParsedMediaText['type']
+  ): Promise<ParsedMediaText | null> {
+    if (!caption.imdb && !caption.tmdb) return null
+    const type = caption.type ?? defaultType ?? (caption.episode !== null ? 'show' : 'movie')
+
+    let imdb = caption.imdb
+    if (!imdb) {
+      const tmdb = await app.container.make('tmdb')
+      const ids =
+        type === 'movie'
+          ? await tmdb.movies.externalIds(caption.tmdb!)
+          : await tmdb.tvShows.externalIds(caption.tmdb!)
+      if (!ids.imdb_id) throw new IngestException(`TMDB ${type} ${caption.tmdb} has no IMDb id`)
+      imdb = ids.imdb_id
+    }
+
+    if (type === 'movie') return { type, imdb }
+    // An episode without a season is an absolute number
+    if (caption.episode === null) {
+      throw new IngestException('Invalid caption: shows need an episode')
+    }
+    return {
+      type,
+      imdb,
+      season: caption.season,
+      episode: caption.episode,
+      ...(caption.lastEpisode ? { lastEpisode: caption.lastEpisode } : {}),
+    }
+  }
+
+  private captionFromFields(
+    fields: Awaited<ReturnType<typeof captionValidator.validate>>
+  ): StructuredCaption {
+    const [episode, lastEpisode] = fields.episode?.split('-').map(Number) ?? []
+    const [part, parts] = fields.part?.split(/\/|of/i).map(Number) ?? []
+    return {
+      type: fields.type ?? null,
+      imdb: fields.imdb ?? null,
+      tmdb: fields.tmdb ?? null,
+      season: fields.season ?? null,
+      episode: episode ?? null,
+      lastEpisode: lastEpisode > episode ? lastEpisode : null,
+      edition: fields.edition ?? null,
+      language: fields.language ? normalizeLanguage(fields.language) : null,
+      quality: fields.quality ?? null,
+      part: part ? { number: part, total: parts || null } : null,
+    }
+  }
+
+  /**
+   * Fallback for uploads without an IMDb id in the caption. The release name is
+   * parsed from the file name and matched against TMDB to find the IMDb id.
+   */
+  private async resolveReleaseName(fileName: string | null): Promise<ParsedMediaText | null> {
+    if (!fileName) return null
+    const release = parseReleaseName(fileName)
+    if (!release) return null
+
+    const [candidate] = await this.searchReleaseName(release)
+    if (!candidate) return null
+    const meta = await this.resolveCandidate(release, candidate.tmdbId)
+    if (meta) logger.info(`Matched ${fileName} to ${candidate.title} (${meta.imdb})`)
+    return meta
+  }
+
+  private async handleMovie(
+    meta: ParsedMovieText,
+    message: MediaMessage,
+    existing: MediaFile | null,
+    attributes: MediaFileAttributes
+  ): Promise<IngestResult> {
+    const { link } = message
+    const movie = await this.findOrCreateMovie(meta)
+
+    const match = {
+      title: movie.title,
+      year: movie.year,
+      season: null,
+      episode: null,
+      lastEpisode: null,
+      url: this.webUrl(`/movies/${movie.id}`),
+    }
+    if (existing?.movieId === movie.id) {
+      await existing.merge(attributes).save()
+      return this.result('skipped', `Movie ${movie.title} file ${link} already exists`, match)
+    }
+
+    // An edited caption can point an already ingested file at another title
+    const file = existing
+      ? await existing.merge({ ...attributes, movieId: movie.id }).save()
+      : await movie.related('files').create(attributes)
+    if (existing) await file.related('episodes').detach()
+    return this.result(
+      'imported',
+      `Movie ${movie.title}:${movie.imdb} ${existing ? 'rematched' : 'added'} (${this.describeFile(file)})`,
+      match
+    )
+  }
+
+  private async handleTV(
+    meta: ParsedShowText,
+    message: MediaMessage,
+    existing: MediaFile | null,
+    attributes: MediaFileAttributes
+  ): Promise<IngestResult> {
+    const { link } = message
+    const { tv, season, episodes } = await this.findOrCreateEpisodes(meta)
+    const episodeIds = episodes.map((episode) => episode.id).sort()
+
+    const linkedIds = existing ? await this.linkedEpisodeIds(existing) : []
+    const match = {
+      title: tv.title,
+      year: tv.year,
+      season: season.number,
+      episode: episodes[0].number,
+      lastEpisode: episodes.length > 1 ? episodes.at(-1)!.number : null,
+      url: this.webUrl('/'),
+    }
+    const name = `TV ${tv.title} Season ${season.number} ${this.describeEpisodes(episodes)}`
+    if (existing && !existing.movieId && linkedIds.join() === episodeIds.join()) {
+      await existing.merge(attributes).save()
+      return this.result('skipped', `${name} file ${link} already exists`, match)
+    }
+
+    const file = existing
+      ? await existing.merge({ ...attributes, movieId: null }).save()
+      : await MediaFile.create(attributes)
+    await file.related('episodes').sync(episodeIds)
+    return this.result(
+      'imported',
+      `${name} ${existing ? 'rematched' : 'added'} (${this.describeFile(file)})`,
+      match
+    )
+  }
+
+  private async handleSubtitle(
+    meta: ParsedMediaText,
+    format: SubtitleFormat,
+    message: MediaMessage,
+    channel: IngestChannel | null,
+    caption: StructuredCaption | null
+  ): Promise<IngestResult> {
+    const { text, media, link } = message
+    const attributes = {
+      language: caption?.language ?? parseSubtitleLanguage(text, media.fileName, channel?.language),
+      format,
+      metadata: this.fileMetadata(message),
+      tgMetadata: this.tgMetadata(message),
+    }
+
+    let target: Pick<Subtitle, 'movieId' | 'episodeId'>
+    let match: Omit<IngestResult, 'status' | 'message'>
+    let name: string
+    if (meta.type === 'movie') {
+      const movie = await this.findOrCreateMovie(meta)
+      target = { movieId: movie.id, episodeId: null }
+      match = {
+        title: movie.title,
+        year: movie.year,
+        season: null,
+        episode: null,
+        lastEpisode: null,
+        url: this.webUrl(`/movies/${movie.id}`),
+      }
+      name = `Movie ${movie.title}`
+    } else {
+      // Subtitles of a multi-episode file belong to its first episode, where it is played from
+      const { tv, season, episodes } = await this.findOrCreateEpisodes(meta)
+      target = { movieId: null, episodeId: episodes[0].id }
+      match = {
+        title: tv.title,
+        year: tv.year,
+        season: season.number,
+        episode: episodes[0].number,
+        lastEpisode: episodes.length > 1 ? episodes.at(-1)!.number : null,
+        url: this.webUrl('/'),
+      }
+      name = `TV ${tv.title} Season ${season.number} ${this.describeEpisodes(episodes)}`
+    }
+
+    const existing = await Subtitle.query()
+      .whereJsonSuperset('tg_metadata', { chatId: message.chat.id, messageId: message.id })
+      .first()
+    if (existing?.movieId === target.movieId && existing?.episodeId === target.episodeId) {
+      await existing.merge(attributes).save()
+      return this.result('skipped', `${name} subtitle ${link} already exists`, match)
+    }
+
+    const subtitle = existing
+      ? await existing.merge({ ...attributes, ...target }).save()
+      : await Subtitle.create({ ...attributes, ...target })
+    return this.result(
+      'imported',
+      `${name} ${subtitle.label} subtitle ${existing ? 'rematched' : 'added'}`,
+      match
+    )
+  }
+
+  private async findOrCreateMovie(meta: ParsedMovieText): Promise<Movie> {
+    const metadata = await app.container.make('metadata')
+    const found = await metadata.movie({ imdb: meta.imdb })
+    if (!found) throw new IngestException(`No results found for ${meta.imdb}`)
+    const { ids } = found
+
+    let movie = await Movie.query()
+      .where('id', '=', ids.slug!)
+      .if(ids.trakt, (q) => q.orWhere('trakt', '=', ids.trakt!))
+      .if(ids.imdb, (q) => q.orWhere('imdb', '=', ids.imdb!))
+      .if(ids.tmdb, (q) => q.orWhere('tmdb', '=', ids.tmdb!))
+      .first()
+    if (movie) logger.info(`Movie ${movie.title} already exists`)
+    if (!movie) {
+      // Movie details are served from TMDB
+      if (!ids.tmdb || !found.year) {
+        throw new IngestException(`No TMDB id or release year found for ${meta.imdb}`)
+      }
+
+      movie = await Movie.create({
+        id: ids.slug!,
+        title: found.title,
+        trakt: ids.trakt,
+        tmdb: ids.tmdb,
+        year: found.year,
+        imdb: ids.imdb,
+        poster: found.poster,
+      })
+      await movie.save()
+    }
+    return movie
+  }
+
+  /**
+   * Find or create the show, season and episodes of a match in one transaction.
+   * Uploads of a new show posted together wait for each other, so the show is
+   * created once.
+   */
+  private async findOrCreateEpisodes(meta: ParsedShowText) {
+    const metadata = await app.container.make('metadata')
+    const show = await metadata.show({ imdb: meta.imdb })
+    if (!show) throw new IngestException(`No results found for ${meta.imdb}`)
+
+    return this.withLock(`ingest:lock:tv:${show.ids.slug}`, () =>
+      db.transaction((trx) => this.upsertEpisodes(meta, show, trx))
+    )
+  }
+
+  private async upsertEpisodes(
+    meta: ParsedShowText,
+    show: ShowMetadata,
+    trx: TransactionClientContract
+  ) {
+    const metadata = await app.container.make('metadata')
+    const { ids } = show
+
+    // tv checks
+    let tv = await TV.query({ client: trx })
+      .where('id', '=', ids.slug!)
+      .if(ids.trakt, (q) => q.orWhere('trakt', '=', ids.trakt!))
+      .if(ids.tvdb, (q) => q.orWhere('tvdb', '=', ids.tvdb!))
+      .if(ids.imdb, (q) => q.orWhere('imdb', '=', ids.imdb!))
+      .if(ids.tmdb, (q) => q.orWhere('tmdb', '=', ids.tmdb!))
+      .first()
+    if (tv) logger.info(`TV ${tv.title} already exists`)
+    if (!tv) {
+      // Show details are synced from TMDB
+      if (!ids.tmdb || !show.year) {
+        throw new IngestException(`No TMDB id or first air year found for ${meta.imdb}`)
+      }
+
+      tv = await TV.create(
+        {
+          id: ids.slug!,
+          title: show.title,
+          year: show.year,
+          trakt: ids.trakt,
+          tmdb: ids.tmdb,
+          tvdb: ids.tvdb,
+          imdb: ids.imdb,
+        },
+        { client: trx }
+      )
+      await tv.save()
+    }
+
+    // absolute numbers are mapped to the season they fall in, ranges stay within it
+    let { season: seasonNumber, episode: firstEpisode, lastEpisode } = meta
+    if (seasonNumber === null) {
+      const mapped = await metadata.absoluteEpisode(show, firstEpisode)
+      if (!mapped) {
+        throw new IngestException(`No results found for ${show.title} Episode ${firstEpisode}`)
+      }
+      logger.info(
+        `Mapped ${show.title} Episode ${firstEpisode} to Season ${mapped.season} Episode ${mapped.episode}`
+      )
+      if (lastEpisode) lastEpisode += mapped.episode - firstEpisode
+      seasonNumber = mapped.season
+      firstEpisode = mapped.episode
+    }
+
+    // season checks
+    let stale = false
+    let season = await tv.related('seasons').query().where('number', '=', seasonNumber).first()
+    if (season) logger.info(`TV ${tv.title} Season ${season.number} already exists`)
+    if (!season) {
+      const seasonMeta = await metadata.season(show, seasonNumber)
+      if (!seasonMeta) {
+        throw new IngestException(`No results found for ${show.title} Season ${seasonNumber}`)
+      }
+
+      stale = true
+      season = await tv.related('seasons').create({
+        number: seasonMeta.number,
+        trakt: seasonMeta.ids.trakt,
+        tvdb: seasonMeta.ids.tvdb,
+        tmdb: seasonMeta.ids.tmdb,
+      })
+      await season.save()
+    }
+
+    // episode checks, files of a range like S01E01-E02 link to every episode in it
+    const episodes: Episode[] = []
+    for (let number = firstEpisode; number <= (lastEpisode ?? firstEpisode); number++) {
+      let episode = await season.related('episodes').query().where('number', '=', number).first()
+      if (episode) {
+        logger.info(
+          `TV ${tv.title} Season ${season.number} Episode ${episode.number} already exists`
+        )
+      }
+      if (!episode) {
+        const episodeMeta = await metadata.episode(show, season.number, number)
+        if (!episodeMeta) {
+          throw new IngestException(
+            `No results found for ${show.title} Season ${season.number} Episode ${number}`
+          )
+        }
+
+        stale = true
+        episode = await season.related('episodes').create({
+          number: episodeMeta.number,
+          season: episodeMeta.season,
+          imdb: episodeMeta.ids.imdb,
+          tmdb: episodeMeta.ids.tmdb,
+          tvdb: episodeMeta.ids.tvdb,
+          trakt: episodeMeta.ids.trakt,
+          title: episodeMeta.title ?? `Episode ${episodeMeta.number}`,
+        })
+        await episode.save()
+      }
+      episodes.push(episode)
+    }
+
+    // New seasons and episodes get their TMDB details with the next metadata sync
+    if (stale) await tv.merge({ metadataSyncedAt: null }).save()
+    return { tv, season, episodes }
+  }
+
+  /**
+   * Run the callback while holding a Redis lock, waiting for the current holder
+   * to finish. The lock expires in case the process dies while holding it.
+   */
+  private async withLock<T>(key: string, callback: () => Promise<T>): Promise<T> {
+    const token = cuid()
+    const deadline = Date.now() + this.LOCK_WAIT * 1000
+    while (!(await redis.set(key, token, 'EX', this.LOCK_TTL, 'NX'))) {
+      if (Date.now() > deadline) throw new Error(`Timed out waiting for the lock ${key}`)
+      await sleep(this.LOCK_RETRY_DELAY)
+    }
+
+    try {
+      return await callback()
+    } finally {
+      // An expired lock may have been taken by another process already
+      await redis.eval(RELEASE_LOCK_SCRIPT, 1, key, token)
+    }
+  }
+
+  private async handleTrack(message: MediaMessage): Promise<IngestResult> {
+    const { media, link } = message
+    const tags = await readAudioTags(
+      (offset, length) => this.tgService.readRange(media.fileId, offset, length),
+      media.fileSize!
+    )
+    // Telegram keeps the title and performer of audio uploads, used when tags are missing
+    const audio = media.type === 'audio' ? media : null
+    const title =
+      tags.title ?? audio?.title ?? media.fileName?.replace(/\.[^.]+$/, '') ?? 'Unknown Track'
+    const artistName = tags.artist ?? audio?.performer ?? 'Unknown Artist'
+
+    const artist = await Artist.firstOrCreate({ name: artistName })
+    let album: Album | null = null
+    if (tags.album) {
+      const albumArtist = tags.albumArtist
+        ? await Artist.firstOrCreate({ name: tags.albumArtist })
+        : artist
+      album = await Album.firstOrCreate(
+        { artistId: albumArtist.id, title: tags.album },
+        { year: tags.year }
+      )
+    }
+
+    const attributes = {
+      artistId: artist.id,
+      albumId: album?.id ?? null,
+      title,
+      number: tags.track,
+      disc: tags.disc,
+      duration: audio?.duration || tags.duration,
+      cover: tags.cover,
+      metadata: this.fileMetadata(message),
+      tgMetadata: this.tgMetadata(message),
+    }
+    const match = {
+      title: `${artist.name} - ${title}`,
+      year: album?.year ?? tags.year,
+      season: null,
+      episode: null,
+      lastEpisode: null,
+      url: this.webUrl('/'),
+    }
+
+    const existing = await Track.query()
+      .whereJsonSuperset('tg_metadata', { chatId: message.chat.id, messageId: message.id })
+      .first()
+    if (existing) {
+      await existing.merge(attributes).save()
+      return this.result('skipped', `Track ${match.title} file ${link} already exists`, match)
+    }
+
+    await Track.create(attributes)
+    const albumTitle = album ? ` on ${album.title}` : ''
+    return this.result('imported', `Track ${match.title}${albumTitle} added`, match)
+  }
+
+  /**
+   * Drop the files, tracks and subtitles of deleted messages. Their movies,
+   * episodes and albums stay in the library, so the titles can be uploaded again.
+   */
+  async removeMessages(chatId: number, messageIds: number[]) {
+    let removed = 0
+
+    // Split files play up to the first missing part, they are removed with their first part
+    const split = await MediaFile.query().where((query) => {
+      for (const messageId of messageIds) {
+        query.orWhereJsonSuperset('parts', [{ chatId, messageId }])
+      }
+    })
+    for (const file of split) {
+      const { tgMetadata } = file
+      if (tgMetadata.chatId === chatId && messageIds.includes(tgMetadata.messageId)) continue
+      file.parts = file.parts!.filter(
+        (part) => part.chatId !== chatId || !messageIds.includes(part.messageId)
+      )
+      await this.stitchParts(file)
+      await file.save()
+      logger.info(`Removed a part of file ${file.tgMetadata.fileLink}, the message was deleted`)
+    }
+
+    for (const model of [MediaFile, Track, Subtitle]) {
+      const rows = await model.query().where((query) => {
+        for (const messageId of messageIds) {
+          query.orWhereJsonSuperset('tg_metadata', { chatId, messageId })
+        }
+      })
+      for (const row of rows) {
+        await row.delete()
+        logger.info(`Removed file ${row.tgMetadata.fileLink}, the message was deleted`)
+      }
+      removed += rows.length
+    }
+    return removed
+  }
+
+  /**
+   * The caption a message was ingested with. Undefined when the message is not
+   * in the library, null for files ingested before captions were kept.
+   */
+  async ingestedCaption(chatId: number, messageId: number): Promise<string | null | undefined> {
+    for (const model of [MediaFile, Track, Subtitle]) {
+      const row = await model
+        .query()
+        .whereJsonSuperset('tg_metadata', { chatId, messageId })
+        .first()
+      if (row) return row.tgMetadata.caption ?? null
+    }
+
+    const split = await MediaFile.query()
+      .whereJsonSuperset('parts', [{ chatId, messageId }])
+      .first()
+    const part = split?.parts?.find(
+      (item) => item.chatId === chatId && item.messageId === messageId
+    )
+    return part ? (part.caption ?? null) : undefined
+  }
+
+  /**
+   * Every message is stored as one file. Files ingested before message ids were
+   * kept are found by their link.
+   */
+  private findMessageFile({ chat, id, link }: MediaMessage) {
+    return MediaFile.query()
+      .whereJsonSuperset('tg_metadata', { chatId: chat.id, messageId: id })
+      .orWhereJsonSuperset('tg_metadata', { fileLink: link })
+      .first()
+  }
+
+  private async linkedEpisodeIds(file: MediaFile) {
+    const episodes = await file.related('episodes').query()
+    return episodes.map((episode) => episode.id).sort()
+  }
+
+  private result(
+    status: IngestResult['status'],
+    message: string,
+    match: Omit<IngestResult, 'status' | 'message'>
+  ): IngestResult {
+    logger.info(message)
+    return { status, message, ...match }
+  }
+
+  private webUrl(path: string) {
+    return new URL(path, env.get('FRONTEND_URL')).toString()
+  }
+
+  private releaseYear(date: string | undefined) {
+    return date ? Number(date.slice(0, 4)) || null : null
+  }
+
+  private async mediaFileAttributes(
+    message: MediaMessage,
+    existing: MediaFile | null,
+    channel: IngestChannel | null,
+    caption: StructuredCaption | null
+  ): Promise<MediaFileAttributes> {
+    const fingerprint = await this.fingerprintFile(message, existing)
+    const probe = await this.probeFile(message, existing)
+    // Audio tracks without a language are taken to be in the language of the caption or channel
+    const language = caption?.language ?? channel?.language
+    if (language && probe.audioTracks) {
+      probe.audioTracks = probe.audioTracks.map((track) => ({
+        ...track,
+        language: track.language ?? language,
+      }))
+    }
+
+    // Quality tags of the caption win over the ones in the file name
+    const quality = parseReleaseQuality(message.media.fileName ?? '')
+    if (caption?.quality) {
+      const tagged = parseReleaseQuality(caption.quality)
+      quality.resolution = tagged.resolution ?? quality.resolution
+      quality.codec = tagged.codec ?? quality.codec
+      quality.source = tagged.source ?? quality.source
+      quality.edition = tagged.edition ?? quality.edition
+    }
+    if (caption?.edition) quality.edition = caption.edition
+
+    return {
+      ...quality,
+      metadata: { ...this.fileMetadata(message), ...probe },
+      tgMetadata: this.tgMetadata(message),
+      fingerprint: fingerprint.hash,
+      fingerprintSamples: fingerprint.samples,
+      duplicateOfId: null,
+      partGroup: null,
+      parts: null,
+    }
+  }
+
+  private splitFileAttributes(file: MediaFile, message: MediaMessage): MediaFileAttributes {
+    const { resolution, codec, source, edition, metadata, tgMetadata } = file
+    const { fingerprint, fingerprintSamples, duplicateOfId, partGroup, parts } = file
+    return {
+      resolution,
+      codec,
+      source,
+      edition,
+      metadata,
+      tgMetadata: { ...tgMetadata, caption: message.text },
+      fingerprint,
+      fingerprintSamples,
+      duplicateOfId,
+      partGroup,
+      parts,
+    }
+  }
+
+  /**
+   * The part number and group of a split upload, from a `.001` suffix of the
+   * file name or a part named by the caption
+   */
+  private filePart({ media }: MediaMessage, caption: StructuredCaption | null) {
+    return parseFilePart(media.fileName ?? '', caption?.part?.number)
+  }
+
+  private findPartFile({ chat }: MediaMessage, group: string) {
+    return MediaFile.query()
+      .where('partGroup', group)
+      .whereJsonSuperset('tg_metadata', { chatId: chat.id })
+      .preload('movie')
+      .preload('episodes', (query) => query.preload('seasonInfo', (q) => q.preload('tvShow')))
+      .first()
+  }
+
+  /**
+   * Remember a later part that arrived before the first one
+   */
+  private async waitForFirstPart({ chat, id, link }: MediaMessage, group: string) {
+    const key = this.waitingPartsKey(chat.id, group)
+    await redis.sadd(key, JSON.stringify({ messageId: id, messageLink: link }))
+    await redis.expire(key, this.WAITING_PARTS_TTL)
+  }
+
+  /**
+   * Queue the parts that waited for the first part of a split upload
+   */
+  private async queueWaitingParts({ chat }: MediaMessage, group: string) {
+    const key = this.waitingPartsKey(chat.id, group)
+    const waiting = await redis.smembers(key)
+    if (!waiting.length) return
+    await redis.del(key)
+
+    const queue = await app.container.make('ingest:queue')
+    for (const raw of waiting) {
+      const { messageId, messageLink } = JSON.parse(raw)
+      await queue.enqueue({ id: cuid(), chatId: chat.id, messageId, messageLink, attempts: 0 })
+    }
+    logger.info(`Queued ${waiting.length} waiting parts of ${group}`)
+  }
+
+  private waitingPartsKey(chatId: number, group: string) {
+    return `ingest:parts:${chatId}:${group}`
+  }
+
+  /**
+   * Add an upload to the file of a split upload. The size, probe and
+   * fingerprint are taken from the stitched file.
+   */
+  private async handlePart(
+    file: MediaFile,
+    number: number,
+    message: MediaMessage
+  ): Promise<IngestResult> {
+    const { chat, id, link } = message
+    const { name, match } = this.describeTarget(file)
+    const parts = file.parts ?? []
+    if (parts.some((part) => part.chatId === chat.id && part.messageId === id)) {
+      return this.result('skipped', `Part ${number} of ${name} already exists`, match)
+    }
+
+    file.parts = [
+      ...parts.filter((part) => part.number !== number),
+      this.filePartMetadata(message, number),
+    ].sort((a, b) => a.number - b.number)
+    await this.stitchParts(file)
+    await file.save()
+    return this.result('imported', `Part ${number} ${link} added to ${name}`, match)
+  }
+
+  private async stitchParts(file: MediaFile) {
+    const sources = file.sources
+    const size = sources.reduce((total, source) => total + source.size, 0)
+    const read = (offset: number, length: number) =>
+      this.tgService.readSources(sources, offset, length)
+
+    let probe: Partial<MediaProbe> = {}
+    try {
+      probe = (await probeMedia(read, size)) ?? {}
+    } catch (error) {
+      logger.warn(`Failed to probe ${file.partGroup}: ${error.message}`)
+    }
+    const fingerprint = await fingerprintFile(read, size)
+
+    // Split archives like `.mkv.001` are uploaded without a video mime type
+    const mimeType =
+      probe.container && file.metadata.mimeType === 'application/octet-stream'
+        ? CONTAINER_MIME_TYPES[probe.container]
+        : file.metadata.mimeType
+    file.merge({
+      metadata: { ...file.metadata, ...probe, size, mimeType },
+      fingerprint: fingerprint.hash,
+      fingerprintSamples: fingerprint.samples,
+    })
+  }
+
+  private filePartMetadata(message: MediaMessage, number: number): MediaFilePart {
+    return {
+      ...this.tgMetadata(message),
+      number,
+      size: message.media.fileSize!,
+      filename: message.media.fileName ?? '',
+    }
+  }
+
+  private async fingerprintFile(
+    { media }: MediaMessage,
+    existing: MediaFile | null
+  ): Promise<Fingerprint> {
+    if (existing?.fingerprint && existing.metadata.size === media.fileSize) {
+      return { hash: existing.fingerprint, samples: existing.fingerprintSamples ?? [] }
+    }
+    return fingerprintFile(
+      (offset, length) => this.tgService.readRange(media.fileId, offset, length),
+      media.fileSize!
+    )
+  }
+
+  /**
+   * Another file with the same fingerprint, or else the one sharing the most
+   * sampled chunks if it shares at least half of them
+   */
+  private async findDuplicate(
+    { fingerprint, fingerprintSamples }: MediaFileAttributes,
+    existing: MediaFile | null
+  ) {
+    if (!fingerprint || !fingerprintSamples?.length) return null
+    const candidates = await MediaFile.query()
+      .if(existing, (query) => query.whereNot('id', existing!.id))
+      .where((query) => {
+        query
+          .where('fingerprint', fingerprint)
+          .orWhereRaw('fingerprint_samples \\?| ?::text[]', [fingerprintSamples])
+      })
+      .preload('movie')
+      .preload('episodes', (query) => query.preload('seasonInfo', (q) => q.preload('tvShow')))
+
+    const exact = candidates.find((file) => file.fingerprint === fingerprint)
+    if (exact) return exact
+
+    const shared = (file: MediaFile) =>
+      sharedSamples(file.fingerprintSamples ?? [], fingerprintSamples)
+    return (
+      candidates
+        .filter((file) => shared(file) * 2 >= fingerprintSamples.length)
+        .sort((a, b) => shared(b) - shared(a))[0] ?? null
+    )
+  }
+
+  private duplicateResult({ link }: MediaMessage, duplicate: MediaFile): IngestResult {
+    const { name, match } = this.describeTarget(duplicate)
+    return this.result('skipped', `File ${link} is a copy of ${name}`, match)
+  }
+
+  /**
+   * The movie or episodes a file with preloaded relations belongs to
+   */
+  private describeTarget(file: MediaFile) {
+    const link = file.tgMetadata.fileLink
+    if (file.movie) {
+      return {
+        name: `Movie ${file.movie.title} file ${link}`,
+        match: {
+          title: file.movie.title,
+          year: file.movie.year,
+          season: null,
+          episode: null,
+          lastEpisode: null,
+          url: this.webUrl(`/movies/${file.movie.id}`),
+        },
+      }
+    }
+
+    const episodes = [...file.episodes].sort((a, b) => a.number - b.number)
+    const tv = episodes[0]?.seasonInfo?.tvShow
+    return {
+      name: episodes.length
+        ? `TV ${tv?.title} Season ${episodes[0].season} ${this.describeEpisodes(episodes)} file ${link}`
+        : `file ${link}`,
+      match: {
+        title: tv?.title ?? file.metadata.filename,
+        year: tv?.year ?? null,
+        season: episodes[0]?.season ?? null,
+        episode: episodes[0]?.number ?? null,
+        lastEpisode: episodes.length > 1 ? episodes.at(-1)!.number : null,
+        url: this.webUrl('/'),
+      },
+    }
+  }
+
+  /**
+   * Read the streams and chapters from the container headers. A caption edit
+   * keeps the file, so an earlier probe of the same file is reused.
+   */
+  private async probeFile(
+    { media }: MediaMessage,
+    existing: MediaFile | null
+  ): Promise<Partial<MediaProbe>> {
+    if (existing?.metadata.container && existing.metadata.size === media.fileSize) {
+      const { mimeType, size, filename, ...probe } = existing.metadata
+      return probe
+    }
+
+    try {
+      const probe = await probeMedia(
+        (offset, length) => this.tgService.readRange(media.fileId, offset, length),
+        media.fileSize!
+      )
+      return probe ?? {}
+    } catch (error) {
+      logger.warn(`Failed to probe ${media.fileName}: ${error.message}`)
+      return {}
+    }
+  }
+
+  private fileMetadata({ media }: MediaMessage): MediaMetadata {
+    return { size: media.fileSize!, mimeType: media.mimeType, filename: media.fileName! }
+  }
+
+  private tgMetadata({ media, link, chat, id, text }: MediaMessage): TGMetadata {
+    return { fileId: media.fileId, fileLink: link, chatId: chat.id, messageId: id, caption: text }
+  }
+
+  private describeEpisodes(episodes: Episode[]) {
+    const first = episodes[0].number
+    const last = episodes.at(-1)!.number
+    return first === last ? `Episode ${first}` : `Episodes ${first}-${last}`
+  }
+
+  private describeFile(file: MediaFile) {
+    return (
+      [file.resolution, file.source, file.codec, file.edition].filter(Boolean).join(' ') ||
+      'unknown quality'
+    )
+  }
+}
@@ -0,0 +1,138 @@
+import type { HttpContext } from '@adonisjs/core/http'
+import app from '@adonisjs/core/services/app'
+import crypto from 'node:crypto'
+import { Readable } from 'node:stream'
+
+import type { ByteRange, StreamableFile } from '#types/stream'
+import { parseRange } from '#utils/range'
+
+/**
+ * Serves file records over HTTP with the range semantics of RFC 7233: single,
+ * suffix and multiple ranges, `If-Range` and `HEAD` requests. Players seek
+ * with ranges and download managers fetch several at once.
+ */
+export class MediaStreamService {
+  /**
+   * Requests asking for more ranges get the whole file, many tiny ranges cost
+   * a Telegram download each
+   */
+  private readonly MAX_RANGES = 16
+
+  async serve({ request, response }: HttpContext, file: StreamableFile) {
+    const { size, mimeType } = file
+    const etag = `"${file.tag}"`
+
+    response.header('Accept-Ranges', 'bytes')
+    response.header('ETag', etag)
+    response.header('Access-Control-Allow-Origin', '*')
+    response.header('Access-Control-Allow-Methods', 'GET, HEAD, OPTIONS')
+    response.header('Access-Control-Allow-Headers', 'Range, If-Range, If-None-Match, Content-Type')
+    response.header('Access-Control-Expose-Headers', 'Content-Range, Content-Length, ETag')
+
+    if (this.matchesNoneOf(request.header('if-none-match'), etag)) {
+      return response.status(304)
+    }
+
+    const head = request.method() === 'HEAD'
+    const ranges = this.requestedRanges(
+      request.header('range'),
+      request.header('if-range'),
+      etag,
+      size
+    )
+
+    if (ranges?.length === 0) {
+      return response
+        .status(416)
+        .header('Content-Range', `bytes */${size}`)
+        .json({ message: 'Range not satisfiable' })
+    }
+
+    if (!ranges) {
+      response.status(200)
+      response.header('Content-Length', size.toString())
+      response.header('Content-Type', mimeType)
+      if (head || !size) return
+      return response.stream(await this.read(file, { start: 0, end: size - 1 }))
+    }
+
+    response.status(206)
+    if (ranges.length === 1) {
+      const [range] = ranges
+      response.header('Content-Range', `bytes ${range.start}-${range.end}/${size}`)
+      response.header('Content-Length', (range.end - range.start + 1).toString())
+      response.header('Content-Type', mimeType)
+      if (head) return
+      return response.stream(await this.read(file, range))
+    }
+
+    const boundary = crypto.randomBytes(16).toString('hex')
+    const parts = ranges.map((range) => ({
+      range,
+      header: Buffer.from(
+        `--${boundary}\r\nContent-Type: ${mimeType}\r\n` +
+          `Content-Range: bytes ${range.start}-${range.end}/${size}\r\n\r\n`
+      ),
+    }))
+    const closing = Buffer.from(`--${boundary}--\r\n`)
+    const length = parts.reduce(
+      (total, { range, header }) => total + header.length + range.end - range.start + 1 + 2,
+      closing.length
+    )
+
+    response.header('Content-Type', `multipart/byteranges; boundary=${boundary}`)
+    response.header('Content-Length', length.toString())
+    if (head) return
+
+    const self = this
+    return response.stream(
+      Readable.from(
+        (async function* () {
+          for (const { range, header } of parts) {
+            yield header
+            yield* await self.read(file, range)
+            yield Buffer.from('\r\n')
+          }
+          yield closing
+        })()
+      )
+    )
+  }
+
+  /**
+   * The ranges to send, null for the whole file. A range request whose
+   * `If-Range` does not match the current ETag gets the whole file, the copy
+   * the client has is outdated. Dates are not tracked, so they never match.
+   */
+  private requestedRanges(
+    header: string | undefined,
+    ifRange: string | undefined,
+    etag: string,
+    size: number
+  ): ByteRange[] | null {
+    if (!header) return null
+    if (ifRange && ifRange.trim() !== etag) return null
+
+    const ranges = parseRange(header, size)
+    if (ranges && ranges.length > this.MAX_RANGES) return null
+    return ranges
+  }
+
+  /**
+   * `If-None-Match` uses the weak comparison, `W/` prefixes are ignored
+   */
+  private matchesNoneOf(header: string | undefined, etag: string) {
+    if (!header) return false
+    if (header.trim() === '*') return true
+    return header
+      .split(',')
+      .map((tag) => tag.trim().replace(/^W\//, ''))
+      .includes(etag)
+  }
+
+  private async read(file: StreamableFile, range: ByteRange) {
+    // Split uploads are streamed as one file
+    const tgService = await app.container.make('tg')
+    return tgService.streamSources(file.sources, range.start, range.end - range.start + 1)
+  }
+}
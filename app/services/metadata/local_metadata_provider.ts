@@ -0,0 +1,132 @@
+import logger from '@adonisjs/core/services/logger'
+import { readFile } from 'node:fs/promises'
+
+import type {
+  EpisodeMetadata,
+  MetadataIds,
+  MetadataProvider,
+  MovieMetadata,
+  SeasonListing,
+  SeasonMetadata,
+  ShowMetadata,
+} from '#types/metadata'
+
+type LocalIds = Partial<MetadataIds>
+
+type LocalCatalog = {
+  movies?: (Omit<MovieMetadata, 'ids' | 'poster'> & { ids: LocalIds; poster?: string })[]
+  shows?: (Omit<ShowMetadata, 'ids'> & {
+    ids: LocalIds
+    seasons?: {
+      number: number
+      ids?: LocalIds
+      episodes?: { number: number; title?: string; ids?: LocalIds }[]
+    }[]
+  })[]
+}
+
+/**
+ * Reads metadata from a JSON catalog on disk, so development and tests do not
+ * need the Trakt or TMDB APIs:
+ *
+ * ```json
+ * {
+ *   "movies": [{ "ids": { "imdb": "tt0133093", "tmdb": 603 }, "title": "The Matrix", "year": 1999 }],
+ *   "shows": [{
+ *     "ids": { "imdb": "tt0903747", "tmdb": 1396 }, "title": "Breaking Bad", "year": 2008,
+ *     "seasons": [{ "number": 1, "episodes": [{ "number": 1, "title": "Pilot" }] }]
+ *   }]
+ * }
+ * ```
+ *
+ * Titles are matched by any of their ids.
+ */
+export class LocalMetadataProvider implements MetadataProvider {
+  readonly name = 'local'
+
+  private catalog: Promise<LocalCatalog> | null = null
+
+  constructor(private path: string) {}
+
+  async movie(ids: MetadataIds): Promise<MovieMetadata | null> {
+    const { movies = [] } = await this.load()
+    const movie = movies.find((item) => this.matches(item.ids, ids))
+    if (!movie) return null
+    return {
+      ids: this.ids(movie.ids),
+      title: movie.title,
+      year: movie.year ?? null,
+      poster: movie.poster ?? null,
+    }
+  }
+
+  async show(ids: MetadataIds): Promise<ShowMetadata | null> {
+    const show = await this.findShow(ids)
+    if (!show) return null
+    return { ids: this.ids(show.ids), title: show.title, year: show.year ?? null }
+  }
+
+  async season(show: ShowMetadata, number: number): Promise<SeasonMetadata | null> {
+    const found = await this.findShow(show.ids)
+    const season = found?.seasons?.find((item) => item.number === number)
+    if (!season) return null
+    return { ids: this.ids(season.ids), number }
+  }
+
+  async episode(
+    show: ShowMetadata,
+    season: number,
+    number: number
+  ): Promise<EpisodeMetadata | null> {
+    const found = await this.findShow(show.ids)
+    const episode = found?.seasons
+      ?.find((item) => item.number === season)
+      ?.episodes?.find((item) => item.number === number)
+    if (!episode) return null
+    return { ids: this.ids(episode.ids), season, number, title: episode.title ?? null }
+  }
+
+  async seasons(show: ShowMetadata): Promise<SeasonListing[] | null> {
+    const found = await this.findShow(show.ids)
+    const seasons = found?.seasons
+    if (!seasons) return null
+    return seasons.map((season) => ({
+      number: season.number,
+      episodeCount: season.episodes?.length ?? 0,
+    }))
+  }
+
+  private async findShow(ids: MetadataIds) {
+    const { shows = [] } = await this.load()
+    return shows.find((item) => this.matches(item.ids, ids))
+  }
+
+  private matches(entry: LocalIds, ids: MetadataIds) {
+    return (Object.keys(ids) as (keyof MetadataIds)[]).some(
+      (key) => ids[key] !== null && entry[key] === ids[key]
+    )
+  }
+
+  /**
+   * The catalog is read once, a missing file is an empty catalog
+   */
+  private load() {
+    this.catalog ??= readFile(this.path, 'utf8')
+      .then((data) => JSON.parse(data) as LocalCatalog)
+      .catch((error) => {
+        logger.warn(`Failed to read metadata catalog ${this.path}: ${error.message}`)
+        return {}
+      })
+    return this.catalog
+  }
+
+  private ids(ids: LocalIds = {}): MetadataIds {
+    return {
+      slug: ids.slug ?? null,
+      imdb: ids.imdb ?? null,
+      tmdb: ids.tmdb ?? null,
+      tvdb: ids.tvdb ?? null,
+      trakt: ids.trakt ?? null,
+    }
+  }
+}
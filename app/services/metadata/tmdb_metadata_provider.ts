@@ -0,0 +1,115 @@
+import app from '@adonisjs/core/services/app'
+import type { FindResult } from 'tmdb-ts'
+
+import type {
+  EpisodeMetadata,
+  MetadataIds,
+  MetadataProvider,
+  MovieMetadata,
+  SeasonListing,
+  SeasonMetadata,
+  ShowMetadata,
+} from '#types/metadata'
+
+/**
+ * TMDB looks titles up by TMDB id, other ids are mapped through its find
+ * endpoint. It has no slugs or Trakt ids.
+ */
+export class TmdbMetadataProvider implements MetadataProvider {
+  readonly name = 'tmdb'
+
+  async movie(ids: MetadataIds): Promise<MovieMetadata | null> {
+    const id = ids.tmdb ?? (await this.find(ids, 'movie_results'))
+    if (!id) return null
+
+    const tmdb = await app.container.make('tmdb')
+    const movie = await tmdb.movies.details(id)
+    return {
+      ids: this.ids({ tmdb: movie.id, imdb: movie.imdb_id || null }),
+      title: movie.title,
+      year: this.year(movie.release_date),
+      poster: movie.poster_path || null,
+    }
+  }
+
+  async show(ids: MetadataIds): Promise<ShowMetadata | null> {
+    const id = ids.tmdb ?? (await this.find(ids, 'tv_results'))
+    if (!id) return null
+
+    const tmdb = await app.container.make('tmdb')
+    const [show, externalIds] = await Promise.all([
+      tmdb.tvShows.details(id),
+      tmdb.tvShows.externalIds(id),
+    ])
+    return {
+      ids: this.ids({
+        tmdb: show.id,
+        imdb: externalIds.imdb_id || null,
+        tvdb: externalIds.tvdb_id ?? null,
+      }),
+      title: show.name,
+      year: this.year(show.first_air_date),
+    }
+  }
+
+  async season(show: ShowMetadata, number: number): Promise<SeasonMetadata | null> {
+    if (!show.ids.tmdb) return null
+
+    const tmdb = await app.container.make('tmdb')
+    const season = await tmdb.tvShows.season(show.ids.tmdb, number)
+    return { ids: this.ids({ tmdb: season.id }), number: season.season_number }
+  }
+
+  async episode(
+    show: ShowMetadata,
+    season: number,
+    number: number
+  ): Promise<EpisodeMetadata | null> {
+    if (!show.ids.tmdb) return null
+
+    const tmdb = await app.container.make('tmdb')
+    const { episodes } = await tmdb.tvShows.season(show.ids.tmdb, season)
+    const episode = episodes.find((item) => item.episode_number === number)
+    if (!episode) return null
+    return {
+      ids: this.ids({ tmdb: episode.id }),
+      season: episode.season_number,
+      number: episode.episode_number,
+      title: episode.name || null,
+    }
+  }
+
+  async seasons(show: ShowMetadata): Promise<SeasonListing[] | null> {
+    if (!show.ids.tmdb) return null
+
+    const tmdb = await app.container.make('tmdb')
+    const { seasons } = await tmdb.tvShows.details(show.ids.tmdb)
+    return seasons.map((season) => ({
+      number: season.season_number,
+      episodeCount: season.episode_count,
+    }))
+  }
+
+  private async find(
+    ids: MetadataIds,
+    results: 'movie_results' | 'tv_results'
+  ): Promise<number | null> {
+    const tmdb = await app.container.make('tmdb')
+    let found: FindResult | null = null
+    if (ids.imdb) {
+      found = await tmdb.find.byExternalId(ids.imdb, { external_source: 'imdb_id' })
+    } else if (ids.tvdb && results === 'tv_results') {
+      found = await tmdb.find.byExternalId(String(ids.tvdb), { external_source: 'tvdb_id' })
+    }
+    return found?.[results][0]?.id ?? null
+  }
+
+  private ids(ids: Partial<MetadataIds>): MetadataIds {
+    return { slug: null, imdb: null, tmdb: null, tvdb: null, trakt: null, ...ids }
+  }
+
+  private year(date: string | undefined) {
+    const year = Number(date?.slice(0, 4))
+    return year || null
+  }
+}
@@ -0,0 +1,82 @@
+import app from '@adonisjs/core/services/app'
+
+import type {
+  EpisodeMetadata,
+  MetadataIds,
+  MetadataProvider,
+  MovieMetadata,
+  SeasonMetadata,
+  ShowMetadata,
+} from '#types/metadata'
+
+type TraktIds = Partial<MetadataIds>
+
+/**
+ * Trakt looks titles up by Trakt id, slug or IMDb id
+ */
+export class TraktMetadataProvider implements MetadataProvider {
+  readonly name = 'trakt'
+
+  async movie(ids: MetadataIds): Promise<MovieMetadata | null> {
+    const id = this.lookupId(ids)
+    if (!id) return null
+
+    const trakt = await app.container.make('trakt')
+    const movie = await trakt.movies.get(id)
+    if (!movie) return null
+    return { ids: this.ids(movie.ids), title: movie.title, year: movie.year ?? null, poster: null }
+  }
+
+  async show(ids: MetadataIds): Promise<ShowMetadata | null> {
+    const id = this.lookupId(ids)
+    if (!id) return null
+
+    const trakt = await app.container.make('trakt')
+    const show = await trakt.shows.get(id)
+    if (!show) return null
+    return { ids: this.ids(show.ids), title: show.title, year: show.year ?? null }
+  }
+
+  async season(show: ShowMetadata, number: number): Promise<SeasonMetadata | null> {
+    const id = this.lookupId(show.ids)
+    if (!id) return null
+
+    const trakt = await app.container.make('trakt')
+    const season = await trakt.shows.season(id, number)
+    if (!season) return null
+    return { ids: this.ids(season.ids), number: season.number }
+  }
+
+  async episode(
+    show: ShowMetadata,
+    season: number,
+    number: number
+  ): Promise<EpisodeMetadata | null> {
+    const id = this.lookupId(show.ids)
+    if (!id) return null
+
+    const trakt = await app.container.make('trakt')
+    const episode = await trakt.shows.episode(id, season, number)
+    if (!episode) return null
+    return {
+      ids: this.ids(episode.ids),
+      season: episode.season,
+      number: episode.number,
+      title: episode.title || null,
+    }
+  }
+
+  private lookupId(ids: MetadataIds) {
+    return ids.slug ?? (ids.trakt ? String(ids.trakt) : null) ?? ids.imdb
+  }
+
+  private ids(ids: TraktIds): MetadataIds {
+    return {
+      slug: ids.slug ?? null,
+      imdb: ids.imdb ?? null,
+      tmdb: ids.tmdb ?? null,
+      tvdb: ids.tvdb ?? null,
+      trakt: ids.trakt ?? null,
+    }
+  }
+}
@@ -0,0 +1,145 @@
+import string from '@adonisjs/core/helpers/string'
+import logger from '@adonisjs/core/services/logger'
+
+import type {
+  EpisodeMetadata,
+  MetadataIds,
+  MetadataProvider,
+  MovieMetadata,
+  SeasonMetadata,
+  ShowMetadata,
+} from '#types/metadata'
+
+type Metadata = { ids: MetadataIds }
+
+/**
+ * Looks titles up through the configured metadata providers in order of
+ * priority. A provider that fails or does not know the title is skipped, and
+ * the ids and fields missing from the first match are filled in by the next
+ * providers, so a title found by IMDb id on one site gets its ids on the others.
+ */
+export class MetadataService {
+  constructor(private providers: MetadataProvider[]) {}
+
+  async movie(lookup: Partial<MetadataIds>): Promise<MovieMetadata | null> {
+    const movie = await this.resolve((provider, ids) => provider.movie(ids), this.ids(lookup), [
+      'slug',
+      'imdb',
+      'tmdb',
+      'trakt',
+    ])
+    return movie && this.withSlug(movie, movie.title, movie.year)
+  }
+
+  async show(lookup: Partial<MetadataIds>): Promise<ShowMetadata | null> {
+    const show = await this.resolve((provider, ids) => provider.show(ids), this.ids(lookup), [
+      'slug',
+      'imdb',
+      'tmdb',
+      'tvdb',
+      'trakt',
+    ])
+    return show && this.withSlug(show, show.title, show.year)
+  }
+
+  async season(show: ShowMetadata, number: number): Promise<SeasonMetadata | null> {
+    return this.resolve((provider) => provider.season(show, number), this.ids({}), [
+      'tmdb',
+      'tvdb',
+      'trakt',
+    ])
+  }
+
+  async episode(
+    show: ShowMetadata,
+    season: number,
+    number: number
+  ): Promise<EpisodeMetadata | null> {
+    return this.resolve((provider) => provider.episode(show, season, number), this.ids({}), [
+      'imdb',
+      'tmdb',
+      'tvdb',
+      'trakt',
+    ])
+  }
+
+  /**
+   * Map an absolute episode number, as anime releases count episodes, to its
+   * season and episode. Specials in season 0 are not counted.
+   */
+  async absoluteEpisode(
+    show: ShowMetadata,
+    absolute: number
+  ): Promise<{ season: number; episode: number } | null> {
+    for (const provider of this.providers) {
+      if (!provider.seasons) continue
+      try {
+        const seasons = await provider.seasons(show)
+        if (!seasons?.length) continue
+
+        let episode = absolute
+        for (const season of [...seasons].sort((a, b) => a.number - b.number)) {
+          if (season.number === 0) continue
+          if (episode <= season.episodeCount) return { season: season.number, episode }
+          episode -= season.episodeCount
+        }
+      } catch (error) {
+        logger.warn(`Season lookup on ${provider.name} failed: ${error.message}`)
+      }
+    }
+    return null
+  }
+
+  /**
+   * Ask the providers in order until the match has all of the wanted ids and
+   * no empty fields. Later providers are looked up with the ids found so far.
+   */
+  private async resolve<T extends Metadata>(
+    lookup: (provider: MetadataProvider, ids: MetadataIds) => Promise<T | null>,
+    ids: MetadataIds,
+    wanted: (keyof MetadataIds)[]
+  ): Promise<T | null> {
+    let result: T | null = null
+    for (const provider of this.providers) {
+      try {
+        const found = await lookup(provider, result ? result.ids : ids)
+        if (found) result = result ? this.merge(result, found) : found
+      } catch (error) {
+        logger.warn(`Metadata lookup on ${provider.name} failed: ${error.message}`)
+      }
+      if (result && this.isComplete(result, wanted)) break
+    }
+    return result
+  }
+
+  private merge<T extends Metadata>(current: T, found: T): T {
+    const merged = { ...current, ids: { ...current.ids } }
+    for (const key of Object.keys(found) as (keyof T)[]) {
+      if (key !== 'ids' && merged[key] === null) merged[key] = found[key]
+    }
+    for (const key of Object.keys(found.ids) as (keyof MetadataIds)[]) {
+      merged.ids[key] ??= found.ids[key] as never
+    }
+    return merged
+  }
+
+  private isComplete(metadata: Metadata, wanted: (keyof MetadataIds)[]) {
+    return (
+      wanted.every((key) => metadata.ids[key] !== null) &&
+      Object.values(metadata).every((value) => value !== null)
+    )
+  }
+
+  /**
+   * Titles unknown to Trakt get a slug in the same `title-year` form
+   */
+  private withSlug<T extends Metadata>(metadata: T, title: string, year: number | null): T {
+    if (metadata.ids.slug) return metadata
+    const slug = string.slug(year ? `${title} ${year}` : title, { lower: true, strict: true })
+    return { ...metadata, ids: { ...metadata.ids, slug } }
+  }
+
+  private ids(ids: Partial<MetadataIds>): MetadataIds {
+    return { slug: null, imdb: null, tmdb: null, tvdb: null, trakt: null, ...ids }
+  }
+}
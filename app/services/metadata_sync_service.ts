@@ -0,0 +1,172 @@
+import app from '@adonisjs/core/services/app'
+import logger from '@adonisjs/core/services/logger'
+import redis from '@adonisjs/redis/services/main'
+import { DateTime } from 'luxon'
+import type { SeasonDetails, TvShowDetails } from 'tmdb-ts'
+
+import TV from '#models/tv'
+
+/**
+ * Copies TMDB details onto shows, seasons and episodes. Ingest only stores the
+ * Trakt ids, so new shows are picked up by the next run and everything else is
+ * refreshed once it gets stale. Only one process runs the refresh at a time.
+ */
+export class MetadataSyncService {
+  private readonly LOCK_KEY = 'metadata:sync:lock'
+  private readonly REFRESH_AFTER = { days: 7 }
+  private readonly BATCH_SIZE = 20
+  private readonly MAX_RETRY_DELAY = 24 // hours
+  private readonly INTERVAL = 15 * 60 // 15 minutes in seconds
+
+  private timer: NodeJS.Timeout | null = null
+  private stopped = true
+
+  start() {
+    this.stopped = false
+    this.timer = setTimeout(() => this.tick(), 0)
+  }
+
+  stop() {
+    this.stopped = true
+    if (this.timer) clearTimeout(this.timer)
+  }
+
+  /**
+   * Sync shows that were never synced or whose last sync is older than the
+   * refresh period, oldest first. Shows that failed wait out their backoff, so
+   * they cannot take up every batch.
+   */
+  async syncStale(limit = this.BATCH_SIZE) {
+    const now = DateTime.now()
+    const cutoff = now.minus(this.REFRESH_AFTER)
+    const tvs = await TV.query()
+      // Shows without a TMDB id have nothing to sync until they are rematched
+      .whereNotNull('tmdb')
+      .where((query) =>
+        query.whereNull('metadataSyncedAt').orWhere('metadataSyncedAt', '<', cutoff.toSQL())
+      )
+      .where((query) =>
+        query.whereNull('metadataSyncRetryAt').orWhere('metadataSyncRetryAt', '<=', now.toSQL())
+      )
+      .orderByRaw('metadata_synced_at ASC NULLS FIRST')
+      .limit(limit)
+
+    let synced = 0
+    for (const tv of tvs) {
+      try {
+        await this.syncTV(tv)
+        synced++
+      } catch (error) {
+        const retryAt = await this.backOff(tv)
+        logger.warn(
+          `Failed to sync metadata of TV ${tv.title}, retrying ${retryAt.toRelative()}: ${error.message}`
+        )
+      }
+    }
+    return synced
+  }
+
+  async syncTV(tv: TV) {
+    const tmdb = await app.container.make('tmdb')
+    // TMDB returns the adult flag, the typings do not have it
+    const details: TvShowDetails & { adult?: boolean } = await tmdb.tvShows.details(tv.tmdb)
+
+    tv.merge({
+      originalTitle: details.original_name || null,
+      overview: details.overview || null,
+      firstAirDate: this.date(details.first_air_date),
+      lastAirDate: this.date(details.last_air_date),
+      popularity: details.popularity ?? null,
+      voteAverage: details.vote_average ?? null,
+      voteCount: details.vote_count ?? null,
+      adult: details.adult ?? false,
+      genres: details.genres.map((genre) => genre.name),
+      poster: details.poster_path || null,
+      backdrop: details.backdrop_path || null,
+    })
+
+    const seasons = await tv.related('seasons').query().preload('episodes')
+    let failed = 0
+    for (const season of seasons) {
+      // A season TMDB does not know must not keep the rest of the show from syncing
+      let seasonDetails: SeasonDetails & { vote_average?: number }
+      try {
+        seasonDetails = await tmdb.tvShows.season(tv.tmdb, season.number)
+      } catch (error) {
+        failed++
+        logger.warn(
+          `Failed to sync metadata of ${tv.title} season ${season.number}: ${error.message}`
+        )
+        continue
+      }
+      await season
+        .merge({
+          title: seasonDetails.name || null,
+          overview: seasonDetails.overview || null,
+          airDate: this.date(seasonDetails.air_date),
+          voteAverage: seasonDetails.vote_average ?? null,
+          poster: seasonDetails.poster_path || null,
+        })
+        .save()
+
+      for (const episode of season.episodes) {
+        const episodeDetails = seasonDetails.episodes.find(
+          (item) => item.episode_number === episode.number
+        )
+        if (!episodeDetails) continue
+        await episode
+          .merge({
+            overview: episodeDetails.overview || null,
+            airDate: this.date(episodeDetails.air_date),
+            runtime: episodeDetails.runtime ?? null,
+            voteAverage: episodeDetails.vote_average ?? null,
+            voteCount: episodeDetails.vote_count ?? null,
+            thumbnail: episodeDetails.still_path || null,
+          })
+          .save()
+      }
+    }
+
+    tv.merge({
+      metadataSyncedAt: DateTime.now(),
+      metadataSyncFailures: 0,
+      metadataSyncRetryAt: null,
+    })
+    await tv.save()
+    const skipped = failed ? `, ${failed} failed` : ''
+    logger.info(`Synced metadata of TV ${tv.title} (${seasons.length} seasons${skipped})`)
+  }
+
+  /**
+   * Double the wait after every failure in a row, up to a day
+   */
+  private async backOff(tv: TV) {
+    const failures = tv.metadataSyncFailures + 1
+    const hours = Math.min(2 ** (failures - 1), this.MAX_RETRY_DELAY)
+    const retryAt = DateTime.now().plus({ hours })
+    await tv.merge({ metadataSyncFailures: failures, metadataSyncRetryAt: retryAt }).save()
+    return retryAt
+  }
+
+  private schedule() {
+    if (this.stopped) return
+    this.timer = setTimeout(() => this.tick(), this.INTERVAL * 1000)
+  }
+
+  private async tick() {
+    try {
+      // Every web process schedules the sync, the lock makes only one of them run it
+      const locked = await redis.set(this.LOCK_KEY, '1', 'EX', this.INTERVAL, 'NX')
+      if (locked) await this.syncStale()
+    } catch (error) {
+      logger.error(error, 'Metadata sync failed')
+    }
+    this.schedule()
+  }
+
+  private date(value: string | null | undefined) {
+    if (!value) return null
+    const date = DateTime.fromISO(value)
+    return date.isValid ? date : null
+  }
+}
@@ -1,20 +1,101 @@
 import { Dispatcher } from '@mtcute/dispatcher'
 import { TelegramClient } from '@mtcute/node'
 import crypto from 'node:crypto'
+import { Readable } from 'node:stream'
 
+import type { ChunkCacheService } from '#services/chunk_cache_service'
+import { ChunkDownloadService } from '#services/chunk_download_service'
+import { TGWorkerPoolService } from '#services/tg_worker_pool_service'
 import env from '#start/env'
+import type { FileSource } from '#types/tg'
+import { downloadRange } from '#utils/tg'
 
 export class TGService {
   tg: TelegramClient
   dp: Dispatcher
+  workers: TGWorkerPoolService
+  downloads: ChunkDownloadService
 
-  constructor() {
+  /**
+   * A separate `storage` session file lets standalone processes, like ace
+   * commands, log in next to the running server. Streams read through the
+   * chunk cache when there is one and are downloaded by the main bot and the
+   * worker bots.
+   */
+  constructor(
+    storage?: string,
+    options: { cache?: ChunkCacheService; workerTokens?: string[] } = {}
+  ) {
     this.tg = new TelegramClient({
       apiId: env.get('TG_API_ID'),
       apiHash: env.get('TG_API_HASH'),
+      storage,
       enableErrorReporting: true,
     })
     this.dp = Dispatcher.for(this.tg)
+    this.workers = new TGWorkerPoolService(this.tg, options.workerTokens)
+    this.downloads = new ChunkDownloadService(this.workers, options.cache)
+  }
+
+  /**
+   * Read a byte range of a file with the main bot
+   */
+  async readRange(fileId: string, offset: number, length: number) {
+    return downloadRange(this.tg, fileId, offset, length)
+  }
+
+  /**
+   * Read a byte range of stored uploads. Like streams, the read goes through
+   * the worker pool, which refreshes file references that expired.
+   */
+  async readSources(sources: FileSource[], offset: number, length: number) {
+    const data: Buffer[] = []
+    for await (const chunk of this.streamSources(sources, offset, length)) data.push(chunk)
+    return Buffer.concat(data)
+  }
+
+  /**
+   * Stream a byte range of a file split over several uploads, the uploads are
+   * downloaded one after the other
+   */
+  streamSources(sources: FileSource[], offset: number, length: number): Readable {
+    const ranges = this.sourceRanges(sources, offset, length)
+    if (ranges.length === 1) {
+      const [range] = ranges
+      return this.downloads.stream(range.source, range.offset, range.length)
+    }
+
+    const downloads = this.downloads
+    return Readable.from(
+      (async function* () {
+        for (const range of ranges) {
+          yield* downloads.stream(range.source, range.offset, range.length)
+        }
+      })(),
+      { objectMode: false, highWaterMark: downloads.CHUNK_SIZE }
+    )
+  }
+
+  /**
+   * Map a byte range of the stitched file onto the ranges of its uploads
+   */
+  private sourceRanges(sources: FileSource[], offset: number, length: number) {
+    const ranges: { source: FileSource; offset: number; length: number }[] = []
+    const end = offset + length
+    let sourceStart = 0
+    for (const source of sources) {
+      const sourceEnd = sourceStart + source.size
+      if (sourceEnd > offset && sourceStart < end) {
+        const start = Math.max(offset, sourceStart)
+        ranges.push({
+          source,
+          offset: start - sourceStart,
+          length: Math.min(end, sourceEnd) - start,
+        })
+      }
+      sourceStart = sourceEnd
+    }
+    return ranges
   }
 
   verifyTGAuth(authData: Record<string, any>) {
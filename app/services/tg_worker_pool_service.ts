@@ -0,0 +1,264 @@
+import logger from '@adonisjs/core/services/logger'
+import { TelegramClient, tl } from '@mtcute/node'
+
+import env from '#start/env'
+import type { WorkerStats } from '#types/stream'
+import type { FileSource } from '#types/tg'
+import { asMediaMessage, downloadRange } from '#utils/tg'
+
+type TGWorker = {
+  name: string
+  tg: TelegramClient
+  /**
+   * Extra workers log in with their own token, the main client is always ready
+   */
+  token: string | null
+  ready: boolean
+  /**
+   * Chunk requests in flight
+   */
+  active: number
+  /**
+   * Time in ms until which the worker is rate limited
+   */
+  cooldownUntil: number
+  chunks: number
+  floodWaits: number
+  /**
+   * File ids are bound to the bot that received them, so every worker looks
+   * up the message itself, by `chatId:messageId`. Null for messages the
+   * worker cannot see.
+   */
+  fileIds: Map<string, string | null>
+}
+
+/**
+ * Spreads chunk downloads over the main bot and the worker bots. Each chunk
+ * goes to the least busy worker that is not rate limited, a worker hitting a
+ * FLOOD_WAIT sits out its wait and the chunk moves on to the next one. Worker
+ * bots have to be members of the ingest channels to see their messages.
+ */
+export class TGWorkerPoolService {
+  private readonly FILE_ID_CACHE_SIZE = 10_000
+  private readonly MAX_COOLDOWN_WAIT = 30 // seconds a chunk waits when every worker is rate limited
+  private readonly MAX_RETRIES = 3 // attempts on top of one per worker
+
+  private readonly workers: TGWorker[]
+
+  constructor(main: TelegramClient, tokens: string[] = []) {
+    this.workers = [
+      this.worker('main', main, null),
+      ...tokens.map((token) => {
+        // Bot tokens start with the bot id, which names the session file
+        const botId = token.split(':')[0]
+        const tg = new TelegramClient({
+          apiId: env.get('TG_API_ID'),
+          apiHash: env.get('TG_API_HASH'),
+          storage: `client.worker-${botId}.session`,
+        })
+        return this.worker(`worker-${botId}`, tg, token)
+      }),
+    ]
+    this.workers[0].ready = true
+  }
+
+  /**
+   * Log in the worker bots, a worker that fails to log in is left out
+   */
+  async start() {
+    await Promise.all(
+      this.workers.map(async (worker) => {
+        if (!worker.token) return
+        try {
+          const self = await worker.tg.start({ botToken: worker.token })
+          worker.ready = true
+          logger.info(`Logged in Telegram worker ${worker.name} as '${self.displayName}'`)
+        } catch (error) {
+          logger.error(error, `Failed to log in Telegram worker ${worker.name}`)
+        }
+      })
+    )
+  }
+
+  async stop() {
+    for (const worker of this.workers) {
+      if (!worker.token) continue
+      await worker.tg.destroy()
+    }
+  }
+
+  /**
+   * Download a byte range of an upload with the least busy worker, moving on
+   * to the next worker when one is rate limited or cannot see the message
+   */
+  async downloadChunk(
+    source: FileSource,
+    offset: number,
+    limit: number,
+    signal?: AbortSignal
+  ): Promise<Uint8Array> {
+    // Workers that cannot see the message are skipped, rate limited ones are
+    // tried again once they cooled down
+    const skipped = new Set<TGWorker>()
+    let lastError: unknown = null
+
+    for (let attempt = 0; attempt < this.workers.length + this.MAX_RETRIES; attempt++) {
+      const worker = this.pick(skipped)
+      if (!worker) break
+      if (worker.cooldownUntil > Date.now()) {
+        const wait = worker.cooldownUntil - Date.now()
+        if (wait > this.MAX_COOLDOWN_WAIT * 1000) break
+        await sleep(wait, signal)
+        continue
+      }
+
+      worker.active++
+      try {
+        const chunk = await this.download(worker, source, offset, limit, signal)
+        worker.chunks++
+        return chunk
+      } catch (error) {
+        if (signal?.aborted) throw error
+        lastError = error
+        if (tl.RpcError.is(error, 'FLOOD_WAIT_%d')) {
+          worker.floodWaits++
+          this.cooldown(worker, error.seconds)
+          logger.warn(`Telegram worker ${worker.name} is rate limited for ${error.seconds}s`)
+          continue
+        }
+        if (!(error instanceof WorkerResolveError)) throw error
+        skipped.add(worker)
+        logger.debug(`Telegram worker ${worker.name} cannot download: ${error.message}`)
+      } finally {
+        worker.active--
+      }
+    }
+
+    throw lastError ?? new Error('No Telegram worker is available')
+  }
+
+  stats(): WorkerStats[] {
+    const now = Date.now()
+    return this.workers.map((worker) => ({
+      name: worker.name,
+      ready: worker.ready,
+      active: worker.active,
+      cooldownUntil:
+        worker.cooldownUntil > now ? new Date(worker.cooldownUntil).toISOString() : null,
+      chunks: worker.chunks,
+      floodWaits: worker.floodWaits,
+    }))
+  }
+
+  /**
+   * The least busy worker that is not rate limited. When all of them are, the
+   * one that cools down first.
+   */
+  private pick(skipped: Set<TGWorker>): TGWorker | null {
+    const candidates = this.workers.filter((worker) => worker.ready && !skipped.has(worker))
+    if (!candidates.length) return null
+
+    const now = Date.now()
+    const healthy = candidates.filter((worker) => worker.cooldownUntil <= now)
+    if (healthy.length) {
+      return healthy.reduce((best, worker) => (worker.active < best.active ? worker : best))
+    }
+    return candidates.reduce((best, worker) =>
+      worker.cooldownUntil < best.cooldownUntil ? worker : best
+    )
+  }
+
+  private async download(
+    worker: TGWorker,
+    source: FileSource,
+    offset: number,
+    limit: number,
+    signal?: AbortSignal
+  ) {
+    // mtcute sleeps through short FLOOD_WAITs, longer ones are left to the pool
+    const location = await this.resolve(worker, source)
+    try {
+      return await downloadRange(worker.tg, location, offset, limit, signal)
+    } catch (error) {
+      if (!tl.RpcError.is(error) || !error.text.startsWith('FILE_REFERENCE_')) throw error
+      // File references expire, the message has a fresh one
+      const refreshed = await this.resolve(worker, source, true)
+      return downloadRange(worker.tg, refreshed, offset, limit, signal)
+    }
+  }
+
+  /**
+   * The file id of an upload as the worker sees it. The main bot ingested the
+   * file, so its stored file id works until the file reference expires.
+   */
+  private async resolve(worker: TGWorker, source: FileSource, refresh = false) {
+    const key = `${source.chatId}:${source.messageId}`
+    if (!refresh) {
+      const known = worker.fileIds.has(key)
+        ? worker.fileIds.get(key)
+        : worker.token
+          ? undefined
+          : source.fileId
+      if (known === null) throw new WorkerResolveError(`message ${key} is not accessible`)
+      if (known) return known
+    }
+
+    const [message] = await worker.tg
+      .getMessages(source.chatId, source.messageId)
+      .catch((error) => {
+        if (tl.RpcError.is(error, 'FLOOD_WAIT_%d')) throw error
+        this.remember(worker, key, null)
+        throw new WorkerResolveError(`message ${key} is not accessible: ${error.message}`)
+      })
+    const fileId = asMediaMessage(message)?.media.fileId ?? null
+    this.remember(worker, key, fileId)
+    if (!fileId) throw new WorkerResolveError(`message ${key} has no file`)
+    return fileId
+  }
+
+  private remember(worker: TGWorker, key: string, fileId: string | null) {
+    worker.fileIds.delete(key)
+    worker.fileIds.set(key, fileId)
+    if (worker.fileIds.size > this.FILE_ID_CACHE_SIZE) {
+      const [oldest] = worker.fileIds.keys()
+      worker.fileIds.delete(oldest)
+    }
+  }
+
+  private cooldown(worker: TGWorker, seconds: number) {
+    worker.cooldownUntil = Math.max(worker.cooldownUntil, Date.now() + seconds * 1000)
+  }
+
+  private worker(name: string, tg: TelegramClient, token: string | null): TGWorker {
+    return {
+      name,
+      tg,
+      token,
+      ready: false,
+      active: 0,
+      cooldownUntil: 0,
+      chunks: 0,
+      floodWaits: 0,
+      fileIds: new Map(),
+    }
+  }
+}
+
+/**
+ * The worker cannot see the message of an upload, another one may
+ */
+class WorkerResolveError extends Error {}
+
+function sleep(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(resolve, ms)
+    signal?.addEventListener(
+      'abort',
+      () => {
+        clearTimeout(timer)
+        reject(signal.reason)
+      },
+      { once: true }
+    )
+  })
+}
@@ -0,0 +1,140 @@
+import logger from '@adonisjs/core/services/logger'
+import db from '@adonisjs/lucid/services/db'
+import type { QueryClientContract } from '@adonisjs/lucid/types/database'
+
+import Episode from '#models/episode'
+import Season from '#models/season'
+import TV from '#models/tv'
+
+export type RepairSummary = { tvs: number; seasons: number; episodes: number }
+
+/**
+ * Merges shows, seasons and episodes that concurrent ingests created more than
+ * once. The oldest row is kept, the seasons, episodes, files and subtitles of
+ * the others move over to it before they are deleted.
+ */
+export class TVRepairService {
+  /**
+   * A dry run merges everything and rolls the transaction back
+   */
+  async repair(dryRun = false): Promise<RepairSummary> {
+    const trx = await db.transaction()
+    try {
+      const summary = await this.merge(trx)
+      if (dryRun) await trx.rollback()
+      else await trx.commit()
+      return summary
+    } catch (error) {
+      await trx.rollback()
+      throw error
+    }
+  }
+
+  /**
+   * Merge everything with the given client, the caller owns the transaction
+   */
+  async merge(trx: QueryClientContract): Promise<RepairSummary> {
+    // Shows first, their seasons can only collide once they share a show
+    return {
+      tvs: await this.mergeTVs(trx),
+      seasons: await this.mergeSeasons(trx),
+      episodes: await this.mergeEpisodes(trx),
+    }
+  }
+
+  private async mergeTVs(trx: QueryClientContract) {
+    const groups = await trx
+      .from('tvs')
+      .whereNotNull('imdb')
+      .groupBy('imdb')
+      .havingRaw('count(*) > 1')
+      .select('imdb')
+
+    let merged = 0
+    for (const { imdb } of groups) {
+      const [keeper, ...duplicates] = await TV.query({ client: trx })
+        .where('imdb', imdb)
+        .orderBy('created_at')
+      for (const duplicate of duplicates) {
+        await Season.query({ client: trx }).where('tvId', duplicate.id).update({ tvId: keeper.id })
+        await duplicate.delete()
+        logger.info(`Merged TV ${duplicate.id} into ${keeper.id}`)
+        merged++
+      }
+      // New seasons may have come along, the next sync fetches their details
+      await keeper.merge({ metadataSyncedAt: null }).save()
+    }
+    return merged
+  }
+
+  private async mergeSeasons(trx: QueryClientContract) {
+    const groups = await trx
+      .from('seasons')
+      .groupBy('tv_id', 'number')
+      .havingRaw('count(*) > 1')
+      .select('tv_id', 'number')
+
+    let merged = 0
+    for (const group of groups) {
+      const [keeper, ...duplicates] = await Season.query({ client: trx })
+        .where('tvId', group.tv_id)
+        .where('number', group.number)
+        .orderBy('created_at')
+      for (const duplicate of duplicates) {
+        await Episode.query({ client: trx })
+          .where('seasonId', duplicate.id)
+          .update({ seasonId: keeper.id })
+        await duplicate.delete()
+        logger.info(`Merged season ${duplicate.id} into ${keeper.id}`)
+        merged++
+      }
+    }
+    return merged
+  }
+
+  private async mergeEpisodes(trx: QueryClientContract) {
+    const groups = await trx
+      .from('episodes')
+      .groupBy('season_id', 'number')
+      .havingRaw('count(*) > 1')
+      .select('season_id', 'number')
+
+    let merged = 0
+    for (const group of groups) {
+      const [keeper, ...duplicates] = await Episode.query({ client: trx })
+        .where('seasonId', group.season_id)
+        .where('number', group.number)
+        .orderBy('created_at')
+      for (const duplicate of duplicates) {
+        // Files linked to both episodes keep a single link
+        const linked = await trx
+          .from('episode_media_files')
+          .where('episode_id', keeper.id)
+          .select('media_file_id')
+        const links = await trx
+          .from('episode_media_files')
+          .where('episode_id', duplicate.id)
+          .whereNotIn(
+            'media_file_id',
+            linked.map((link) => link.media_file_id)
+          )
+          .select('media_file_id')
+        if (links.length) {
+          await trx
+            .table('episode_media_files')
+            .multiInsert(
+              links.map((link) => ({ episode_id: keeper.id, media_file_id: link.media_file_id }))
+            )
+        }
+        await trx
+          .from('subtitles')
+          .where('episode_id', duplicate.id)
+          .update({ episode_id: keeper.id })
+        await duplicate.delete()
+        logger.info(`Merged episode ${duplicate.id} into ${keeper.id}`)
+        merged++
+      }
+    }
+    return merged
+  }
+}
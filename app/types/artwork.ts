@@ -0,0 +1,45 @@
+export type ArtworkImage = {
+  url: string
+  /**
+   * ISO 639-1 code, null for artwork without text
+   */
+  language: string | null
+  likes: number
+  source: 'fanart' | 'tmdb'
+}
+
+export type Artwork = {
+  logos: ArtworkImage[]
+  backgrounds: ArtworkImage[]
+  banners: ArtworkImage[]
+  discs: ArtworkImage[]
+  posters: ArtworkImage[]
+}
+
+/**
+ * Image as returned by the fanart.tv API, `lang` is `00` or empty for artwork
+ * without text and `likes` is a numeric string
+ */
+export type FanartImage = {
+  id: string
+  url: string
+  lang?: string
+  likes?: string
+}
+
+export type FanartMovie = {
+  hdmovielogo?: FanartImage[]
+  movielogo?: FanartImage[]
+  moviebackground?: FanartImage[]
+  moviebanner?: FanartImage[]
+  moviedisc?: FanartImage[]
+  movieposter?: FanartImage[]
+}
+
+export type FanartShow = {
+  hdtvlogo?: FanartImage[]
+  clearlogo?: FanartImage[]
+  showbackground?: FanartImage[]
+  tvbanner?: FanartImage[]
+  tvposter?: FanartImage[]
+}
@@ -0,0 +1,56 @@
+export type MediaContainer = 'mp4' | 'matroska' | 'webm'
+
+export type HDRFormat = 'hdr10' | 'hlg' | 'dolby-vision'
+
+export type VideoStream = {
+  /**
+   * RFC 6381 codec string like `avc1.640028`, as passed to `canPlayType`
+   */
+  codec: string
+  profile: string | null
+  width: number | null
+  height: number | null
+  hdr: HDRFormat | null
+}
+
+export type AudioStream = {
+  codec: string
+  /**
+   * ISO 639-1 code, null when the track has no language
+   */
+  language: string | null
+  title: string | null
+  channels: number | null
+  default: boolean
+}
+
+export type SubtitleStream = {
+  codec: string
+  language: string | null
+  title: string | null
+  default: boolean
+  forced: boolean
+}
+
+export type Chapter = {
+  title: string | null
+  /**
+   * Start of the chapter in seconds
+   */
+  start: number
+}
+
+/**
+ * What the player needs to know about a video file before playing it
+ */
+export type MediaProbe = {
+  container: MediaContainer
+  /**
+   * Duration in seconds
+   */
+  duration: number | null
+  video: VideoStream | null
+  audioTracks: AudioStream[]
+  subtitleTracks: SubtitleStream[]
+  chapters: Chapter[]
+}
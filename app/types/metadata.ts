@@ -0,0 +1,76 @@
+export type MetadataSource = 'trakt' | 'tmdb' | 'local'
+
+/**
+ * Ids of a title on the sites it is known by, `slug` is the Trakt slug and
+ * doubles as the primary key of movies and shows
+ */
+export type MetadataIds = {
+  slug: string | null
+  imdb: string | null
+  tmdb: number | null
+  tvdb: number | null
+  trakt: number | null
+}
+
+export type MovieMetadata = {
+  ids: MetadataIds
+  title: string
+  year: number | null
+  poster: string | null
+}
+
+export type ShowMetadata = {
+  ids: MetadataIds
+  title: string
+  year: number | null
+}
+
+export type SeasonMetadata = {
+  ids: MetadataIds
+  number: number
+}
+
+export type EpisodeMetadata = {
+  ids: MetadataIds
+  season: number
+  number: number
+  title: string | null
+}
+
+/**
+ * A season of a show and how many episodes it has
+ */
+export type SeasonListing = {
+  number: number
+  episodeCount: number
+}
+
+/**
+ * A source of movie and show metadata. Lookups return null when the source
+ * does not know the title and throw when the source itself fails.
+ */
+export interface MetadataProvider {
+  readonly name: MetadataSource
+  movie(ids: MetadataIds): Promise<MovieMetadata | null>
+  show(ids: MetadataIds): Promise<ShowMetadata | null>
+  season(show: ShowMetadata, number: number): Promise<SeasonMetadata | null>
+  episode(show: ShowMetadata, season: number, number: number): Promise<EpisodeMetadata | null>
+  /**
+   * Every season of a show, used to map absolute episode numbers. Only
+   * providers that can list the seasons implement it.
+   */
+  seasons?(show: ShowMetadata): Promise<SeasonListing[] | null>
+}
+
+export type MetadataConfig = {
+  /**
+   * Providers asked for metadata, in order of priority
+   */
+  providers: MetadataSource[]
+  local: {
+    /**
+     * JSON catalog read by the local provider
+     */
+    path: string
+  }
+}
@@ -0,0 +1,26 @@
+/**
+ * Reads `length` bytes of a file starting at `offset`
+ */
+export type RangeReader = (offset: number, length: number) => Promise<Buffer>
+
+/**
+ * Location of an embedded picture inside an audio file, so it can be served
+ * with a ranged download instead of being stored
+ */
+export type CoverLocation = {
+  offset: number
+  length: number
+  mimeType: string
+}
+
+export type AudioTags = {
+  title: string | null
+  artist: string | null
+  albumArtist: string | null
+  album: string | null
+  year: number | null
+  track: number | null
+  disc: number | null
+  duration: number | null
+  cover: CoverLocation | null
+}
@@ -0,0 +1,78 @@
+import type { FileSource } from '#types/tg'
+
+/**
+ * Inclusive byte range of a file, like the ones of a `Range` header
+ */
+export type ByteRange = { start: number; end: number }
+
+/**
+ * What the stream service needs to serve a file record. The tag changes
+ * whenever the bytes of the file do, it is sent as the ETag.
+ */
+export type StreamableFile = {
+  tag: string
+  size: number
+  mimeType: string
+  sources: FileSource[]
+}
+
+/**
+ * Counters of the Telegram download engine since the process started
+ */
+export type DownloadStats = {
+  activeStreams: number
+  streams: number
+  bytes: number
+  chunks: number
+  failedChunks: number
+  /**
+   * Average time of a chunk request in milliseconds
+   */
+  averageChunkTime: number | null
+  /**
+   * Average time from opening a stream to its first bytes in milliseconds
+   */
+  averageFirstByteTime: number | null
+  /**
+   * Bytes per second of the finished streams
+   */
+  throughput: number | null
+  workers: WorkerStats[]
+  /**
+   * Chunks read from the cache or downloaded into it and the cache size in
+   * bytes, null when the cache is off
+   */
+  cache: { hits: number; misses: number; size: number; maxSize: number } | null
+}
+
+/**
+ * Load of a bot downloading chunks, the main bot or a worker
+ */
+export type WorkerStats = {
+  name: string
+  ready: boolean
+  active: number
+  /**
+   * Set while the worker waits out a FLOOD_WAIT
+   */
+  cooldownUntil: string | null
+  chunks: number
+  floodWaits: number
+}
+
+export type StreamConfig = {
+  cache: {
+    /**
+     * Directory of the cached chunks
+     */
+    path: string
+    /**
+     * Size cap of the cache in bytes, 0 disables it
+     */
+    maxSize: number
+  }
+  /**
+   * Tokens of extra bots that share the chunk downloads with the main bot
+   */
+  workerTokens: string[]
+}
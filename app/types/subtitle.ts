@@ -0,0 +1 @@
+export type SubtitleFormat = 'srt' | 'ass' | 'vtt'
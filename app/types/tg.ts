@@ -1,14 +1,145 @@
+import type { filters } from '@mtcute/dispatcher'
+import type { Audio, Document, Message, Video } from '@mtcute/node'
+
+import type { MediaProbe } from '#types/media'
+
 export type ParsedMovieText = { type: 'movie'; imdb: string }
-export type ParsedShowText = { type: 'show'; imdb: string; season: number; episode: number }
+/**
+ * `lastEpisode` is set for files holding a range of episodes, like `S01E01-E02`.
+ * `season` is null when the episodes are absolute numbers, as anime releases
+ * count them.
+ */
+export type ParsedShowText = {
+  type: 'show'
+  imdb: string
+  season: number | null
+  episode: number
+  lastEpisode?: number
+}
 export type ParsedMediaText = ParsedMovieText | ParsedShowText
 
+/**
+ * Part of a title split over several uploads, `total` is null when the caption
+ * does not say how many parts there are
+ */
+export type CaptionPart = { number: number; total: number | null }
+
+/**
+ * A validated `key: value` or JSON caption. The title is named by its IMDb or
+ * TMDB id, the other fields override what is read from the file name.
+ */
+export type StructuredCaption = {
+  type: ParsedMediaText['type'] | null
+  imdb: string | null
+  tmdb: number | null
+  season: number | null
+  episode: number | null
+  lastEpisode: number | null
+  edition: string | null
+  /**
+   * ISO 639-1 code of the subtitles or the audio tracks without a language
+   */
+  language: string | null
+  quality: string | null
+  part: CaptionPart | null
+}
+
+/**
+ * How uploads of a channel are matched. `caption` reads the IMDb id from the
+ * caption and falls back to the release name in the file name, `filename` only
+ * uses the file name.
+ */
+export type CaptionFormat = 'caption' | 'filename'
+
+export type ParsedMovieRelease = { type: 'movie'; title: string; year: number | null }
+export type ParsedShowRelease = {
+  type: 'show'
+  title: string
+  year: number | null
+  season: number | null
+  episode: number
+  lastEpisode?: number
+}
+export type ParsedReleaseName = ParsedMovieRelease | ParsedShowRelease
+
+export type ReleaseQuality = {
+  resolution: string | null
+  codec: string | null
+  source: string | null
+  edition: string | null
+}
+
+/**
+ * Video files also carry what probing found out about their streams
+ */
 export type MediaMetadata = {
   mimeType: string
   size: number
   filename: string
-}
+} & Partial<MediaProbe>
 
+/**
+ * Where an upload lives in Telegram. The caption is kept to tell caption edits
+ * from other edits, files ingested before it was kept have none.
+ */
 export type TGMetadata = {
   fileId: string
   fileLink: string
+  chatId: number
+  messageId: number
+  caption?: string
+}
+
+/**
+ * One upload of a file that was split over several messages
+ */
+export type MediaFilePart = TGMetadata & {
+  number: number
+  size: number
+  filename: string
+}
+
+/**
+ * A Telegram upload holding the bytes of a file, or some of them
+ */
+export type FileSource = Pick<TGMetadata, 'fileId' | 'chatId' | 'messageId'> & { size: number }
+
+/**
+ * A channel message carrying a document, video or audio upload
+ */
+export type MediaMessage = filters.Modify<Message, { media: Document | Video | Audio }>
+
+export type IngestJob = {
+  id: string
+  chatId: number
+  messageId: number
+  messageLink: string
+  attempts: number
+  /**
+   * Match picked from the bot reply, used instead of parsing the message
+   */
+  match?: ParsedMediaText
+}
+
+export type IngestResult = {
+  status: 'imported' | 'skipped'
+  message: string
+  title: string
+  year: number | null
+  season: number | null
+  episode: number | null
+  lastEpisode: number | null
+  url: string
+}
+
+export type RematchResult = {
+  link: string
+  status: IngestResult['status'] | 'failed'
+  message: string
+}
+
+export type MatchCandidate = {
+  tmdbId: number
+  title: string
+  year: number | null
 }
@@ -0,0 +1,451 @@
+import type { AudioTags, CoverLocation, RangeReader } from '#types/music'
+
+type TagField = 'title' | 'artist' | 'albumArtist' | 'album' | 'year' | 'track' | 'disc'
+
+type Atom = {
+  type: string
+  body: number
+  end: number
+}
+
+const BLOCK_SIZE = 64 * 1024
+const MAX_OGG_SCAN = 4 * 1024 * 1024 // comment packets sit right after the identification header
+
+const ID3_FRAMES: Record<string, TagField> = {
+  TIT2: 'title',
+  TT2: 'title',
+  TPE1: 'artist',
+  TP1: 'artist',
+  TPE2: 'albumArtist',
+  TP2: 'albumArtist',
+  TALB: 'album',
+  TAL: 'album',
+  TDRC: 'year',
+  TYER: 'year',
+  TYE: 'year',
+  TRCK: 'track',
+  TRK: 'track',
+  TPOS: 'disc',
+  TPA: 'disc',
+}
+
+const VORBIS_FIELDS: Record<string, TagField> = {
+  'TITLE': 'title',
+  'ARTIST': 'artist',
+  'ALBUMARTIST': 'albumArtist',
+  'ALBUM ARTIST': 'albumArtist',
+  'ALBUM': 'album',
+  'DATE': 'year',
+  'YEAR': 'year',
+  'TRACKNUMBER': 'track',
+  'DISCNUMBER': 'disc',
+}
+
+const MP4_FIELDS: Record<string, TagField> = {
+  '©nam': 'title',
+  '©ART': 'artist',
+  'aART': 'albumArtist',
+  '©alb': 'album',
+  '©day': 'year',
+}
+
+/**
+ * Caches the blocks read from a file, so the parsers can walk tag structures
+ * field by field without a download for each of them
+ */
+class BlockReader {
+  private blocks = new Map<number, Promise<Buffer>>()
+
+  constructor(
+    private read: RangeReader,
+    readonly size: number
+  ) {}
+
+  async bytes(offset: number, length: number) {
+    const end = Math.min(offset + length, this.size)
+    if (end <= offset) return Buffer.alloc(0)
+
+    const first = Math.floor(offset / BLOCK_SIZE)
+    const parts: Buffer[] = []
+    for (let index = first; index * BLOCK_SIZE < end; index++) {
+      parts.push(await this.block(index))
+    }
+    const start = offset - first * BLOCK_SIZE
+    return Buffer.concat(parts).subarray(start, start + end - offset)
+  }
+
+  private block(index: number) {
+    let block = this.blocks.get(index)
+    if (!block) {
+      const offset = index * BLOCK_SIZE
+      block = this.read(offset, Math.min(BLOCK_SIZE, this.size - offset))
+      this.blocks.set(index, block)
+    }
+    return block
+  }
+}
+
+/**
+ * Read the ID3 (MP3), Vorbis comment (FLAC, Ogg) or iTunes (MP4) tags of an
+ * audio file. Only the parts of the file holding the tags are downloaded,
+ * embedded pictures are located but not read.
+ */
+export async function readAudioTags(read: RangeReader, size: number): Promise<AudioTags> {
+  const tags: AudioTags = {
+    title: null,
+    artist: null,
+    albumArtist: null,
+    album: null,
+    year: null,
+    track: null,
+    disc: null,
+    duration: null,
+    cover: null,
+  }
+  const reader = new BlockReader(read, size)
+
+  try {
+    const head = await reader.bytes(0, 12)
+    const magic = head.toString('latin1', 0, 4)
+    if (magic.startsWith('ID3')) {
+      const end = await readID3v2(reader, tags)
+      // FLAC streams may come with an ID3v2 tag in front of them
+      const flac = await reader.bytes(end, 4)
+      if (flac.toString('latin1') === 'fLaC') await readFLAC(reader, end + 4, tags)
+      else await readID3v1(reader, tags)
+    } else if (magic === 'fLaC') {
+      await readFLAC(reader, 4, tags)
+    } else if (magic === 'OggS') {
+      await readOgg(reader, tags)
+    } else if (head.toString('latin1', 4, 8) === 'ftyp') {
+      await readMP4(reader, tags)
+    } else {
+      await readID3v1(reader, tags)
+    }
+  } catch (error) {
+    // Malformed tags run off the end of their buffers, keep what was read so far
+    if (!(error instanceof RangeError)) throw error
+  }
+
+  return tags
+}
+
+function setField(tags: AudioTags, field: TagField, raw: string) {
+  const value = raw.replace(/\0.*$/s, '').trim()
+  if (!value || tags[field] !== null) return
+
+  if (field === 'year') {
+    const year = /\d{4}/.exec(value)
+    tags.year = year ? Number(year[0]) : null
+  } else if (field === 'track' || field === 'disc') {
+    // Numbers come as "3" or "3/12"
+    tags[field] = Number.parseInt(value, 10) || null
+  } else {
+    tags[field] = value
+  }
+}
+
+function syncsafe(data: Buffer, offset: number) {
+  return (
+    (data[offset] << 21) | (data[offset + 1] << 14) | (data[offset + 2] << 7) | data[offset + 3]
+  )
+}
+
+function imageMimeType(type: string) {
+  const normalized = type.toLowerCase()
+  if (normalized === 'jpg' || normalized === 'image/jpg') return 'image/jpeg'
+  return normalized.includes('/') ? normalized : `image/${normalized}`
+}
+
+/**
+ * Returns the offset the audio data starts at
+ */
+async function readID3v2(reader: BlockReader, tags: AudioTags) {
+  const header = await reader.bytes(0, 10)
+  const version = header[3]
+  const flags = header[5]
+  const end = 10 + syncsafe(header, 6)
+
+  let offset = 10
+  if (flags & 0x40 && version > 2) {
+    const extended = await reader.bytes(offset, 4)
+    offset += version === 4 ? syncsafe(extended, 0) : extended.readUInt32BE(0) + 4
+  }
+
+  const idLength = version === 2 ? 3 : 4
+  const headerLength = version === 2 ? 6 : 10
+  while (offset + headerLength <= end) {
+    const frame = await reader.bytes(offset, headerLength)
+    const id = frame.toString('latin1', 0, idLength)
+    if (!/^[A-Z0-9]+$/.test(id)) break // padding
+
+    const frameSize =
+      version === 2
+        ? frame.readUIntBE(3, 3)
+        : version === 4
+          ? syncsafe(frame, 4)
+          : frame.readUInt32BE(4)
+    const body = offset + headerLength
+    offset = body + frameSize
+
+    const field = ID3_FRAMES[id]
+    if (field) {
+      setField(tags, field, decodeID3Text(await reader.bytes(body, frameSize)))
+    } else if (id === 'TLEN' || id === 'TLE') {
+      const length = Number.parseInt(decodeID3Text(await reader.bytes(body, frameSize)), 10)
+      if (length && tags.duration === null) tags.duration = Math.round(length / 1000)
+    } else if ((id === 'APIC' || id === 'PIC') && !tags.cover) {
+      tags.cover = await readID3Picture(reader, body, frameSize, version)
+    }
+  }
+
+  // The footer repeats the header
+  return end + (flags & 0x10 ? 10 : 0)
+}
+
+function decodeID3Text(body: Buffer) {
+  const data = body.subarray(1)
+  switch (body[0]) {
+    case 0:
+      return data.toString('latin1')
+    case 1:
+      // UTF-16 with a byte order mark
+      if (data[0] === 0xfe && data[1] === 0xff) return decodeUTF16BE(data.subarray(2))
+      return data.subarray(data[0] === 0xff ? 2 : 0).toString('utf16le')
+    case 2:
+      return decodeUTF16BE(data)
+    default:
+      return data.toString('utf8')
+  }
+}
+
+function decodeUTF16BE(data: Buffer) {
+  return Buffer.from(data.subarray(0, data.length - (data.length % 2)))
+    .swap16()
+    .toString('utf16le')
+}
+
+/**
+ * Skip a null terminated string, UTF-16 strings end with two null bytes
+ */
+function skipID3String(data: Buffer, start: number, encoding: number) {
+  if (encoding === 1 || encoding === 2) {
+    for (let i = start; i + 1 < data.length; i += 2) {
+      if (data[i] === 0 && data[i + 1] === 0) return i + 2
+    }
+    return -1
+  }
+  const end = data.indexOf(0, start)
+  return end < 0 ? -1 : end + 1
+}
+
+async function readID3Picture(
+  reader: BlockReader,
+  offset: number,
+  size: number,
+  version: number
+): Promise<CoverLocation | null> {
+  const head = await reader.bytes(offset, Math.min(size, 4096))
+  const encoding = head[0]
+
+  let mimeType: string
+  let position: number
+  if (version === 2) {
+    mimeType = imageMimeType(head.toString('latin1', 1, 4))
+    position = 4
+  } else {
+    const mimeEnd = head.indexOf(0, 1)
+    if (mimeEnd < 0) return null
+    mimeType = imageMimeType(head.toString('latin1', 1, mimeEnd))
+    position = mimeEnd + 1
+  }
+
+  // picture type, then the description
+  position = skipID3String(head, position + 1, encoding)
+  if (position < 0) return null
+  return { offset: offset + position, length: size - position, mimeType }
+}
+
+async function readID3v1(reader: BlockReader, tags: AudioTags) {
+  if (reader.size < 128) return
+  const tag = await reader.bytes(reader.size - 128, 128)
+  if (tag.toString('latin1', 0, 3) !== 'TAG') return
+
+  setField(tags, 'title', tag.toString('latin1', 3, 33))
+  setField(tags, 'artist', tag.toString('latin1', 33, 63))
+  setField(tags, 'album', tag.toString('latin1', 63, 93))
+  setField(tags, 'year', tag.toString('latin1', 93, 97))
+  // ID3v1.1 keeps the track number in the last byte of the comment
+  if (tag[125] === 0 && tag[126] !== 0) setField(tags, 'track', String(tag[126]))
+}
+
+async function readFLAC(reader: BlockReader, start: number, tags: AudioTags) {
+  let offset = start
+  let last = false
+  while (!last && offset + 4 <= reader.size) {
+    const header = await reader.bytes(offset, 4)
+    last = (header[0] & 0x80) !== 0
+    const type = header[0] & 0x7f
+    const length = header.readUIntBE(1, 3)
+    const body = offset + 4
+    offset = body + length
+
+    if (type === 0) {
+      // STREAMINFO: 20 bits sample rate and 36 bits total samples after the frame sizes
+      const info = await reader.bytes(body, 18)
+      const sampleRate = info.readUIntBE(10, 3) >> 4
+      const samples = (info[13] & 0x0f) * 2 ** 32 + info.readUInt32BE(14)
+      if (sampleRate && samples) tags.duration = Math.round(samples / sampleRate)
+    } else if (type === 4) {
+      readVorbisComment(await reader.bytes(body, length), tags)
+    } else if (type === 6 && !tags.cover) {
+      tags.cover = await readFLACPicture(reader, body, length)
+    }
+  }
+}
+
+async function readFLACPicture(
+  reader: BlockReader,
+  offset: number,
+  length: number
+): Promise<CoverLocation> {
+  const head = await reader.bytes(offset, Math.min(length, 4096))
+  const mimeLength = head.readUInt32BE(4)
+  const mimeType = imageMimeType(head.toString('latin1', 8, 8 + mimeLength))
+  let position = 8 + mimeLength
+  // description, then width, height, color depth and palette size
+  position += 4 + head.readUInt32BE(position) + 16
+  return { offset: offset + position + 4, length: head.readUInt32BE(position), mimeType }
+}
+
+function readVorbisComment(data: Buffer, tags: AudioTags) {
+  // vendor string first
+  let position = 4 + data.readUInt32LE(0)
+  const count = data.readUInt32LE(position)
+  position += 4
+
+  for (let i = 0; i < count && position + 4 <= data.length; i++) {
+    const length = data.readUInt32LE(position)
+    const comment = data.toString('utf8', position + 4, position + 4 + length)
+    position += 4 + length
+
+    const separator = comment.indexOf('=')
+    if (separator < 0) continue
+    const field = VORBIS_FIELDS[comment.slice(0, separator).toUpperCase()]
+    if (field) setField(tags, field, comment.slice(separator + 1))
+  }
+}
+
+/**
+ * The comment header is the second packet of the stream, packets are split
+ * into 255 byte segments that can span pages
+ */
+async function readOgg(reader: BlockReader, tags: AudioTags) {
+  const packets: Buffer[] = []
+  let current: Buffer[] = []
+  let offset = 0
+
+  while (packets.length < 2 && offset + 27 <= Math.min(reader.size, MAX_OGG_SCAN)) {
+    const header = await reader.bytes(offset, 27)
+    if (header.toString('latin1', 0, 4) !== 'OggS') break
+    const segments = await reader.bytes(offset + 27, header[26])
+    const bodyOffset = offset + 27 + header[26]
+    const body = await reader.bytes(
+      bodyOffset,
+      segments.reduce((sum, segment) => sum + segment, 0)
+    )
+
+    let position = 0
+    for (const segment of segments) {
+      current.push(body.subarray(position, position + segment))
+      position += segment
+      if (segment < 255) {
+        packets.push(Buffer.concat(current))
+        current = []
+      }
+    }
+    offset = bodyOffset + body.length
+  }
+
+  const comment = packets[1]
+  if (!comment) return
+  if (comment.toString('latin1', 0, 7) === '\x03vorbis')
+    readVorbisComment(comment.subarray(7), tags)
+  else if (comment.toString('latin1', 0, 8) === 'OpusTags')
+    readVorbisComment(comment.subarray(8), tags)
+}
+
+async function listAtoms(reader: BlockReader, start: number, end: number) {
+  const atoms: Atom[] = []
+  let offset = start
+  while (offset + 8 <= end) {
+    const header = await reader.bytes(offset, 16)
+    let size = header.readUInt32BE(0)
+    let headerSize = 8
+    if (size === 1) {
+      size = Number(header.readBigUInt64BE(8))
+      headerSize = 16
+    } else if (size === 0) {
+      size = end - offset
+    }
+    if (size < headerSize) break
+
+    atoms.push({
+      type: header.toString('latin1', 4, 8),
+      body: offset + headerSize,
+      end: offset + size,
+    })
+    offset += size
+  }
+  return atoms
+}
+
+async function findAtom(reader: BlockReader, start: number, end: number, type: string) {
+  const atoms = await listAtoms(reader, start, end)
+  return atoms.find((atom) => atom.type === type) ?? null
+}
+
+async function readMP4(reader: BlockReader, tags: AudioTags) {
+  const moov = await findAtom(reader, 0, reader.size, 'moov')
+  if (!moov) return
+
+  const mvhd = await findAtom(reader, moov.body, moov.end, 'mvhd')
+  if (mvhd) {
+    const data = await reader.bytes(mvhd.body, 32)
+    const wide = data[0] === 1
+    const timescale = data.readUInt32BE(wide ? 20 : 12)
+    const duration = wide ? Number(data.readBigUInt64BE(24)) : data.readUInt32BE(16)
+    if (timescale) tags.duration = Math.round(duration / timescale)
+  }
+
+  const udta = await findAtom(reader, moov.body, moov.end, 'udta')
+  const meta = udta && (await findAtom(reader, udta.body, udta.end, 'meta'))
+  // meta is a full box, its children start after the version and flags
+  const ilst = meta && (await findAtom(reader, meta.body + 4, meta.end, 'ilst'))
+  if (!ilst) return
+
+  for (const item of await listAtoms(reader, ilst.body, ilst.end)) {
+    const data = await findAtom(reader, item.body, item.end, 'data')
+    if (!data) continue
+    // data atoms start with a type indicator and a locale
+    const valueOffset = data.body + 8
+    const valueLength = data.end - valueOffset
+
+    if (item.type === 'covr') {
+      if (tags.cover) continue
+      const indicator = await reader.bytes(data.body, 4)
+      const type = indicator.readUInt32BE(0) & 0xffffff
+      tags.cover = {
+        offset: valueOffset,
+        length: valueLength,
+        mimeType: type === 14 ? 'image/png' : 'image/jpeg',
+      }
+    } else if (item.type === 'trkn' || item.type === 'disk') {
+      const value = await reader.bytes(valueOffset, 4)
+      setField(tags, item.type === 'trkn' ? 'track' : 'disc', String(value.readUInt16BE(2)))
+    } else if (MP4_FIELDS[item.type]) {
+      const value = await reader.bytes(valueOffset, valueLength)
+      setField(tags, MP4_FIELDS[item.type], value.toString('utf8'))
+    }
+  }
+}
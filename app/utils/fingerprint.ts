@@ -0,0 +1,50 @@
+import crypto from 'node:crypto'
+
+import type { RangeReader } from '#types/music'
+
+const SAMPLE_SIZE = 64 * 1024
+const FIRST_OFFSET = 1024 * 1024
+
+export type Fingerprint = {
+  hash: string
+  /**
+   * Hashes of the sampled chunks prefixed with their offset, `1048576:9f86d0…`,
+   * or with `end` for the last chunk
+   */
+  samples: string[]
+}
+
+/**
+ * Fingerprint a file from its size and the hashes of a few sampled chunks, so a
+ * copy is recognized without downloading all of it. Chunks are sampled at the
+ * start, at offsets doubling from 1 MiB and at the end. The offsets do not
+ * depend on the size, so a copy with a cut off or padded end still shares all
+ * the samples in front of the cut, and one with rewritten headers of the same
+ * length shares all but the first.
+ */
+export async function fingerprintFile(read: RangeReader, size: number): Promise<Fingerprint> {
+  const offsets = [0]
+  for (let offset = FIRST_OFFSET; offset + SAMPLE_SIZE <= size; offset *= 2) offsets.push(offset)
+
+  const sample = async (label: number | 'end', offset: number) => {
+    const chunk = await read(offset, Math.min(SAMPLE_SIZE, size))
+    return `${label}:${sha256(chunk).slice(0, 32)}`
+  }
+  const samples = await Promise.all([
+    ...offsets.map((offset) => sample(offset, offset)),
+    ...(size > SAMPLE_SIZE ? [sample('end', size - SAMPLE_SIZE)] : []),
+  ])
+  return { hash: sha256(`${size}:${samples.join(',')}`), samples }
+}
+
+/**
+ * Number of samples two fingerprints have in common at the same offsets
+ */
+export function sharedSamples(a: Fingerprint['samples'], b: Fingerprint['samples']) {
+  const samples = new Set(a)
+  return b.filter((sample) => samples.has(sample)).length
+}
+
+function sha256(data: crypto.BinaryLike) {
+  return crypto.createHash('sha256').update(data).digest('hex')
+}
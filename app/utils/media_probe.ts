@@ -0,0 +1,761 @@
+import type { Chapter, HDRFormat, MediaContainer, MediaProbe, VideoStream } from '#types/media'
+import type { RangeReader } from '#types/music'
+import { normalizeLanguage } from '#utils/subtitles'
+
+type Box = {
+  type: string
+  body: number
+  end: number
+}
+
+type Element = {
+  id: number
+  data: Buffer
+}
+
+const WINDOW_SIZE = 1024 * 1024
+const MAX_ELEMENT_SIZE = 16 * 1024 * 1024 // headers bigger than this are not worth downloading
+
+const AVC_PROFILES: Record<number, string> = {
+  66: 'Baseline',
+  77: 'Main',
+  88: 'Extended',
+  100: 'High',
+  110: 'High 10',
+  122: 'High 4:2:2',
+  244: 'High 4:4:4',
+}
+
+const HEVC_PROFILES: Record<number, string> = {
+  1: 'Main',
+  2: 'Main 10',
+  3: 'Main Still Picture',
+  4: 'Range Extensions',
+}
+
+const AV1_PROFILES: Record<number, string> = {
+  0: 'Main',
+  1: 'High',
+  2: 'Professional',
+}
+
+const MP4_AUDIO_CODECS: Record<string, string> = {
+  'ac-3': 'ac-3',
+  'ec-3': 'ec-3',
+  'ac-4': 'ac-4',
+  'Opus': 'opus',
+  'fLaC': 'flac',
+  'alac': 'alac',
+  '.mp3': 'mp3',
+}
+
+const MP4_SUBTITLE_CODECS: Record<string, string> = {
+  tx3g: 'tx3g',
+  wvtt: 'webvtt',
+  stpp: 'ttml',
+  c608: 'eia-608',
+}
+
+const MKV_AUDIO_CODECS: Record<string, string> = {
+  A_AC3: 'ac-3',
+  A_EAC3: 'ec-3',
+  A_DTS: 'dts',
+  A_TRUEHD: 'truehd',
+  A_OPUS: 'opus',
+  A_VORBIS: 'vorbis',
+  A_FLAC: 'flac',
+  A_ALAC: 'alac',
+  A_MPEG_L3: 'mp3',
+}
+
+const MKV_SUBTITLE_CODECS: Record<string, string> = {
+  'S_TEXT/UTF8': 'srt',
+  'S_TEXT/ASS': 'ass',
+  'S_TEXT/SSA': 'ass',
+  'S_TEXT/WEBVTT': 'webvtt',
+  'S_HDMV/PGS': 'pgs',
+  'S_VOBSUB': 'vobsub',
+  'S_DVBSUB': 'dvbsub',
+}
+
+/**
+ * Matroska element ids, with their length marker bits
+ */
+const EBML = {
+  Header: 0x1a45dfa3,
+  DocType: 0x4282,
+  Segment: 0x18538067,
+  SeekHead: 0x114d9b74,
+  Seek: 0x4dbb,
+  SeekID: 0x53ab,
+  SeekPosition: 0x53ac,
+  Info: 0x1549a966,
+  TimestampScale: 0x2ad7b1,
+  Duration: 0x4489,
+  Tracks: 0x1654ae6b,
+  TrackEntry: 0xae,
+  TrackType: 0x83,
+  CodecID: 0x86,
+  CodecPrivate: 0x63a2,
+  Name: 0x536e,
+  Language: 0x22b59c,
+  LanguageIETF: 0x22b59d,
+  FlagEnabled: 0xb9,
+  FlagDefault: 0x88,
+  FlagForced: 0x55aa,
+  Video: 0xe0,
+  PixelWidth: 0xb0,
+  PixelHeight: 0xba,
+  Colour: 0x55b0,
+  TransferCharacteristics: 0x55ba,
+  Audio: 0xe1,
+  Channels: 0x9f,
+  BlockAdditionMapping: 0x41e4,
+  BlockAddIDType: 0x41e7,
+  Chapters: 0x1043a770,
+  EditionEntry: 0x45b9,
+  ChapterAtom: 0xb6,
+  ChapterTimeStart: 0x91,
+  ChapterDisplay: 0x80,
+  ChapString: 0x85,
+  Cluster: 0x1f43b675,
+}
+
+/**
+ * Serves reads from the first and last megabyte of a file, which hold the
+ * headers of nearly every file, and downloads anything else on demand
+ */
+class ProbeReader {
+  private windows: { offset: number; data: Buffer }[] = []
+
+  constructor(
+    private read: RangeReader,
+    readonly size: number
+  ) {}
+
+  async prefetch() {
+    const head = Math.min(WINDOW_SIZE, this.size)
+    const tail = Math.max(head, this.size - WINDOW_SIZE)
+    const windows = [{ offset: 0, length: head }]
+    if (tail < this.size) windows.push({ offset: tail, length: this.size - tail })
+
+    this.windows = await Promise.all(
+      windows.map(async ({ offset, length }) => ({ offset, data: await this.read(offset, length) }))
+    )
+  }
+
+  async bytes(offset: number, length: number) {
+    const end = Math.min(offset + length, this.size)
+    if (end <= offset) return Buffer.alloc(0)
+
+    const window = this.windows.find(
+      (item) => item.offset <= offset && end <= item.offset + item.data.length
+    )
+    if (window) return window.data.subarray(offset - window.offset, end - window.offset)
+    return this.read(offset, end - offset)
+  }
+}
+
+/**
+ * Read the duration, streams and chapters of an MP4 or Matroska file. Only the
+ * container headers are downloaded, returns null for other containers.
+ */
+export async function probeMedia(read: RangeReader, size: number): Promise<MediaProbe | null> {
+  const reader = new ProbeReader(read, size)
+  await reader.prefetch()
+
+  const head = await reader.bytes(0, 12)
+  try {
+    if (head.readUInt32BE(0) === EBML.Header) return await probeMatroska(reader)
+    if (['ftyp', 'moov', 'free', 'mdat'].includes(head.toString('latin1', 4, 8))) {
+      return await probeMP4(reader)
+    }
+  } catch (error) {
+    // Truncated or malformed headers run off the end of their buffers
+    if (!(error instanceof RangeError)) throw error
+  }
+  return null
+}
+
+function emptyProbe(container: MediaContainer): MediaProbe {
+  return {
+    container,
+    duration: null,
+    video: null,
+    audioTracks: [],
+    subtitleTracks: [],
+    chapters: [],
+  }
+}
+
+/*
+|--------------------------------------------------------------------------
+| MP4
+|--------------------------------------------------------------------------
+*/
+
+async function probeMP4(reader: ProbeReader): Promise<MediaProbe> {
+  const probe = emptyProbe('mp4')
+  // moov sits after mdat unless the file was optimized for streaming
+  const topLevel = await listBoxes(reader, 0, reader.size)
+  const moovBox = topLevel.find((box) => box.type === 'moov')
+  if (!moovBox || moovBox.end - moovBox.body > MAX_ELEMENT_SIZE) return probe
+
+  const moov = await reader.bytes(moovBox.body, moovBox.end - moovBox.body)
+  const boxes = parseBoxes(moov)
+
+  const mvhd = boxes.find((box) => box.type === 'mvhd')
+  if (mvhd) {
+    const wide = moov[mvhd.body] === 1
+    const timescale = moov.readUInt32BE(mvhd.body + (wide ? 20 : 12))
+    const duration = wide
+      ? Number(moov.readBigUInt64BE(mvhd.body + 24))
+      : moov.readUInt32BE(mvhd.body + 16)
+    if (timescale) probe.duration = Math.round((duration / timescale) * 1000) / 1000
+  }
+
+  // QuickTime chapter titles live in text tracks referenced by the other tracks
+  const traks = boxes.filter((box) => box.type === 'trak')
+  const chapterTracks = new Set(traks.flatMap((trak) => mp4ChapterTrackIds(moov, trak)))
+
+  for (const trak of traks) {
+    const tkhd = findBox(moov, trak, 'tkhd')
+    if (!tkhd) continue
+    const wideHeader = moov[tkhd.body] === 1
+    const enabled = (moov[tkhd.body + 3] & 0x1) !== 0
+    const trackId = moov.readUInt32BE(tkhd.body + (wideHeader ? 20 : 12))
+    if (chapterTracks.has(trackId)) continue
+
+    const mdia = findBox(moov, trak, 'mdia')
+    const mdhd = mdia && findBox(moov, mdia, 'mdhd')
+    const hdlr = mdia && findBox(moov, mdia, 'hdlr')
+    const stsd = mdia && findPath(moov, mdia, ['minf', 'stbl', 'stsd'])
+    if (!mdhd || !hdlr || !stsd) continue
+
+    const handler = moov.toString('latin1', hdlr.body + 8, hdlr.body + 12)
+    const title = moov
+      .toString('utf8', hdlr.body + 24, hdlr.end)
+      .replace(/\0.*$/s, '')
+      .trim()
+    const language = mp4Language(moov, mdia!, mdhd)
+    // stsd is a full box with an entry count, only the first sample entry matters
+    const [entry] = parseBoxes(moov, stsd.body + 8, stsd.end)
+    if (!entry) continue
+
+    if (handler === 'vide' && !probe.video) {
+      // Visual sample entries keep the dimensions at fixed offsets before their child boxes
+      probe.video = mp4Video(moov, entry, {
+        width: moov.readUInt16BE(entry.body + 24),
+        height: moov.readUInt16BE(entry.body + 26),
+      })
+    } else if (handler === 'soun') {
+      probe.audioTracks.push({
+        codec: mp4AudioCodec(moov, entry),
+        language,
+        title: title && !/handler$/i.test(title) ? title : null,
+        channels: moov.readUInt16BE(entry.body + 16) || null,
+        default: enabled,
+      })
+    } else if (['sbtl', 'subt', 'text', 'clcp'].includes(handler)) {
+      probe.subtitleTracks.push({
+        codec: MP4_SUBTITLE_CODECS[entry.type] ?? entry.type,
+        language,
+        title: title && !/handler$/i.test(title) ? title : null,
+        default: false,
+        forced: false,
+      })
+    }
+  }
+
+  const chpl = findPath(moov, { type: 'moov', body: 0, end: moov.length }, ['udta', 'chpl'])
+  if (chpl) probe.chapters = mp4Chapters(moov, chpl)
+  return probe
+}
+
+async function listBoxes(reader: ProbeReader, start: number, end: number) {
+  const boxes: Box[] = []
+  let offset = start
+  while (offset + 8 <= end) {
+    const header = await reader.bytes(offset, 16)
+    const box = boxHeader(header, 0, end - offset)
+    if (!box) break
+    boxes.push({ type: box.type, body: offset + box.body, end: offset + box.end })
+    offset += box.end
+  }
+  return boxes
+}
+
+function parseBoxes(data: Buffer, start = 0, end = data.length) {
+  const boxes: Box[] = []
+  let offset = start
+  while (offset + 8 <= end) {
+    const box = boxHeader(data, offset, end - offset)
+    if (!box) break
+    boxes.push({ type: box.type, body: offset + box.body, end: offset + box.end })
+    offset += box.end
+  }
+  return boxes
+}
+
+/**
+ * Box offsets relative to the start of the box, a size of 1 means a 64-bit
+ * size follows and 0 means the box runs to the end of its parent
+ */
+function boxHeader(data: Buffer, offset: number, available: number) {
+  let size = data.readUInt32BE(offset)
+  let body = 8
+  if (size === 1) {
+    size = Number(data.readBigUInt64BE(offset + 8))
+    body = 16
+  } else if (size === 0) {
+    size = available
+  }
+  if (size < body) return null
+  return { type: data.toString('latin1', offset + 4, offset + 8), body, end: size }
+}
+
+function findBox(data: Buffer, parent: Box, type: string) {
+  return parseBoxes(data, parent.body, parent.end).find((box) => box.type === type) ?? null
+}
+
+function findPath(data: Buffer, parent: Box, path: string[]) {
+  let box: Box | null = parent
+  for (const type of path) {
+    box = box && findBox(data, box, type)
+  }
+  return box
+}
+
+function mp4ChapterTrackIds(moov: Buffer, trak: Box) {
+  const chap = findPath(moov, trak, ['tref', 'chap'])
+  if (!chap) return []
+  const ids: number[] = []
+  for (let offset = chap.body; offset + 4 <= chap.end; offset += 4) {
+    ids.push(moov.readUInt32BE(offset))
+  }
+  return ids
+}
+
+/**
+ * The extended language box has a BCP 47 tag, mdhd packs an ISO 639-2 code
+ * into three 5-bit letters
+ */
+function mp4Language(moov: Buffer, mdia: Box, mdhd: Box) {
+  const elng = findBox(moov, mdia, 'elng')
+  if (elng) {
+    const tag = moov.toString('latin1', elng.body + 4, elng.end).replace(/\0.*$/s, '')
+    return normalizeLanguage(tag)
+  }
+
+  const wide = moov[mdhd.body] === 1
+  const packed = moov.readUInt16BE(mdhd.body + (wide ? 32 : 20))
+  const code = [10, 5, 0].map((shift) => String.fromCharCode(((packed >> shift) & 0x1f) + 0x60))
+  return normalizeLanguage(code.join(''))
+}
+
+function mp4Video(moov: Buffer, entry: Box, size: { width: number; height: number }): VideoStream {
+  // Child boxes of visual sample entries start after 78 bytes of fixed fields
+  const boxes = parseBoxes(moov, entry.body + 78, entry.end)
+  const find = (type: string) => boxes.find((item) => item.type === type)
+  const config = (box: Box | undefined) => box && moov.subarray(box.body, box.end)
+
+  let hdr = mp4Hdr(moov, find('colr'))
+  if (['dvh1', 'dvhe', 'dva1', 'dvav'].includes(entry.type) || find('dvcC') || find('dvvC')) {
+    hdr = 'dolby-vision'
+  }
+
+  const video = { width: size.width || null, height: size.height || null, hdr }
+  const avcC = config(find('avcC'))
+  if (avcC) return { ...video, ...avcCodec(entry.type, avcC) }
+  const hvcC = config(find('hvcC'))
+  if (hvcC) return { ...video, ...hevcCodec(entry.type, hvcC) }
+  const av1C = config(find('av1C'))
+  if (av1C) return { ...video, ...av1Codec(av1C) }
+  const vpcC = config(find('vpcC'))
+  // vpcC is a full box, the profile follows the version and flags
+  if (vpcC) return { ...video, ...vp9Codec(vpcC.subarray(4)) }
+  return { ...video, codec: entry.type, profile: null }
+}
+
+/**
+ * `nclx` colour boxes carry the transfer characteristics of the stream
+ */
+function mp4Hdr(moov: Buffer, colr: Box | undefined): HDRFormat | null {
+  if (!colr || moov.toString('latin1', colr.body, colr.body + 4) !== 'nclx') return null
+  return transferHdr(moov.readUInt16BE(colr.body + 6))
+}
+
+function mp4AudioCodec(moov: Buffer, entry: Box) {
+  if (MP4_AUDIO_CODECS[entry.type]) return MP4_AUDIO_CODECS[entry.type]
+  if (entry.type !== 'mp4a') return entry.type
+
+  // Audio sample entries keep their child boxes after 28 bytes of fixed fields
+  const esds = parseBoxes(moov, entry.body + 28, entry.end).find((box) => box.type === 'esds')
+  if (!esds) return 'mp4a.40.2'
+  return esdsCodec(moov.subarray(esds.body + 4, esds.end)) ?? 'mp4a.40.2'
+}
+
+/**
+ * Walks the MPEG-4 descriptors of an esds box down to the decoder config, the
+ * codec string is `mp4a.<object type>.<audio object type>`
+ */
+function esdsCodec(data: Buffer): string | null {
+  let offset = 0
+  while (offset < data.length) {
+    const tag = data[offset++]
+    let length = 0
+    for (let i = 0; i < 4; i++) {
+      const byte = data[offset++]
+      length = (length << 7) | (byte & 0x7f)
+      if (!(byte & 0x80)) break
+    }
+
+    if (tag === 0x03) {
+      // ES descriptor: id, flags and the optional fields the flags announce
+      const flags = data[offset + 2]
+      offset += 3
+      if (flags & 0x80) offset += 2
+      if (flags & 0x40) offset += 1 + data[offset]
+      if (flags & 0x20) offset += 2
+    } else if (tag === 0x04) {
+      const objectType = data[offset]
+      const specific = data.subarray(offset + 13, offset + length)
+      if (objectType !== 0x40 || specific[0] !== 0x05) return `mp4a.${objectType.toString(16)}`
+      // Decoder specific info: tag, a one byte length and the audio object type in 5 bits
+      return `mp4a.40.${specific[2] >> 3}`
+    } else {
+      offset += length
+    }
+  }
+  return null
+}
+
+function mp4Chapters(moov: Buffer, chpl: Box): Chapter[] {
+  // Nero chapters: version 1 adds 4 reserved bytes, start times are in 100ns units
+  const version = moov[chpl.body]
+  let offset = chpl.body + (version === 1 ? 9 : 5)
+  const count = moov[offset - 1]
+  const chapters: Chapter[] = []
+  for (let i = 0; i < count && offset + 9 <= chpl.end; i++) {
+    const start = Number(moov.readBigUInt64BE(offset)) / 10_000_000
+    const length = moov[offset + 8]
+    const title = moov.toString('utf8', offset + 9, offset + 9 + length).trim()
+    chapters.push({ title: title || null, start })
+    offset += 9 + length
+  }
+  return chapters
+}
+
+/*
+|--------------------------------------------------------------------------
+| Matroska
+|--------------------------------------------------------------------------
+*/
+
+async function probeMatroska(reader: ProbeReader): Promise<MediaProbe | null> {
+  const header = await readElementAt(reader, 0)
+  if (!header) return null
+  const docType = childString(header.element.data, EBML.DocType)
+  const probe = emptyProbe(docType === 'webm' ? 'webm' : 'matroska')
+
+  const segment = await elementHeaderAt(reader, header.end)
+  if (!segment || segment.id !== EBML.Segment) return probe
+  const segmentStart = segment.body
+  const segmentEnd = Math.min(segment.end ?? reader.size, reader.size)
+
+  // Headers come before the first cluster, anything after it is found through the seek head
+  const found = new Map<number, Buffer>()
+  const wanted = [EBML.Info, EBML.Tracks, EBML.Chapters]
+  let offset = segmentStart
+  while (offset < segmentEnd) {
+    const entry = await elementHeaderAt(reader, offset)
+    if (!entry || entry.end === null || entry.id === EBML.Cluster) break
+    if (entry.id === EBML.SeekHead || wanted.includes(entry.id)) {
+      const element = await readBody(reader, entry)
+      if (element) found.set(entry.id, element)
+    }
+    offset = entry.end
+  }
+
+  const seekHead = found.get(EBML.SeekHead)
+  for (const seek of seekHead ? children(seekHead, EBML.Seek) : []) {
+    const id = childUInt(seek, EBML.SeekID)
+    const position = childUInt(seek, EBML.SeekPosition)
+    if (id === null || position === null || !wanted.includes(id) || found.has(id)) continue
+
+    const entry = await elementHeaderAt(reader, segmentStart + position)
+    if (entry?.id !== id) continue
+    const element = await readBody(reader, entry)
+    if (element) found.set(id, element)
+  }
+
+  const info = found.get(EBML.Info)
+  if (info) {
+    const scale = childUInt(info, EBML.TimestampScale) ?? 1_000_000
+    const duration = childFloat(info, EBML.Duration)
+    if (duration !== null) probe.duration = Math.round((duration * scale) / 1_000_000) / 1000
+  }
+
+  const tracks = found.get(EBML.Tracks)
+  for (const track of tracks ? children(tracks, EBML.TrackEntry) : []) {
+    matroskaTrack(track, probe)
+  }
+
+  const chapters = found.get(EBML.Chapters)
+  const [edition] = chapters ? children(chapters, EBML.EditionEntry) : []
+  if (edition) {
+    probe.chapters = children(edition, EBML.ChapterAtom).map((atom) => {
+      const [display] = children(atom, EBML.ChapterDisplay)
+      return {
+        title: (display && childString(display, EBML.ChapString)) || null,
+        start: (childUInt(atom, EBML.ChapterTimeStart) ?? 0) / 1_000_000_000,
+      }
+    })
+  }
+  return probe
+}
+
+function matroskaTrack(track: Buffer, probe: MediaProbe) {
+  const type = childUInt(track, EBML.TrackType)
+  const codecId = childString(track, EBML.CodecID) ?? ''
+  const codecPrivate = child(track, EBML.CodecPrivate)
+  // The language defaults to English when the element is missing
+  const language = normalizeLanguage(
+    childString(track, EBML.LanguageIETF) ?? childString(track, EBML.Language) ?? 'eng'
+  )
+  const title = childString(track, EBML.Name) || null
+  const isDefault = (childUInt(track, EBML.FlagDefault) ?? 1) === 1
+  if (childUInt(track, EBML.FlagEnabled) === 0) return
+
+  if (type === 1 && !probe.video) {
+    const video = child(track, EBML.Video)
+    const colour = video && child(video, EBML.Colour)
+    const transfer = colour && childUInt(colour, EBML.TransferCharacteristics)
+    // Dolby Vision configuration is stored as a block addition mapping
+    const dolbyVision = children(track, EBML.BlockAdditionMapping).some((mapping) =>
+      ['dvcC', 'dvvC'].includes(fourCC(childUInt(mapping, EBML.BlockAddIDType)))
+    )
+    probe.video = {
+      ...matroskaVideoCodec(codecId, codecPrivate),
+      width: (video && childUInt(video, EBML.PixelWidth)) || null,
+      height: (video && childUInt(video, EBML.PixelHeight)) || null,
+      hdr: dolbyVision ? 'dolby-vision' : transfer ? transferHdr(transfer) : null,
+    }
+  } else if (type === 2) {
+    const audio = child(track, EBML.Audio)
+    probe.audioTracks.push({
+      codec: matroskaAudioCodec(codecId, codecPrivate),
+      language,
+      title,
+      channels: (audio && childUInt(audio, EBML.Channels)) || null,
+      default: isDefault,
+    })
+  } else if (type === 17) {
+    probe.subtitleTracks.push({
+      codec: MKV_SUBTITLE_CODECS[codecId] ?? codecId.toLowerCase(),
+      language,
+      title,
+      default: isDefault,
+      forced: childUInt(track, EBML.FlagForced) === 1,
+    })
+  }
+}
+
+function matroskaVideoCodec(
+  codecId: string,
+  codecPrivate: Buffer | null
+): Pick<VideoStream, 'codec' | 'profile'> {
+  if (codecId === 'V_MPEG4/ISO/AVC' && codecPrivate) return avcCodec('avc1', codecPrivate)
+  if (codecId === 'V_MPEGH/ISO/HEVC' && codecPrivate) return hevcCodec('hvc1', codecPrivate)
+  if (codecId === 'V_AV1' && codecPrivate) return av1Codec(codecPrivate)
+  if (codecId === 'V_VP9') return { codec: 'vp9', profile: null }
+  if (codecId === 'V_VP8') return { codec: 'vp8', profile: null }
+  return { codec: codecId.toLowerCase(), profile: null }
+}
+
+function matroskaAudioCodec(codecId: string, codecPrivate: Buffer | null) {
+  if (codecId.startsWith('A_AAC')) {
+    // The audio specific config starts with the audio object type in 5 bits
+    return codecPrivate?.length ? `mp4a.40.${codecPrivate[0] >> 3}` : 'mp4a.40.2'
+  }
+  return MKV_AUDIO_CODECS[codecId.replace('/', '_')] ?? codecId.toLowerCase()
+}
+
+type ElementHeader = {
+  id: number
+  body: number
+  /**
+   * Null when the size is unknown, live streams write segments and clusters that way
+   */
+  end: number | null
+}
+
+async function elementHeaderAt(reader: ProbeReader, offset: number): Promise<ElementHeader | null> {
+  const data = await reader.bytes(offset, 12)
+  if (data.length < 2) return null
+  const id = readVint(data, 0, true)
+  const size = id && readVint(data, id.length, false)
+  if (!id || !size) return null
+  const body = offset + id.length + size.length
+  return { id: id.value, body, end: size.unknown ? null : body + size.value }
+}
+
+async function readElementAt(reader: ProbeReader, offset: number) {
+  const header = await elementHeaderAt(reader, offset)
+  if (!header || header.end === null) return null
+  const data = await readBody(reader, header)
+  return data && { element: { id: header.id, data }, end: header.end }
+}
+
+async function readBody(reader: ProbeReader, header: ElementHeader) {
+  if (header.end === null || header.end - header.body > MAX_ELEMENT_SIZE) return null
+  return reader.bytes(header.body, header.end - header.body)
+}
+
+/**
+ * EBML variable length integers: the position of the first set bit is the
+ * length. Ids keep the marker bit, sizes drop it and all ones means unknown.
+ */
+function readVint(data: Buffer, offset: number, keepMarker: boolean) {
+  const first = data[offset]
+  if (!first) return null
+  const length = Math.clz32(first) - 23
+  if (length > 8 || offset + length > data.length) return null
+
+  let value = keepMarker ? first : first & (0xff >> length)
+  let unknown = !keepMarker && value === 0xff >> length
+  for (let i = 1; i < length; i++) {
+    value = value * 256 + data[offset + i]
+    unknown &&= data[offset + i] === 0xff
+  }
+  return { value, length, unknown }
+}
+
+function parseElements(data: Buffer): Element[] {
+  const elements: Element[] = []
+  let offset = 0
+  while (offset < data.length) {
+    const id = readVint(data, offset, true)
+    const size = id && readVint(data, offset + id.length, false)
+    if (!id || !size || size.unknown) break
+    const body = offset + id.length + size.length
+    elements.push({ id: id.value, data: data.subarray(body, body + size.value) })
+    offset = body + size.value
+  }
+  return elements
+}
+
+function children(data: Buffer, id: number) {
+  return parseElements(data)
+    .filter((element) => element.id === id)
+    .map((element) => element.data)
+}
+
+function child(data: Buffer, id: number) {
+  return children(data, id)[0] ?? null
+}
+
+function childUInt(data: Buffer, id: number) {
+  const value = child(data, id)
+  if (!value?.length || value.length > 8) return null
+  return value.reduce((result, byte) => result * 256 + byte, 0)
+}
+
+function childFloat(data: Buffer, id: number) {
+  const value = child(data, id)
+  if (value?.length === 4) return value.readFloatBE(0)
+  if (value?.length === 8) return value.readDoubleBE(0)
+  return null
+}
+
+function childString(data: Buffer, id: number) {
+  const value = child(data, id)
+  return value ? value.toString('utf8').replace(/\0.*$/s, '').trim() : null
+}
+
+function fourCC(value: number | null) {
+  if (value === null) return ''
+  const data = Buffer.alloc(4)
+  data.writeUInt32BE(value)
+  return data.toString('latin1')
+}
+
+/*
+|--------------------------------------------------------------------------
+| Codec configuration records
+|--------------------------------------------------------------------------
+*/
+
+/**
+ * Transfer characteristics from ITU-T H.273: 16 is PQ, 18 is HLG
+ */
+function transferHdr(transfer: number): HDRFormat | null {
+  if (transfer === 16) return 'hdr10'
+  if (transfer === 18) return 'hlg'
+  return null
+}
+
+function hex(value: number, length = 2) {
+  return value.toString(16).padStart(length, '0')
+}
+
+function avcCodec(type: string, avcC: Buffer): Pick<VideoStream, 'codec' | 'profile'> {
+  const [, profile, compatibility, level] = avcC
+  return {
+    codec: `${type}.${hex(profile)}${hex(compatibility)}${hex(level)}`,
+    profile: AVC_PROFILES[profile] ?? null,
+  }
+}
+
+/**
+ * HEVC codec strings: profile space and profile, the compatibility flags in
+ * reverse bit order, tier and level, then the constraint flags without
+ * trailing zero bytes
+ */
+function hevcCodec(type: string, hvcC: Buffer): Pick<VideoStream, 'codec' | 'profile'> {
+  const profileSpace = ['', 'A', 'B', 'C'][hvcC[1] >> 6]
+  const tier = (hvcC[1] >> 5) & 0x1 ? 'H' : 'L'
+  const profile = hvcC[1] & 0x1f
+
+  let flags = hvcC.readUInt32BE(2)
+  let reversed = 0
+  for (let i = 0; i < 32; i++) {
+    reversed = (reversed << 1) | (flags & 1)
+    flags >>>= 1
+  }
+
+  const constraints = [...hvcC.subarray(6, 12)]
+  while (constraints.length && constraints.at(-1) === 0) constraints.pop()
+  const codecType = type === 'hev1' ? 'hev1' : 'hvc1'
+  return {
+    codec: [
+      codecType,
+      `${profileSpace}${profile}`,
+      (reversed >>> 0).toString(16),
+      `${tier}${hvcC[12]}`,
+      ...constraints.map((byte) => byte.toString(16)),
+    ].join('.'),
+    profile: HEVC_PROFILES[profile] ?? null,
+  }
+}
+
+function av1Codec(av1C: Buffer): Pick<VideoStream, 'codec' | 'profile'> {
+  const profile = av1C[1] >> 5
+  const level = av1C[1] & 0x1f
+  const tier = av1C[2] >> 7 ? 'H' : 'M'
+  const highBitDepth = (av1C[2] >> 6) & 0x1
+  const twelveBit = (av1C[2] >> 5) & 0x1
+  const bitDepth = highBitDepth ? (twelveBit ? 12 : 10) : 8
+  return {
+    codec: `av01.${profile}.${hex(level)}${tier}.${hex(bitDepth)}`,
+    profile: AV1_PROFILES[profile] ?? null,
+  }
+}
+
+function vp9Codec(vpcC: Buffer): Pick<VideoStream, 'codec' | 'profile'> {
+  const [profile, level, depth] = vpcC
+  return {
+    codec: `vp09.${hex(profile)}.${hex(level)}.${hex(depth >> 4)}`,
+    profile: `Profile ${profile}`,
+  }
+}
@@ -0,0 +1,47 @@
+import type { ByteRange } from '#types/stream'
+
+/**
+ * Reads the byte ranges of a `Range` header as of RFC 7233, like `bytes=0-499`,
+ * `bytes=500-` or the last 500 bytes with `bytes=-500`. Overlapping and
+ * adjacent ranges are merged. Returns null when the header has to be ignored,
+ * for other units or broken syntax, and an empty list when no range is
+ * satisfiable.
+ */
+export function parseRange(header: string, size: number): ByteRange[] | null {
+  const match = header.match(/^\s*bytes\s*=\s*(.+)$/i)
+  if (!match) return null
+
+  const ranges: ByteRange[] = []
+  for (const spec of match[1].split(',')) {
+    // The list syntax allows empty elements like `bytes=0-1,,5-6`
+    if (!spec.trim()) continue
+    const range = spec.trim().match(/^(\d*)\s*-\s*(\d*)$/)
+    if (!range || (!range[1] && !range[2])) return null
+
+    if (!range[1]) {
+      const suffix = Number(range[2])
+      if (suffix > 0 && size > 0) ranges.push({ start: Math.max(size - suffix, 0), end: size - 1 })
+      continue
+    }
+
+    const start = Number(range[1])
+    const end = range[2] ? Number(range[2]) : size - 1
+    if (range[2] && end < start) return null
+    if (start < size) ranges.push({ start, end: Math.min(end, size - 1) })
+  }
+
+  return mergeRanges(ranges)
+}
+
+function mergeRanges(ranges: ByteRange[]) {
+  const merged: ByteRange[] = []
+  for (const range of [...ranges].sort((a, b) => a.start - b.start)) {
+    const last = merged.at(-1)
+    if (last && range.start <= last.end + 1) {
+      last.end = Math.max(last.end, range.end)
+    } else {
+      merged.push({ ...range })
+    }
+  }
+  return merged
+}
@@ -0,0 +1,231 @@
+import type { SubtitleFormat } from '#types/subtitle'
+
+const SUBTITLE_EXTENSIONS: Record<string, SubtitleFormat> = {
+  srt: 'srt',
+  ass: 'ass',
+  ssa: 'ass',
+  vtt: 'vtt',
+}
+
+const SUBTITLE_MIME_TYPES: Record<string, SubtitleFormat> = {
+  'application/x-subrip': 'srt',
+  'text/x-ssa': 'ass',
+  'text/x-ass': 'ass',
+  'text/vtt': 'vtt',
+}
+
+/**
+ * ISO 639-2 codes used by release groups, mapped to the ISO 639-1 codes stored
+ * on subtitles and understood by browsers
+ */
+const LANGUAGE_CODES: Record<string, string> = {
+  ara: 'ar',
+  bul: 'bg',
+  chi: 'zh',
+  zho: 'zh',
+  cze: 'cs',
+  ces: 'cs',
+  dan: 'da',
+  dut: 'nl',
+  nld: 'nl',
+  eng: 'en',
+  fin: 'fi',
+  fre: 'fr',
+  fra: 'fr',
+  ger: 'de',
+  deu: 'de',
+  gre: 'el',
+  ell: 'el',
+  heb: 'he',
+  hin: 'hi',
+  hrv: 'hr',
+  hun: 'hu',
+  ind: 'id',
+  ita: 'it',
+  jpn: 'ja',
+  kor: 'ko',
+  may: 'ms',
+  msa: 'ms',
+  nor: 'no',
+  per: 'fa',
+  fas: 'fa',
+  pol: 'pl',
+  por: 'pt',
+  rum: 'ro',
+  ron: 'ro',
+  rus: 'ru',
+  spa: 'es',
+  srp: 'sr',
+  swe: 'sv',
+  tha: 'th',
+  tur: 'tr',
+  ukr: 'uk',
+  vie: 'vi',
+}
+
+const UNKNOWN_LANGUAGE = 'und'
+
+const languageNames = new Intl.DisplayNames(['en'], { type: 'language' })
+
+export function subtitleFormat(fileName: string | null, mimeType: string): SubtitleFormat | null {
+  const extension = fileName?.match(/\.([a-z0-9]+)$/i)?.[1].toLowerCase()
+  return (extension && SUBTITLE_EXTENSIONS[extension]) || SUBTITLE_MIME_TYPES[mimeType] || null
+}
+
+/**
+ * Finds the subtitle language in a `lang: xx` caption line, or in the last
+ * parts of the file name like `Movie.2019.en.srt` or `Movie.eng.forced.srt`.
+ * The fallback is used when neither names a language.
+ */
+export function parseSubtitleLanguage(
+  text: string,
+  fileName: string | null,
+  fallback?: string | null
+): string {
+  const captionMatch = text.match(/\blang(?:uage)?\s*[:=]\s*([a-z-]+)/i)
+  if (captionMatch) {
+    const language = normalizeLanguage(captionMatch[1])
+    if (language) return language
+  }
+
+  const parts = (fileName ?? '').replace(/\.[^.]+$/, '').split(/[._\s]+/)
+  for (const part of parts.slice(-2).reverse()) {
+    const language = normalizeLanguage(part)
+    if (language) return language
+  }
+  return fallback || UNKNOWN_LANGUAGE
+}
+
+export function languageName(code: string) {
+  if (code === UNKNOWN_LANGUAGE) return 'Unknown'
+  return languageNames.of(code) ?? code
+}
+
+/**
+ * Accepts two and three letter codes and English language names, region
+ * suffixes like `pt-BR` are dropped
+ */
+export function normalizeLanguage(value: string): string | null {
+  const code = value.toLowerCase().split('-')[0]
+  if (code.length === 3 && LANGUAGE_CODES[code]) return LANGUAGE_CODES[code]
+  if (code.length === 2 && isLanguageCode(code)) return code
+  return (
+    Object.values(LANGUAGE_CODES).find((known) => languageName(known).toLowerCase() === code) ??
+    null
+  )
+}
+
+function isLanguageCode(code: string) {
+  try {
+    return languageNames.of(code) !== code
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Converts a subtitle file to WebVTT, the only format browsers render natively
+ */
+export function toWebVTT(data: Buffer, format: SubtitleFormat): string {
+  const text = decodeSubtitle(data).replace(/\r\n?/g, '\n').trim()
+  if (format === 'ass') return assToWebVTT(text)
+  if (format === 'srt') return srtToWebVTT(text)
+  return text.startsWith('WEBVTT') ? `${text}\n` : `WEBVTT\n\n${text}\n`
+}
+
+/**
+ * Subtitles come in whatever encoding the uploader had, a byte order mark wins
+ * and anything that is not valid UTF-8 is read as Windows-1252
+ */
+function decodeSubtitle(data: Buffer): string {
+  if (data[0] === 0xef && data[1] === 0xbb && data[2] === 0xbf) {
+    return data.subarray(3).toString('utf8')
+  }
+  if (data[0] === 0xff && data[1] === 0xfe) return data.subarray(2).toString('utf16le')
+  if (data[0] === 0xfe && data[1] === 0xff) {
+    return Buffer.from(data.subarray(2)).swap16().toString('utf16le')
+  }
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(data)
+  } catch {
+    return new TextDecoder('windows-1252').decode(data)
+  }
+}
+
+function srtToWebVTT(text: string) {
+  const body = text
+    .replace(
+      /(\d{1,2}):(\d{2}):(\d{2})[,.](\d{1,3})/g,
+      (_, hours: string, minutes: string, seconds: string, millis: string) =>
+        `${hours.padStart(2, '0')}:${minutes}:${seconds}.${millis.padEnd(3, '0')}`
+    )
+    // Some SRT files carry ASS positioning tags like {\an8}
+    .replace(/\{\\[^}]*\}/g, '')
+  return `WEBVTT\n\n${body}\n`
+}
+
+/**
+ * Only the timing and text of the dialogue lines are kept, styles and
+ * positioning have no WebVTT counterpart
+ */
+function assToWebVTT(text: string) {
+  const cues: { start: number; end: number; text: string }[] = []
+  let section = ''
+  let fields: string[] = []
+
+  for (const line of text.split('\n')) {
+    const sectionMatch = line.match(/^\[(.+)\]\s*$/)
+    if (sectionMatch) {
+      section = sectionMatch[1].toLowerCase()
+      continue
+    }
+    if (section !== 'events') continue
+
+    const [, key, value] = line.match(/^(\w+):\s*(.*)$/) ?? []
+    if (key === 'Format') {
+      fields = value.split(',').map((field) => field.trim().toLowerCase())
+    }
+    if (key !== 'Dialogue' || !fields.length) continue
+
+    // The text is the last field and may contain commas itself
+    const values = value.split(',')
+    const row = [...values.slice(0, fields.length - 1), values.slice(fields.length - 1).join(',')]
+    const get = (field: string) => row[fields.indexOf(field)] ?? ''
+
+    const start = assTime(get('start'))
+    const end = assTime(get('end'))
+    const cueText = get('text')
+      .replace(/\{[^}]*\}/g, '')
+      .replace(/\\[Nn]/g, '\n')
+      .replace(/\\h/g, ' ')
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .trim()
+    if (start === null || end === null || !cueText) continue
+    cues.push({ start, end, text: cueText })
+  }
+
+  const body = cues
+    .sort((a, b) => a.start - b.start)
+    .map((cue) => `${vttTime(cue.start)} --> ${vttTime(cue.end)}\n${cue.text}`)
+    .join('\n\n')
+  return `WEBVTT\n\n${body}\n`
+}
+
+/**
+ * ASS times are `H:MM:SS.cc`
+ */
+function assTime(value: string): number | null {
+  const match = value.trim().match(/^(\d+):(\d{2}):(\d{2})\.(\d{2})$/)
+  if (!match) return null
+  const [, hours, minutes, seconds, centis] = match.map(Number)
+  return ((hours * 60 + minutes) * 60 + seconds) * 1000 + centis * 10
+}
+
+function vttTime(ms: number) {
+  const pad = (value: number, length = 2) => String(value).padStart(length, '0')
+  const hours = Math.floor(ms / 3_600_000)
+  const minutes = Math.floor(ms / 60_000) % 60
+  const seconds = Math.floor(ms / 1000) % 60
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}.${pad(ms % 1000, 3)}`
+}
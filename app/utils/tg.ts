@@ -1,6 +1,73 @@
-import { ParsedMediaText } from '#types/tg'
+import type { Message, TelegramClient } from '@mtcute/node'
 
-export function parseMediaText(text: string): ParsedMediaText | null {
+import { MediaMessage, ParsedMediaText, ParsedReleaseName, ReleaseQuality } from '#types/tg'
+
+export const CAPTION_KEYS = [
+  'type',
+  'imdb',
+  'tmdb',
+  'season',
+  'episode',
+  'edition',
+  'language',
+  'quality',
+  'part',
+] as const
+
+const CAPTION_KEY_ALIASES: Record<string, string> = { lang: 'language' }
+
+/**
+ * Reads the fields of a structured caption, a JSON object or `key: value`
+ * lines naming at least one known key. Keys are lowercased and values are
+ * returned as strings, validating them is up to the caller. Returns null for
+ * free text captions and throws a `SyntaxError` for broken JSON.
+ */
+export function parseStructuredCaption(text: string): Record<string, unknown> | null {
+  // The JSON may be sent as a code block
+  const body = text.trim().replace(/^```(?:json)?\s*([\s\S]*?)\s*```$/i, '$1')
+
+  if (body.startsWith('{')) {
+    const value = JSON.parse(body)
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      throw new SyntaxError('The caption JSON must be an object')
+    }
+    return captionFields(Object.entries(value))
+  }
+
+  const lines = body.split('\n').filter((line) => line.trim())
+  const entries = lines.map((line) => line.trim().match(/^([a-z_]+)\s*[:=]\s*(.*)$/i))
+  if (!lines.length || entries.some((entry) => !entry)) return null
+
+  const fields = captionFields(entries.map((entry) => [entry![1], entry![2]]))
+  const known = Object.keys(fields).some((key) => (CAPTION_KEYS as readonly string[]).includes(key))
+  return known ? fields : null
+}
+
+function captionFields(entries: [string, unknown][]) {
+  const fields: Record<string, unknown> = {}
+  for (const [name, value] of entries) {
+    if (value === null || value === '') continue
+    const key = name.toLowerCase()
+    fields[CAPTION_KEY_ALIASES[key] ?? key] =
+      typeof value === 'object' ? value : String(value).trim()
+  }
+  return fields
+}
+
+/**
+ * Absolute episode numbers of anime releases, like `Show - 137` or `Show - 137-138v2`.
+ * Years are left out, `Show - 2019` is not an episode.
+ */
+const DASHED_EPISODE_PATTERN = /\s-\s(?!(?:19|20)\d{2}\b)(\d{1,4})(?:-(\d{1,4}))?(?:v\d)?(?=\s|$)/
+
+/**
+ * Reads the IMDb id and the type from a caption. Captions that do not say
+ * movie or show are read as the default type, if there is one.
+ */
+export function parseMediaText(
+  text: string,
+  defaultType?: ParsedMediaText['type']
+): ParsedMediaText | null {
   const lower = text.trim().toLowerCase()
 
   // Match IMDb ID (starts with tt followed by digits)
@@ -8,25 +75,27 @@ export function parseMediaText(text: string): ParsedMediaText | null {
   if (!imdbMatch) return null
   const imdb = imdbMatch[0]
 
-  if (lower.includes('movie')) {
+  const type = lower.includes('movie') ? 'movie' : lower.includes('show') ? 'show' : defaultType
+
+  if (type === 'movie') {
     return {
       type: 'movie',
       imdb,
     }
   }
 
-  if (lower.includes('show')) {
-    // Flexible season & episode match
-    const seasonEpisodeShorthand = lower.match(/s(\d+)\s*e(\d+)/i)
+  if (type === 'show') {
+    // Flexible season & episode match, with optional ranges like s01e01-e02 or episode: 1-2
+    const seasonEpisodeShorthand = lower.match(/s(\d+)\s*e(\d+)(?:\s*(?:-\s*e?|e)(\d{1,3})\b)?/i)
     const seasonMatch = lower.match(/season[:\s]*(\d+)/i)
-    const episodeMatch = lower.match(/episode[:\s]*(\d+)/i)
+    const episodeMatch = lower.match(/episode[:\s]*(\d+)(?:\s*-\s*(\d{1,3})\b)?/i)
 
     if (seasonEpisodeShorthand) {
       return {
         type: 'show',
         imdb,
         season: Number(seasonEpisodeShorthand[1]),
-        episode: Number(seasonEpisodeShorthand[2]),
+        ...episodeRange(seasonEpisodeShorthand[2], seasonEpisodeShorthand[3]),
       }
     }
 
@@ -35,10 +104,276 @@ export function parseMediaText(text: string): ParsedMediaText | null {
         type: 'show',
         imdb,
         season: Number(seasonMatch[1]),
-        episode: Number(episodeMatch[1]),
+        ...episodeRange(episodeMatch[1], episodeMatch[2]),
+      }
+    }
+
+    // Without a season the episode is an absolute number, like E137, episode: 137 or - 137
+    const absoluteMatch =
+      lower.match(/\be(\d{1,4})(?:\s*-\s*e?(\d{1,4}))?\b/i) ??
+      episodeMatch ??
+      lower.match(DASHED_EPISODE_PATTERN)
+    if (absoluteMatch) {
+      return {
+        type: 'show',
+        imdb,
+        season: null,
+        ...episodeRange(absoluteMatch[1], absoluteMatch[2]),
       }
     }
   }
 
   return null
 }
+
+/**
+ * Tokens that mark the end of the title part of a scene/p2p style release name
+ */
+const RELEASE_TAG_PATTERN =
+  /\b(480p|576p|720p|1080[pi]|2160p|4k|uhd|hdr10?|dv|blu-?ray|bdrip|brrip|remux|web-?dl|web-?rip|web|hdtv|dvdrip|hdrip|x264|x265|h\.?264|h\.?265|hevc|avc|aac|ac3|ddp?5\.1|proper|repack|extended|unrated|remastered)\b/i
+
+const VIDEO_EXTENSION_PATTERN = /\.(mkv|mp4|m4v|avi|mov|wmv|webm|ts|m2ts)$/i
+
+export function parseReleaseName(fileName: string): ParsedReleaseName | null {
+  const name = fileName
+    .trim()
+    .replace(VIDEO_EXTENSION_PATTERN, '')
+    // Drop leading group tags like "[Group] "
+    .replace(/^\[[^\]]*\]\s*/, '')
+    .replace(/[._]+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+  if (!name) return null
+
+  // Show.Name.S02E05 or Show.Name.2x05, ranges like S02E05-E06, S02E05E06 or 2x05-06
+  const episodeMatch =
+    name.match(/\bs(\d{1,2})\s?e(\d{1,3})(?:-?e(\d{1,3})|-(\d{1,3}))?\b/i) ||
+    name.match(/\b(\d{1,2})x(\d{2,3})(?:-(?:\d{1,2}x)?(\d{2,3}))?\b/i)
+  if (episodeMatch && episodeMatch.index !== undefined) {
+    const { title, year } = splitTitleYear(name.slice(0, episodeMatch.index))
+    if (!title) return null
+    return {
+      type: 'show',
+      title,
+      year,
+      season: Number(episodeMatch[1]),
+      ...episodeRange(episodeMatch[2], episodeMatch[3] ?? episodeMatch[4]),
+    }
+  }
+
+  // Anime releases count episodes from the start, like `Show - 137 (1080p)` or `Show.E137`
+  const absoluteMatch =
+    name.match(DASHED_EPISODE_PATTERN) || name.match(/\be(\d{2,4})(?:-e?(\d{2,4}))?\b/i)
+  if (absoluteMatch && absoluteMatch.index) {
+    const { title, year } = splitTitleYear(name.slice(0, absoluteMatch.index))
+    if (title) {
+      return {
+        type: 'show',
+        title,
+        year,
+        season: null,
+        ...episodeRange(absoluteMatch[1], absoluteMatch[2]),
+      }
+    }
+  }
+
+  // Show.Name.S01.1080p holds a whole season without episode numbers to link it to
+  if (/\b(?:s|season\s?)\d{1,2}\b/i.test(name)) return null
+
+  // Movie.Title.2019.2160p - the last year wins, so titles like "2001 A Space Odyssey 1968" work
+  const yearMatches = [...name.matchAll(/\(?\b(19\d{2}|20\d{2})\b\)?/g)].filter(
+    (match) => match.index! > 0
+  )
+  const yearMatch = yearMatches.at(-1)
+  if (yearMatch) {
+    const title = cleanTitle(name.slice(0, yearMatch.index))
+    if (!title) return null
+    return { type: 'movie', title, year: Number(yearMatch[1]) }
+  }
+
+  // Without a year we need at least one release tag to know where the title ends
+  const tagMatch = name.match(RELEASE_TAG_PATTERN)
+  if (tagMatch && tagMatch.index) {
+    const title = cleanTitle(name.slice(0, tagMatch.index))
+    if (!title) return null
+    return { type: 'movie', title, year: null }
+  }
+
+  return null
+}
+
+const RESOLUTIONS: [RegExp, string][] = [
+  [/\b(2160p|4k|uhd)\b/i, '2160p'],
+  [/\b1080[pi]\b/i, '1080p'],
+  [/\b720p\b/i, '720p'],
+  [/\b576p\b/i, '576p'],
+  [/\b480p\b/i, '480p'],
+]
+
+const CODECS: [RegExp, string][] = [
+  [/\b(x265|h\.?265|hevc)\b/i, 'HEVC'],
+  [/\b(x264|h\.?264|avc)\b/i, 'H.264'],
+  [/\bav1\b/i, 'AV1'],
+  [/\bxvid\b/i, 'XviD'],
+]
+
+const SOURCES: [RegExp, string][] = [
+  [/\bremux\b/i, 'Remux'],
+  [/\b(blu-?ray|bdrip|brrip)\b/i, 'BluRay'],
+  [/\bweb-?dl\b/i, 'WEB-DL'],
+  [/\bweb-?rip\b/i, 'WEBRip'],
+  [/\bhdtv\b/i, 'HDTV'],
+  [/\bdvd-?rip\b/i, 'DVDRip'],
+]
+
+const EDITIONS: [RegExp, string][] = [
+  [/\bextended\b/i, 'Extended'],
+  [/\bdirector'?s cut\b/i, "Director's Cut"],
+  [/\bunrated\b/i, 'Unrated'],
+  [/\btheatrical\b/i, 'Theatrical'],
+  [/\bimax\b/i, 'IMAX'],
+  [/\bremastered\b/i, 'Remastered'],
+  [/\bcriterion\b/i, 'Criterion'],
+]
+
+/**
+ * Extracts the quality tags of a release name, used to tell apart multiple
+ * files of the same movie or episode
+ */
+export function parseReleaseQuality(fileName: string): ReleaseQuality {
+  const name = fileName.replace(/[._]+/g, ' ')
+  const find = (patterns: [RegExp, string][]) =>
+    patterns.find(([pattern]) => pattern.test(name))?.[1] ?? null
+
+  return {
+    resolution: find(RESOLUTIONS),
+    codec: find(CODECS),
+    source: find(SOURCES),
+    edition: find(EDITIONS),
+  }
+}
+
+/**
+ * Ranges only count when they go forward, `lastEpisode` is left out otherwise
+ */
+function episodeRange(first: string, last: string | undefined) {
+  const episode = Number(first)
+  const lastEpisode = Number(last)
+  return lastEpisode > episode ? { episode, lastEpisode } : { episode }
+}
+
+function splitTitleYear(text: string): { title: string; year: number | null } {
+  const yearMatch = text.match(/\(?\b(19\d{2}|20\d{2})\b\)?\s*$/)
+  if (yearMatch && yearMatch.index) {
+    return { title: cleanTitle(text.slice(0, yearMatch.index)), year: Number(yearMatch[1]) }
+  }
+  return { title: cleanTitle(text), year: null }
+}
+
+function cleanTitle(text: string) {
+  return text
+    .replace(/[\s\-([]+$/, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+/**
+ * Finds the part number of split archives like `Movie.2019.mkv.002`. The group
+ * is the file name without the part suffix, it is the same for every part of
+ * the file. Markers like `part2` or `CD2` are common in titles as well, so they
+ * only make the group when the caption names the part.
+ */
+export function parseFilePart(
+  fileName: string,
+  captionPart?: number
+): { number: number; group: string } | null {
+  const split = fileName.match(/^(.+)\.(\d{3})$/)
+  if (split && Number(split[2]) > 0) {
+    return { number: captionPart ?? Number(split[2]), group: split[1] }
+  }
+  if (!captionPart) return null
+
+  const marker = fileName.match(
+    /[\s._-]+(?:part|pt|cd|disc)[\s._-]?(\d{1,2})(?:[\s._-]?of[\s._-]?\d{1,2})?(?=[\s._-]|$)/i
+  )
+  const group = marker
+    ? fileName.slice(0, marker.index) + fileName.slice(marker.index! + marker[0].length)
+    : fileName
+  return { number: captionPart, group }
+}
+
+/**
+ * Reads the chat and message id of a message link. Private channel links like
+ * `t.me/c/1234567890/42` carry the channel id, public ones the username.
+ */
+export function parseMessageLink(
+  link: string
+): { chatId: number | string; messageId: number } | null {
+  const match = link
+    .trim()
+    .match(
+      /^(?:https?:\/\/)?(?:www\.)?t(?:elegram)?\.me\/(c\/\d+|[a-z]\w{3,})(?:\/\d+)?\/(\d+)\/?$/i
+    )
+  if (!match) return null
+  const chatId = match[1].startsWith('c/') ? Number(`-100${match[1].slice(2)}`) : match[1]
+  return { chatId, messageId: Number(match[2]) }
+}
+
+/**
+ * Narrow a message to an upload the ingest pipeline handles
+ */
+export function asMediaMessage(message: Message | null): MediaMessage | null {
+  const type = message?.media?.type
+  if (type !== 'document' && type !== 'video' && type !== 'audio') return null
+  return message as MediaMessage
+}
+
+const MIN_PART_SIZE = 4 * 1024
+const MAX_PART_SIZE = 512 * 1024
+
+/**
+ * Download a byte range of a file. Telegram serves parts of 4KB to 512KB that
+ * cannot cross a 1MB boundary, so the range is read in the largest power of two
+ * parts aligned to their own size and trimmed afterwards. The download ends at
+ * the range, mtcute stops at `fileSize` and is aborted once the range is read.
+ */
+export async function downloadRange(
+  client: TelegramClient,
+  location: string,
+  offset: number,
+  length: number,
+  signal?: AbortSignal
+): Promise<Buffer> {
+  signal?.throwIfAborted()
+  const end = offset + length
+  const start = Math.floor(offset / MIN_PART_SIZE) * MIN_PART_SIZE
+  let partSize = MAX_PART_SIZE
+  while (partSize > MIN_PART_SIZE && (start % partSize !== 0 || partSize / 2 >= end - start)) {
+    partSize /= 2
+  }
+
+  const controller = new AbortController()
+  const abort = () => controller.abort(signal!.reason)
+  signal?.addEventListener('abort', abort, { once: true })
+  const parts: Uint8Array[] = []
+  let received = 0
+  try {
+    const download = client.downloadAsIterable(location, {
+      offset: start,
+      fileSize: Math.ceil(end / partSize) * partSize,
+      partSize: partSize / 1024,
+      abortSignal: controller.signal,
+    })
+    for await (const part of download) {
+      parts.push(part)
+      received += part.length
+      if (start + received >= end) break
+    }
+  } finally {
+    signal?.removeEventListener('abort', abort)
+    controller.abort()
+  }
+
+  const data = Buffer.concat(parts)
+  return data.subarray(offset - start, end - start)
+}
@@ -0,0 +1,35 @@
+import vine, { SimpleMessagesProvider } from '@vinejs/vine'
+
+export const captionValidator = vine.compile(
+  vine.object({
+    type: vine.enum(['movie', 'show'] as const).optional(),
+    imdb: vine
+      .string()
+      .trim()
+      .toLowerCase()
+      .regex(/^tt\d{5,}$/)
+      .optional(),
+    tmdb: vine.number().positive().withoutDecimals().optional(),
+    season: vine.number().min(0).withoutDecimals().optional(),
+    episode: vine
+      .string()
+      .trim()
+      .regex(/^\d{1,4}(\s*-\s*\d{1,4})?$/)
+      .optional(),
+    edition: vine.string().trim().maxLength(64).optional(),
+    language: vine.string().trim().optional(),
+    quality: vine.string().trim().maxLength(64).optional(),
+    part: vine
+      .string()
+      .trim()
+      .regex(/^\d{1,3}(\s*(\/|of)\s*\d{1,3})?$/i)
+      .optional(),
+  })
+)
+
+captionValidator.messagesProvider = new SimpleMessagesProvider({
+  'imdb.regex': 'The imdb field must be an IMDb id like tt0111161',
+  'episode.regex': 'The episode field must be a number or a range like 1-2',
+  'part.regex': 'The part field must be a number or like 1/2',
+  'enum': 'The {{ field }} field must be one of {{ choices }}',
+})
@@ -0,0 +1,27 @@
+import vine from '@vinejs/vine'
+
+const channelRules = {
+  title: vine.string().trim().maxLength(255).nullable().optional(),
+  defaultType: vine
+    .enum(['movie', 'show'] as const)
+    .nullable()
+    .optional(),
+  captionFormat: vine.enum(['caption', 'filename'] as const).optional(),
+  language: vine
+    .string()
+    .trim()
+    .toLowerCase()
+    .regex(/^[a-z]{2}$/)
+    .nullable()
+    .optional(),
+  autoImport: vine.boolean().optional(),
+}
+
+export const createIngestChannelValidator = vine.compile(
+  vine.object({
+    chatId: vine.number().withoutDecimals(),
+    ...channelRules,
+  })
+)
+
+export const updateIngestChannelValidator = vine.compile(vine.object(channelRules))
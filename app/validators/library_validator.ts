@@ -0,0 +1,31 @@
+import vine from '@vinejs/vine'
+
+const idRules = {
+  imdb: vine
+    .string()
+    .trim()
+    .toLowerCase()
+    .regex(/^tt\d{5,}$/)
+    .optional()
+    .requiredIfMissing('tmdb'),
+  tmdb: vine.number().positive().withoutDecimals().optional(),
+}
+
+const episodeRules = {
+  season: vine.number().min(0).withoutDecimals().optional(),
+  episode: vine.number().positive().withoutDecimals().optional(),
+  lastEpisode: vine.number().positive().withoutDecimals().optional(),
+}
+
+export const rematchMovieValidator = vine.compile(vine.object(idRules))
+
+export const rematchEpisodeValidator = vine.compile(vine.object({ ...idRules, ...episodeRules }))
+
+export const importMessageValidator = vine.compile(
+  vine.object({
+    link: vine.string().trim(),
+    type: vine.enum(['movie', 'show'] as const),
+    ...idRules,
+    ...episodeRules,
+  })
+)
@@ -0,0 +1,10 @@
+import vine from '@vinejs/vine'
+
+export const musicPaginateValidator = vine.compile(
+  vine.object({
+    search: vine.string().optional(),
+    page: vine.number().positive().withoutDecimals().optional(),
+    limit: vine.number().positive().withoutDecimals().optional(),
+    order: vine.enum(['asc', 'desc']).optional(),
+  })
+)
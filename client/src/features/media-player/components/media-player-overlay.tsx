@@ -301,14 +301,23 @@ export function MediaPlayerOverlay() {
           <div className="flex items-center space-x-2 min-w-0 flex-1">
             <div className="min-w-0 flex-1">
               <h3 className="text-white text-sm font-medium truncate">
-                {playerState.currentMedia.title}
+                {playerState.currentMedia.logo ? (
+                  <img
+                    src={playerState.currentMedia.logo}
+                    alt={playerState.currentMedia.title}
+                    className="h-5 max-w-40 object-contain object-left"
+                  />
+                ) : (
+                  playerState.currentMedia.title
+                )}
               </h3>
               {playerState.currentMedia.type === 'tv' && (
                 <p className="text-gray-400 text-xs truncate">
-                  {(playerState.currentMedia as any).seriesTitle &&
-                    `${(playerState.currentMedia as any).seriesTitle} • `}
-                  S{(playerState.currentMedia as any).seasonNumber}E
-                  {(playerState.currentMedia as any).episodeNumber}
+                  {playerState.currentMedia.seriesTitle &&
+                    `${playerState.currentMedia.seriesTitle} • `}
+                  S{playerState.currentMedia.seasonNumber}E{playerState.currentMedia.episodeNumber}
+                  {playerState.currentMedia.lastEpisodeNumber &&
+                    `-E${playerState.currentMedia.lastEpisodeNumber}`}
                 </p>
               )}
               {playerState.currentMedia.type === 'music' && (
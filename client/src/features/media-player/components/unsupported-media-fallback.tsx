@@ -124,8 +124,9 @@ export function UnsupportedMediaFallback({
           <h4 className="font-medium text-gray-900 dark:text-gray-100 mb-2">{media.title}</h4>
           {media.type === 'tv' && (
             <p className="text-sm text-gray-600 dark:text-gray-400">
-              {(media as any).seriesTitle && `${(media as any).seriesTitle} • `}
-              Season {(media as any).seasonNumber}, Episode {(media as any).episodeNumber}
+              {media.seriesTitle && `${media.seriesTitle} • `}
+              Season {media.seasonNumber}, Episode {media.episodeNumber}
+              {media.lastEpisodeNumber && `-${media.lastEpisodeNumber}`}
             </p>
           )}
           {media.type === 'music' && (
@@ -3,10 +3,16 @@
  * Vidstack-based video player with full controls and streaming integration
  */
 
-import { MediaPlayer, MediaProvider, Poster, type MediaPlayerInstance } from '@vidstack/react'
+import {
+  MediaPlayer,
+  MediaProvider,
+  Poster,
+  Track,
+  type MediaPlayerInstance,
+} from '@vidstack/react'
 import { DefaultVideoLayout, defaultLayoutIcons } from '@vidstack/react/player/layouts/default'
 import { useEffect, useRef, useState } from 'react'
-import { useAccessibility } from '../hooks'
+import { useAccessibility, useSubtitleTracks } from '../hooks'
 import { streamingService } from '../services'
 import { useMediaPlayerStore } from '../stores'
 import type { MediaItem, MediaPlayerErrorType, MediaSource } from '../types'
@@ -30,6 +36,9 @@ export function VideoPlayer({ media, className }: VideoPlayerProps) {
   // Accessibility features
   const { getAriaAttributes, getAccessibilityClasses } = useAccessibility(containerRef)
 
+  // Subtitle tracks, picked from the captions menu of the layout
+  const subtitleTracks = useSubtitleTracks(media)
+
   // Store actions and state
   const {
     playerState,
@@ -56,7 +65,7 @@ export function VideoPlayer({ media, className }: VideoPlayerProps) {
 
         // Use retry manager for loading media source
         const result = await retryManager.current.executeWithRetry('STREAM_URL_FETCH', () =>
-          streamingService.getStreamingUrl(media.id, media.type)
+          streamingService.getStreamingUrl(media.id, media.type, media.metadata?.fileId)
         )
 
         if (!isCancelled) {
@@ -80,7 +89,7 @@ export function VideoPlayer({ media, className }: VideoPlayerProps) {
     return () => {
       isCancelled = true
       // Cleanup streaming session when component unmounts or media changes
-      streamingService.cleanupSession(media.id, media.type)
+      streamingService.cleanupSession(media.id, media.type, media.metadata?.fileId)
     }
   }, [media, setIsLoading, setStoreError])
 
@@ -329,6 +338,16 @@ export function VideoPlayer({ media, className }: VideoPlayerProps) {
           {media.thumbnail && (
             <Poster className="vds-poster" src={media.thumbnail} alt={`${media.title} poster`} />
           )}
+          {subtitleTracks.map((track) => (
+            <Track
+              key={track.id}
+              src={track.url}
+              kind="subtitles"
+              type="vtt"
+              label={track.label}
+              language={track.language}
+            />
+          ))}
         </MediaProvider>
 
         <DefaultVideoLayout
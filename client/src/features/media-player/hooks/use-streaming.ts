@@ -1,10 +1,14 @@
 /**
- * React hook for managing media streaming
- * Provides easy access to streaming service functionality
+ * React hooks for managing media streaming
+ * Provides easy access to streaming service functionality and the subtitle
+ * tracks of the playing media
  */
 
-import { useCallback, useEffect, useRef } from 'react'
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { apiClient } from '@/lib/api-client'
+import type { components } from '@/lib/api/v1'
 import { StreamingError, streamingService } from '../services/streaming-service'
+import type { MediaItem } from '../types'
 import type { MediaType } from '../types/media-player-types'
 import type { MediaSource } from '../types/streaming-types'
 
@@ -140,3 +144,61 @@ export function useMediaStreamingUrl(
     loadStreamingUrl,
   }
 }
+
+/**
+ * Subtitle tracks of the playing movie or episode
+ */
+export type SubtitleTrack = components['schemas']['SubtitleTrack']
+
+async function fetchSubtitleTracks(media: MediaItem): Promise<SubtitleTrack[]> {
+  if (media.type === 'movie') {
+    const { data } = await apiClient.GET('/movies/{id}/subtitles', {
+      params: { path: { id: media.id } },
+    })
+    return data ?? []
+  }
+
+  const showId = media.metadata?.showId
+  if (media.type === 'tv' && showId && media.seasonNumber !== undefined && media.episodeNumber) {
+    const { data } = await apiClient.GET(
+      '/tvs/{tvId}/seasons/{seasonNumber}/episodes/{episodeNumber}/subtitles',
+      {
+        params: {
+          path: {
+            tvId: showId,
+            seasonNumber: media.seasonNumber,
+            episodeNumber: media.episodeNumber,
+          },
+        },
+      }
+    )
+    return data ?? []
+  }
+
+  return []
+}
+
+/**
+ * Subtitles are optional, so a failed request just leaves the player without tracks
+ */
+export function useSubtitleTracks(media: MediaItem | null): SubtitleTrack[] {
+  const [tracks, setTracks] = useState<SubtitleTrack[]>([])
+
+  useEffect(() => {
+    let isCancelled = false
+    setTracks([])
+    if (!media) return
+
+    fetchSubtitleTracks(media)
+      .then((result) => {
+        if (!isCancelled) setTracks(result)
+      })
+      .catch(() => {})
+
+    return () => {
+      isCancelled = true
+    }
+  }, [media])
+
+  return tracks
+}
@@ -28,8 +28,10 @@ export {
   createMovieMediaItem,
   createMovieMediaItemFromDetails,
   createMusicMediaItem,
+  createTVCombinedMediaItem,
   createTVEpisodeMediaItem,
   createTVMediaItem,
+  createTVMediaItemFromEpisodeDetails,
 } from './utils/media-item-creators'
 
 export {
@@ -12,6 +12,7 @@ import type {
   SignedUrlError,
 } from '../types'
 import type { MediaType } from '../types/media-player-types'
+import { parseTVMediaItemId } from '../utils/media-item-creators'
 import type {
   MediaSource,
   StreamingConfig,
@@ -34,8 +35,12 @@ export class StreamingService {
   /**
    * Get a streaming URL for a media item
    */
-  async getStreamingUrl(mediaId: string, mediaType: MediaType): Promise<MediaSource> {
-    const sessionKey = `${mediaType}-${mediaId}`
+  async getStreamingUrl(
+    mediaId: string,
+    mediaType: MediaType,
+    fileId?: string
+  ): Promise<MediaSource> {
+    const sessionKey = this.getSessionKey(mediaId, mediaType, fileId)
 
     try {
       // Check if we have a valid existing session
@@ -45,12 +50,13 @@ export class StreamingService {
       }
 
       // Fetch new signed URL
-      const source = await this.fetchSignedUrl(mediaId, mediaType)
+      const source = await this.fetchSignedUrl(mediaId, mediaType, fileId)
 
       // Create or update session
       const session: StreamingSession = {
         mediaId,
         mediaType,
+        fileId,
         source,
       }
 
@@ -70,8 +76,12 @@ export class StreamingService {
   /**
    * Refresh a streaming URL before it expires
    */
-  async refreshStreamingUrl(mediaId: string, mediaType: MediaType): Promise<MediaSource> {
-    const sessionKey = `${mediaType}-${mediaId}`
+  async refreshStreamingUrl(
+    mediaId: string,
+    mediaType: MediaType,
+    fileId?: string
+  ): Promise<MediaSource> {
+    const sessionKey = this.getSessionKey(mediaId, mediaType, fileId)
     const refreshStatus = this.refreshStatuses.get(sessionKey)
 
     // Prevent concurrent refresh attempts
@@ -93,7 +103,7 @@ export class StreamingService {
     this.setRefreshStatus(sessionKey, { isRefreshing: true })
 
     try {
-      const source = await this.fetchSignedUrlWithRetry(mediaId, mediaType)
+      const source = await this.fetchSignedUrlWithRetry(mediaId, mediaType, fileId)
 
       // Update session
       const session = this.sessions.get(sessionKey)
@@ -127,8 +137,8 @@ export class StreamingService {
   /**
    * Clean up a streaming session
    */
-  cleanupSession(mediaId: string, mediaType: MediaType): void {
-    const sessionKey = `${mediaType}-${mediaId}`
+  cleanupSession(mediaId: string, mediaType: MediaType, fileId?: string): void {
+    const sessionKey = this.getSessionKey(mediaId, mediaType, fileId)
     const session = this.sessions.get(sessionKey)
 
     if (session?.refreshTimer) {
@@ -154,6 +164,13 @@ export class StreamingService {
     this.refreshStatuses.clear()
   }
 
+  /**
+   * Sessions are tracked per file version, so switching versions gets a fresh URL
+   */
+  private getSessionKey(mediaId: string, mediaType: MediaType, fileId?: string): string {
+    return fileId ? `${mediaType}-${mediaId}-${fileId}` : `${mediaType}-${mediaId}`
+  }
+
   /**
    * Check if a URL is still valid (not expired)
    */
@@ -166,25 +183,44 @@ export class StreamingService {
   /**
    * Fetch signed URL from the backend API
    */
-  private async fetchSignedUrl(mediaId: string, mediaType: MediaType): Promise<MediaSource> {
-    // Currently only movies are supported, but this can be extended
-    if (mediaType !== 'movie') {
+  private async fetchSignedUrl(
+    mediaId: string,
+    mediaType: MediaType,
+    fileId?: string
+  ): Promise<MediaSource> {
+    const episode = mediaType === 'tv' ? parseTVMediaItemId(mediaId) : null
+    if (mediaType === 'tv' && !episode) {
       const error: MediaFormatError = {
         id: `unsupported-media-${Date.now()}`,
         category: 'media_format',
         severity: 'high',
-        message: `Media type ${mediaType} is not yet supported`,
+        message: `TV item ${mediaId} is not an episode`,
         timestamp: Date.now(),
         recoverable: false,
         retryable: false,
-        supportedFormats: ['movie'],
+        supportedFormats: ['movie', 'tv', 'music'],
       }
       throw error
     }
 
-    const response = await apiClient.GET('/movies/{id}/stream-url', {
-      params: { path: { id: mediaId } },
-    })
+    const query = fileId ? { file: fileId } : undefined
+    const endpoint = episode
+      ? `/tvs/${episode.tvId}/seasons/${episode.seasonNumber}/episodes/${episode.episodeNumber}/stream-url`
+      : mediaType === 'music'
+        ? `/music/tracks/${mediaId}/stream-url`
+        : `/movies/${mediaId}/stream-url`
+    const response = episode
+      ? await apiClient.GET(
+          '/tvs/{tvId}/seasons/{seasonNumber}/episodes/{episodeNumber}/stream-url',
+          { params: { path: episode, query } }
+        )
+      : mediaType === 'music'
+        ? await apiClient.GET('/music/tracks/{id}/stream-url', {
+            params: { path: { id: mediaId } },
+          })
+        : await apiClient.GET('/movies/{id}/stream-url', {
+            params: { path: { id: mediaId }, query },
+          })
 
     if (response.error) {
       if (response.response.status === 401) {
@@ -211,7 +247,7 @@ export class StreamingService {
         recoverable: true,
         retryable: true,
         statusCode: response.response.status,
-        endpoint: `/movies/${mediaId}/stream-url`,
+        endpoint,
       }
       throw networkError
     }
@@ -224,6 +260,7 @@ export class StreamingService {
       expiresAt: data.expiresAt,
       size: data.size,
       filename: data.filename,
+      fileId: data.fileId,
     }
   }
 
@@ -233,10 +270,11 @@ export class StreamingService {
   private async fetchSignedUrlWithRetry(
     mediaId: string,
     mediaType: MediaType,
+    fileId?: string,
     attempt: number = 1
   ): Promise<MediaSource> {
     try {
-      return await this.fetchSignedUrl(mediaId, mediaType)
+      return await this.fetchSignedUrl(mediaId, mediaType, fileId)
     } catch (error) {
       if (attempt >= this.config.maxRetries) {
         throw error
@@ -246,7 +284,7 @@ export class StreamingService {
       const delay = this.config.retryDelay * Math.pow(2, attempt - 1)
       await this.sleep(delay)
 
-      return this.fetchSignedUrlWithRetry(mediaId, mediaType, attempt + 1)
+      return this.fetchSignedUrlWithRetry(mediaId, mediaType, fileId, attempt + 1)
     }
   }
 
@@ -271,7 +309,7 @@ export class StreamingService {
     // Schedule refresh
     session.refreshTimer = setTimeout(async () => {
       try {
-        await this.refreshStreamingUrl(session.mediaId, session.mediaType)
+        await this.refreshStreamingUrl(session.mediaId, session.mediaType, session.fileId)
       } catch (error) {
         console.error('Automatic URL refresh failed:', error)
         // Could emit an event here for the UI to handle
@@ -310,8 +348,12 @@ export class StreamingService {
   /**
    * Get refresh status for a session (useful for debugging/monitoring)
    */
-  getRefreshStatus(mediaId: string, mediaType: MediaType): UrlRefreshStatus | null {
-    const sessionKey = `${mediaType}-${mediaId}`
+  getRefreshStatus(
+    mediaId: string,
+    mediaType: MediaType,
+    fileId?: string
+  ): UrlRefreshStatus | null {
+    const sessionKey = this.getSessionKey(mediaId, mediaType, fileId)
     return this.refreshStatuses.get(sessionKey) || null
   }
 
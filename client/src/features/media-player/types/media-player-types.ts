@@ -13,6 +13,8 @@ export interface BaseMediaItem {
   title: string
   duration?: number
   thumbnail?: string
+  // Title logo shown instead of the plain title
+  logo?: string
   metadata?: Record<string, any>
 }
 
@@ -27,6 +29,8 @@ export interface TVMediaItem extends BaseMediaItem {
   type: 'tv'
   seasonNumber?: number
   episodeNumber?: number
+  // Set when one file holds several episodes, like a double-length finale
+  lastEpisodeNumber?: number
   seriesTitle?: string
 }
 
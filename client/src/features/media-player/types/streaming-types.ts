@@ -7,6 +7,7 @@
 export interface StreamUrlResponse {
   streamUrl: string
   expiresAt: number
+  fileId: string
   size: number
   filename: string
   mimeType: string
@@ -20,12 +21,14 @@ export interface MediaSource {
   expiresAt: number
   size: number
   filename: string
+  fileId: string
 }
 
 // Streaming session management
 export interface StreamingSession {
   mediaId: string
   mediaType: import('./media-player-types').MediaType
+  fileId?: string // Specific file version, the backend picks one when omitted
   source: MediaSource
   refreshTimer?: NodeJS.Timeout
   player?: any // Will be typed more specifically when player is implemented
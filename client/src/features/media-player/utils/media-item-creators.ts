@@ -3,7 +3,7 @@
  * Functions to create MediaItem objects from different data sources
  */
 
-import type { components } from '@/lib/api/v1'
+import type { components, paths } from '@/lib/api/v1'
 import type {
   MediaItem,
   MovieMediaItem,
@@ -13,6 +13,8 @@ import type {
 
 // Type aliases for API data structures
 type MovieInfo = components['schemas']['MovieInfo']
+type EpisodeDetails =
+  paths['/tvs/{tvId}/seasons/{seasonNumber}/episodes/{episodeNumber}']['get']['responses'][200]['content']['application/json']
 
 // Interface for movie data from the movies list endpoint
 interface MovieListItem {
@@ -158,6 +160,85 @@ export function createTVEpisodeMediaItem(
   return createTVMediaItem(tvData, episodeData, tvData.title)
 }
 
+/**
+ * Creates a combined TVMediaItem for episodes sharing one file
+ * Used for double episodes and ranges like S01E01-E02, played from the first episode
+ */
+export function createTVCombinedMediaItem(
+  tvData: TVShowData,
+  episodes: EpisodeData[]
+): TVMediaItem {
+  const [first, ...rest] = [...episodes].sort((a, b) => a.number - b.number)
+  const item = createTVMediaItem(tvData, first, tvData.title)
+  const last = rest.at(-1)
+  if (!last) return item
+
+  return {
+    ...item,
+    id: `${item.id}-e${last.number}`,
+    title: [first, ...rest].map((episode) => episode.title).join(' / '),
+    lastEpisodeNumber: last.number,
+    metadata: {
+      ...item.metadata,
+      episodeIds: [first, ...rest].map((episode) => episode.id),
+      originalData: { tvData, episodeData: first, episodes },
+    },
+  }
+}
+
+/**
+ * Reads the show, season and episode back from a TV item id
+ * Combined items play their shared file from the first episode
+ */
+export function parseTVMediaItemId(id: string) {
+  const match = id.match(/^(.+)-s(\d+)e(\d+)(?:-e\d+)?$/)
+  if (!match) return null
+
+  return {
+    tvId: match[1],
+    seasonNumber: Number(match[2]),
+    episodeNumber: Number(match[3]),
+  }
+}
+
+/**
+ * Creates a TVMediaItem from the episode details endpoint
+ * Episodes sharing a file with this one play as one combined item
+ */
+export function createTVMediaItemFromEpisodeDetails(
+  episode: EpisodeDetails,
+  seasonNumber: number
+): TVMediaItem {
+  const tvData: TVShowData = {
+    id: episode.tvShow.id,
+    title: episode.tvShow.title,
+    year: new Date(episode.airDate).getFullYear(),
+  }
+  const episodes: EpisodeData[] = episode.combined.map((ep) => ({
+    id: ep.id,
+    season: seasonNumber,
+    number: ep.episodeNumber,
+    title: ep.title,
+  }))
+
+  const item =
+    episodes.length > 1
+      ? createTVCombinedMediaItem(tvData, episodes)
+      : createTVEpisodeMediaItem(tvData, {
+          id: episode.id,
+          season: seasonNumber,
+          number: episode.episodeNumber,
+          title: episode.title,
+        })
+
+  return {
+    ...item,
+    duration: episode.runtime ? episode.runtime * 60 : item.duration,
+    thumbnail: episode.thumbnail && `https://image.tmdb.org/t/p/original${episode.thumbnail}`,
+    logo: episode.tvShow.logo && `https://image.tmdb.org/t/p/original${episode.tvShow.logo}`,
+  }
+}
+
 /**
  * Creates a MusicMediaItem from music data
  * Used when creating media items for music content (future implementation)
@@ -197,6 +278,9 @@ export function createMediaItem(data: any, type?: 'movie' | 'tv' | 'music'): Med
         return createMovieMediaItem(data as MovieListItem)
 
       case 'tv':
+        if (data.episodes?.length > 1) {
+          return createTVCombinedMediaItem(data.tvData, data.episodes)
+        }
         return createTVMediaItem(data.tvData || data, data.episodeData)
 
       case 'music':
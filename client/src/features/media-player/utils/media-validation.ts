@@ -66,6 +66,10 @@ export function validateBaseMediaItem(item: any): item is MediaItem {
     )
   }
 
+  if (item.logo !== undefined && (typeof item.logo !== 'string' || item.logo.trim() === '')) {
+    throw new MediaValidationError('Logo must be a non-empty string', 'logo', item.logo)
+  }
+
   return true
 }
 
@@ -156,6 +160,19 @@ export function validateTVMediaItem(item: any): item is TVMediaItem {
     )
   }
 
+  if (
+    item.lastEpisodeNumber !== undefined &&
+    (typeof item.lastEpisodeNumber !== 'number' ||
+      item.episodeNumber === undefined ||
+      item.lastEpisodeNumber < item.episodeNumber)
+  ) {
+    throw new MediaValidationError(
+      'Last episode number must not be lower than the episode number',
+      'lastEpisodeNumber',
+      item.lastEpisodeNumber
+    )
+  }
+
   // If episode number is provided, season number should also be provided
   if (item.episodeNumber !== undefined && item.seasonNumber === undefined) {
     throw new MediaValidationError('Season number is required when episode number is provided')
@@ -317,6 +334,10 @@ export function sanitizeMediaItem(item: any): MediaItem | null {
       cleanItem.thumbnail = item.thumbnail.trim()
     }
 
+    if (typeof item.logo === 'string' && validateImageUrl(item.logo)) {
+      cleanItem.logo = item.logo.trim()
+    }
+
     if (item.metadata && typeof item.metadata === 'object') {
       cleanItem.metadata = item.metadata
     }
@@ -341,6 +362,9 @@ export function sanitizeMediaItem(item: any): MediaItem | null {
         if (typeof item.episodeNumber === 'number' && item.episodeNumber >= 0) {
           cleanItem.episodeNumber = item.episodeNumber
         }
+        if (typeof item.lastEpisodeNumber === 'number' && item.lastEpisodeNumber >= 0) {
+          cleanItem.lastEpisodeNumber = item.lastEpisodeNumber
+        }
         if (typeof item.seriesTitle === 'string' && item.seriesTitle.trim() !== '') {
           cleanItem.seriesTitle = item.seriesTitle.trim()
         }
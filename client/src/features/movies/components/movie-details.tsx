@@ -17,6 +17,7 @@ import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
 import { Skeleton } from '@/components/ui/skeleton'
 import { createMovieMediaItemFromDetails, useMediaPlayer } from '@/features/media-player'
+import { VersionPicker } from '@/features/movies/components/version-picker'
 import { apiQuery } from '@/lib/api-client'
 
 interface MovieDetailsProps {
@@ -28,6 +29,7 @@ export const MovieDetails = memo(function MovieDetails({ id }: MovieDetailsProps
   const mediaPlayer = useMediaPlayer()
   const [isPlaybackLoading, setIsPlaybackLoading] = useState(false)
   const [playbackError, setPlaybackError] = useState<string | null>(null)
+  const [selectedFileId, setSelectedFileId] = useState<string | null>(null)
 
   // Fetch movie info using the correct endpoint
   const {
@@ -45,6 +47,26 @@ export const MovieDetails = memo(function MovieDetails({ id }: MovieDetailsProps
     refetchOnWindowFocus: false,
   })
 
+  // Available file versions (qualities/editions) of the movie
+  const { data: files } = apiQuery.useQuery('get', '/movies/{id}/files', {
+    params: {
+      path: { id },
+    },
+    queryKey: ['movies', 'files', id],
+    refetchOnWindowFocus: false,
+  })
+
+  // Title logos and extra backgrounds from fanart.tv and TMDB
+  const { data: artwork } = apiQuery.useQuery('get', '/movies/{id}/artwork', {
+    params: {
+      path: { id },
+    },
+    queryKey: ['movies', 'artwork', id],
+    staleTime: 24 * 60 * 60 * 1000, // 24 hours
+    refetchOnWindowFocus: false,
+  })
+  const logoUrl = artwork?.logos[0]?.url
+
   const handleRetry = useCallback(() => {
     refetch()
   }, [refetch])
@@ -64,6 +86,11 @@ export const MovieDetails = memo(function MovieDetails({ id }: MovieDetailsProps
       const movieMediaItem = createMovieMediaItemFromDetails(movieData)
       // Override the ID with the correct database ID from the route
       movieMediaItem.id = id
+      movieMediaItem.logo = logoUrl
+      // Play the picked version, the backend falls back to the first one otherwise
+      if (selectedFileId) {
+        movieMediaItem.metadata = { ...movieMediaItem.metadata, fileId: selectedFileId }
+      }
 
       console.log('Created media item:', movieMediaItem)
 
@@ -77,7 +104,7 @@ export const MovieDetails = memo(function MovieDetails({ id }: MovieDetailsProps
     } finally {
       setIsPlaybackLoading(false)
     }
-  }, [movieData, mediaPlayer, id])
+  }, [movieData, mediaPlayer, id, selectedFileId, logoUrl])
 
   // Clear playback error when movie data changes
   useCallback(() => {
@@ -127,7 +154,7 @@ export const MovieDetails = memo(function MovieDetails({ id }: MovieDetailsProps
   // Get backdrop image URL
   const backdropUrl = movieData.backdrop_path
     ? `https://image.tmdb.org/t/p/original${movieData.backdrop_path}`
-    : null
+    : (artwork?.backgrounds[0]?.url ?? null)
 
   // Get poster image URL
   const posterUrl = movieData.poster_path
@@ -162,7 +189,15 @@ export const MovieDetails = memo(function MovieDetails({ id }: MovieDetailsProps
                 {/* Movie Title */}
                 <div className="space-y-4">
                   <h1 className="text-5xl md:text-6xl lg:text-7xl font-black text-white drop-shadow-2xl leading-tight">
-                    {movieData.title}
+                    {logoUrl ? (
+                      <img
+                        src={logoUrl}
+                        alt={movieData.title}
+                        className="max-h-40 max-w-full md:max-w-xl object-contain object-left"
+                      />
+                    ) : (
+                      movieData.title
+                    )}
                   </h1>
 
                   {/* Tagline */}
@@ -230,6 +265,13 @@ export const MovieDetails = memo(function MovieDetails({ id }: MovieDetailsProps
                     <Play className="w-5 h-5 mr-2 fill-current" />
                     {isPlaybackLoading ? 'Loading...' : 'Play'}
                   </Button>
+                  {files && files.length > 1 && (
+                    <VersionPicker
+                      files={files}
+                      selectedFileId={selectedFileId}
+                      onSelect={setSelectedFileId}
+                    />
+                  )}
                   <Button
                     size="lg"
                     variant="outline"
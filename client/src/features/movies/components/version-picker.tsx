@@ -0,0 +1,59 @@
+import { ChevronDownIcon, Layers } from 'lucide-react'
+
+import { Button } from '@/components/ui/button'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import type { components } from '@/lib/api/v1'
+
+type MediaFile = components['schemas']['MediaFile']
+
+interface VersionPickerProps {
+  files: MediaFile[]
+  selectedFileId: string | null
+  onSelect: (fileId: string) => void
+}
+
+/**
+ * Human readable label for a file version, e.g. "2160p BluRay HEVC · Extended · 24.1 GB"
+ */
+export function formatVersionLabel(file: MediaFile) {
+  const quality = [file.resolution, file.source, file.codec].filter(Boolean).join(' ')
+  const size = `${(file.metadata.size / 1024 ** 3).toFixed(1)} GB`
+  return [quality || file.metadata.filename, file.edition, size].filter(Boolean).join(' · ')
+}
+
+export function VersionPicker({ files, selectedFileId, onSelect }: VersionPickerProps) {
+  const selected = files.find((file) => file.id === selectedFileId) ?? files[0]
+  if (!selected) return null
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          size="lg"
+          variant="outline"
+          className="border-white/30 text-white hover:bg-white/10 font-semibold px-6 py-3 rounded-full backdrop-blur-sm"
+        >
+          <Layers className="w-5 h-5 mr-2" />
+          {formatVersionLabel(selected)}
+          <ChevronDownIcon className="ml-1 h-4 w-4" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start">
+        {files.map((file) => (
+          <DropdownMenuItem
+            key={file.id}
+            onClick={() => onSelect(file.id)}
+            className={file.id === selected.id ? 'bg-accent' : ''}
+          >
+            {formatVersionLabel(file)}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
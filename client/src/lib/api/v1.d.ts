@@ -6398,6 +6398,164 @@ export interface paths {
     patch?: never
     trace?: never
   }
+  '/movies/{id}/artwork': {
+    parameters: {
+      query?: never
+      header?: never
+      path?: never
+      cookie?: never
+    }
+    /** Movie Artwork */
+    get: {
+      parameters: {
+        query?: never
+        header?: never
+        path: {
+          /** @example sudani-from-nigeria-2018 */
+          id: string
+        }
+        cookie?: never
+      }
+      requestBody?: never
+      responses: {
+        200: {
+          headers: {
+            [name: string]: unknown
+          }
+          content: {
+            'application/json': components['schemas']['Artwork']
+          }
+        }
+        401: {
+          headers: {
+            [name: string]: unknown
+          }
+          content: {
+            'application/json': components['schemas']['UnauthorizedAccess']
+          }
+        }
+        404: {
+          headers: {
+            [name: string]: unknown
+          }
+          content: {
+            'application/json': {
+              message?: string
+            }
+          }
+        }
+      }
+    }
+    put?: never
+    post?: never
+    delete?: never
+    options?: never
+    head?: never
+    patch?: never
+    trace?: never
+  }
+  '/movies/{id}/files': {
+    parameters: {
+      query?: never
+      header?: never
+      path?: never
+      cookie?: never
+    }
+    /** Movie Files */
+    get: {
+      parameters: {
+        query?: never
+        header?: never
+        path: {
+          /** @example sudani-from-nigeria-2018 */
+          id: string
+        }
+        cookie?: never
+      }
+      requestBody?: never
+      responses: {
+        200: {
+          headers: {
+            [name: string]: unknown
+          }
+          content: {
+            'application/json': components['schemas']['MediaFile'][]
+          }
+        }
+        401: {
+          headers: {
+            [name: string]: unknown
+          }
+          content: {
+            'application/json': components['schemas']['UnauthorizedAccess']
+          }
+        }
+      }
+    }
+    put?: never
+    post?: never
+    delete?: never
+    options?: never
+    head?: never
+    patch?: never
+    trace?: never
+  }
+  '/movies/{id}/subtitles': {
+    parameters: {
+      query?: never
+      header?: never
+      path?: never
+      cookie?: never
+    }
+    /** Movie Subtitles */
+    get: {
+      parameters: {
+        query?: never
+        header?: never
+        path: {
+          /** @example sudani-from-nigeria-2018 */
+          id: string
+        }
+        cookie?: never
+      }
+      requestBody?: never
+      responses: {
+        200: {
+          headers: {
+            [name: string]: unknown
+          }
+          content: {
+            'application/json': components['schemas']['SubtitleTrack'][]
+          }
+        }
+        401: {
+          headers: {
+            [name: string]: unknown
+          }
+          content: {
+            'application/json': components['schemas']['UnauthorizedAccess']
+          }
+        }
+        404: {
+          headers: {
+            [name: string]: unknown
+          }
+          content: {
+            'application/json': {
+              message?: string
+            }
+          }
+        }
+      }
+    }
+    put?: never
+    post?: never
+    delete?: never
+    options?: never
+    head?: never
+    patch?: never
+    trace?: never
+  }
   '/movies/{id}/stream': {
     parameters: {
       query?: never
@@ -6409,12 +6567,20 @@ export interface paths {
     get: {
       parameters: {
         query?: {
+          /** @example tz4a98xxat96iws9zmbrgj3a */
+          file?: string
           /** @example 1754552483 */
           expires?: number
           /** @example 2fcac33f0da2527b8898a01e39dad03e8ace4ebca25a4533fd7ddfc05f55279e */
           signature?: string
         }
-        header?: never
+        header?: {
+          /** @description One or more byte ranges like `bytes=0-499`, `bytes=500-` or `bytes=-500`. Several ranges are answered with `multipart/byteranges` */
+          'Range'?: string
+          /** @description ETag of the copy the client has, the whole file is sent when it is outdated */
+          'If-Range'?: string
+          'If-None-Match'?: string
+        }
         path: {
           /** @example sudani-from-nigeria-2018 */
           id: string
@@ -6431,6 +6597,42 @@ export interface paths {
             'application/json': Record<string, never>
           }
         }
+        /** @description Partial content, `multipart/byteranges` for several ranges */
+        206: {
+          headers: {
+            [name: string]: unknown
+          }
+          content?: never
+        }
+        /** @description The ETag matches `If-None-Match` */
+        304: {
+          headers: {
+            [name: string]: unknown
+          }
+          content?: never
+        }
+        401: {
+          headers: {
+            [name: string]: unknown
+          }
+          content: {
+            /** @example {
+             *       "message": "Invalid or expired streaming URL"
+             *     } */
+            'application/json': components['schemas']['Message']
+          }
+        }
+        416: {
+          headers: {
+            [name: string]: unknown
+          }
+          content: {
+            /** @example {
+             *       "message": "Range not satisfiable"
+             *     } */
+            'application/json': components['schemas']['Message']
+          }
+        }
       }
     }
     put?: never
@@ -6451,7 +6653,10 @@ export interface paths {
     /** Get Stream URL */
     get: {
       parameters: {
-        query?: never
+        query?: {
+          /** @example tz4a98xxat96iws9zmbrgj3a */
+          file?: string
+        }
         header?: never
         path: {
           id: string
@@ -6466,8 +6671,9 @@ export interface paths {
           }
           content: {
             /** @example {
-             *       "streamUrl": "/api/movies/sudani-from-nigeria-2018/stream?expires=1754638719&signature=ec1ee087b1e0b0e1b7bd65c6c92766c16868022c626a40b572b0f3b7cd6ce851",
+             *       "streamUrl": "/api/movies/sudani-from-nigeria-2018/stream?file=tz4a98xxat96iws9zmbrgj3a&expires=1754638719&signature=ec1ee087b1e0b0e1b7bd65c6c92766c16868022c626a40b572b0f3b7cd6ce851",
              *       "expiresAt": 1754638719,
+             *       "fileId": "tz4a98xxat96iws9zmbrgj3a",
              *       "size": 4012473511,
              *       "filename": "Sudani from Nigeria (2018) [tmdbid-504314] - [WEB-HEVC][AAC .mp4",
              *       "mimeType": "video/mp4",
@@ -6476,9 +6682,17 @@ export interface paths {
             'application/json': {
               streamUrl: string
               expiresAt: number
+              fileId: string
               size: number
               filename: string
               mimeType: string
+              /** @enum {string} */
+              container?: 'mp4' | 'matroska' | 'webm'
+              duration?: number | null
+              video?: components['schemas']['VideoStream'] | null
+              audioTracks?: components['schemas']['AudioStream'][]
+              subtitleTracks?: components['schemas']['SubtitleStream'][]
+              chapters?: components['schemas']['Chapter'][]
               expiresIn: number
             }
           }
@@ -6571,6 +6785,7 @@ export interface paths {
               data: {
                 id?: string
                 title?: string
+                year?: number
                 firstAirDate?: string
                 lastAirDate?: string
                 popularity?: number
@@ -6637,8 +6852,8 @@ export interface paths {
         query?: never
         header?: never
         path: {
-          /** @example 37854 */
-          id: number
+          /** @example breaking-bad */
+          id: string
         }
         cookie?: never
       }
@@ -6679,6 +6894,7 @@ export interface paths {
             'application/json': {
               id: string
               title: string
+              year: number
               originalTitle: string
               overview: string
               firstAirDate: string
@@ -6688,6 +6904,8 @@ export interface paths {
               voteCount: number
               adult: boolean
               genres: string[]
+              poster: string | null
+              backdrop: string | null
               seasons: {
                 id?: string
                 title?: string
@@ -6722,6 +6940,62 @@ export interface paths {
     patch?: never
     trace?: never
   }
+  '/tvs/{id}/artwork': {
+    parameters: {
+      query?: never
+      header?: never
+      path?: never
+      cookie?: never
+    }
+    /** TV Show Artwork */
+    get: {
+      parameters: {
+        query?: never
+        header?: never
+        path: {
+          /** @example breaking-bad */
+          id: string
+        }
+        cookie?: never
+      }
+      requestBody?: never
+      responses: {
+        200: {
+          headers: {
+            [name: string]: unknown
+          }
+          content: {
+            'application/json': components['schemas']['Artwork']
+          }
+        }
+        401: {
+          headers: {
+            [name: string]: unknown
+          }
+          content: {
+            'application/json': components['schemas']['UnauthorizedAccess']
+          }
+        }
+        404: {
+          headers: {
+            [name: string]: unknown
+          }
+          content: {
+            'application/json': {
+              message?: string
+            }
+          }
+        }
+      }
+    }
+    put?: never
+    post?: never
+    delete?: never
+    options?: never
+    head?: never
+    patch?: never
+    trace?: never
+  }
   '/tvs/{tvId}/seasons/{seasonNumber}': {
     parameters: {
       query?: never
@@ -6735,8 +7009,8 @@ export interface paths {
         query?: never
         header?: never
         path: {
-          /** @example 37854 */
-          tvId: number
+          /** @example breaking-bad */
+          tvId: string
           /** @example 22 */
           seasonNumber: number
         }
@@ -6857,8 +7131,8 @@ export interface paths {
         query?: never
         header?: never
         path: {
-          /** @example 37854 */
-          tvId: number
+          /** @example breaking-bad */
+          tvId: string
           /** @example 22 */
           seasonNumber: number
           /** @example 1132 */
@@ -6944,6 +7218,12 @@ export interface paths {
               createdAt: string
               updatedAt: string
               thumbnail: string
+              /** @description Episodes sharing a file with this one, this episode included. More than one for double episodes and ranges like S01E01-E02 */
+              combined: {
+                id: string
+                episodeNumber: number
+                title: string
+              }[]
               more: string[]
               tvShow: {
                 id: string
@@ -6979,20 +7259,24 @@ export interface paths {
     patch?: never
     trace?: never
   }
-  '/tvs/{tvId}/seasons/{seasonNumber}/episodes/{episodeNumber}/stream': {
+  '/tvs/{tvId}/seasons/{seasonNumber}/episodes/{episodeNumber}/stream-url': {
     parameters: {
       query?: never
       header?: never
       path?: never
       cookie?: never
     }
-    /** Stream an Episode */
+    /** Get Episode Stream URL */
     get: {
       parameters: {
-        query?: never
+        query?: {
+          /** @example tz4a98xxat96iws9zmbrgj3a */
+          file?: string
+        }
         header?: never
         path: {
-          tvId: number
+          /** @example breaking-bad */
+          tvId: string
           seasonNumber: number
           episodeNumber: number
         }
@@ -7005,80 +7289,2006 @@ export interface paths {
             [name: string]: unknown
           }
           content: {
-            'application/json': Record<string, never>
+            /** @example {
+             *       "streamUrl": "/api/tvs/breaking-bad/seasons/1/episodes/1/stream?file=tz4a98xxat96iws9zmbrgj3a&expires=1754638719&signature=ec1ee087b1e0b0e1b7bd65c6c92766c16868022c626a40b572b0f3b7cd6ce851",
+             *       "expiresAt": 1754638719,
+             *       "fileId": "tz4a98xxat96iws9zmbrgj3a",
+             *       "size": 4012473511,
+             *       "filename": "Sudani from Nigeria (2018) [tmdbid-504314] - [WEB-HEVC][AAC .mp4",
+             *       "mimeType": "video/mp4",
+             *       "expiresIn": 3600
+             *     } */
+            'application/json': {
+              streamUrl: string
+              expiresAt: number
+              fileId: string
+              size: number
+              filename: string
+              mimeType: string
+              /** @enum {string} */
+              container?: 'mp4' | 'matroska' | 'webm'
+              duration?: number | null
+              video?: components['schemas']['VideoStream'] | null
+              audioTracks?: components['schemas']['AudioStream'][]
+              subtitleTracks?: components['schemas']['SubtitleStream'][]
+              chapters?: components['schemas']['Chapter'][]
+              expiresIn: number
+            }
+          }
+        }
+        401: {
+          headers: {
+            [name: string]: unknown
+          }
+          content: {
+            'application/json': components['schemas']['UnauthorizedAccess']
+          }
+        }
+        404: {
+          headers: {
+            [name: string]: unknown
+          }
+          content: {
+            /** @example {
+             *       "message": "Episode not found"
+             *     } */
+            'application/json': components['schemas']['Message']
+          }
+        }
+      }
+    }
+    put?: never
+    post?: never
+    delete?: never
+    options?: never
+    head?: never
+    patch?: never
+    trace?: never
+  }
+  '/tvs/{tvId}/seasons/{seasonNumber}/episodes/{episodeNumber}/stream': {
+    parameters: {
+      query?: never
+      header?: never
+      path?: never
+      cookie?: never
+    }
+    /** Stream an Episode */
+    get: {
+      parameters: {
+        query?: {
+          /** @example tz4a98xxat96iws9zmbrgj3a */
+          file?: string
+          /** @example 1754552483 */
+          expires?: number
+          /** @example 2fcac33f0da2527b8898a01e39dad03e8ace4ebca25a4533fd7ddfc05f55279e */
+          signature?: string
+        }
+        header?: {
+          /** @description One or more byte ranges like `bytes=0-499`, `bytes=500-` or `bytes=-500`. Several ranges are answered with `multipart/byteranges` */
+          'Range'?: string
+          /** @description ETag of the copy the client has, the whole file is sent when it is outdated */
+          'If-Range'?: string
+          'If-None-Match'?: string
+        }
+        path: {
+          /** @example breaking-bad */
+          tvId: string
+          seasonNumber: number
+          episodeNumber: number
+        }
+        cookie?: never
+      }
+      requestBody?: never
+      responses: {
+        200: {
+          headers: {
+            [name: string]: unknown
+          }
+          content: {
+            'application/json': Record<string, never>
+          }
+        }
+        /** @description Partial content, `multipart/byteranges` for several ranges */
+        206: {
+          headers: {
+            [name: string]: unknown
+          }
+          content?: never
+        }
+        /** @description The ETag matches `If-None-Match` */
+        304: {
+          headers: {
+            [name: string]: unknown
+          }
+          content?: never
+        }
+        401: {
+          headers: {
+            [name: string]: unknown
+          }
+          content: {
+            /** @example {
+             *       "message": "Invalid or expired streaming URL"
+             *     } */
+            'application/json': components['schemas']['Message']
+          }
+        }
+        404: {
+          headers: {
+            [name: string]: unknown
+          }
+          content: {
+            /** @example {
+             *       "message": "Episode not found"
+             *     } */
+            'application/json': components['schemas']['Message']
+          }
+        }
+        416: {
+          headers: {
+            [name: string]: unknown
+          }
+          content: {
+            /** @example {
+             *       "message": "Range not satisfiable"
+             *     } */
+            'application/json': components['schemas']['Message']
+          }
+        }
+      }
+    }
+    put?: never
+    post?: never
+    delete?: never
+    options?: never
+    head?: never
+    patch?: never
+    trace?: never
+  }
+  '/tvs/{tvId}/seasons/{seasonNumber}/episodes/{episodeNumber}/subtitles': {
+    parameters: {
+      query?: never
+      header?: never
+      path?: never
+      cookie?: never
+    }
+    /** Episode Subtitles */
+    get: {
+      parameters: {
+        query?: never
+        header?: never
+        path: {
+          /** @example breaking-bad */
+          tvId: string
+          seasonNumber: number
+          episodeNumber: number
+        }
+        cookie?: never
+      }
+      requestBody?: never
+      responses: {
+        200: {
+          headers: {
+            [name: string]: unknown
+          }
+          content: {
+            'application/json': components['schemas']['SubtitleTrack'][]
+          }
+        }
+        404: {
+          headers: {
+            [name: string]: unknown
+          }
+          content: {
+            'application/json': {
+              message?: string
+            }
+          }
+        }
+      }
+    }
+    put?: never
+    post?: never
+    delete?: never
+    options?: never
+    head?: never
+    patch?: never
+    trace?: never
+  }
+  '/subtitles/{id}': {
+    parameters: {
+      query?: never
+      header?: never
+      path?: never
+      cookie?: never
+    }
+    /** Subtitle WebVTT */
+    get: {
+      parameters: {
+        query?: {
+          /** @example 1754552483 */
+          expires?: number
+          /** @example 2fcac33f0da2527b8898a01e39dad03e8ace4ebca25a4533fd7ddfc05f55279e */
+          signature?: string
+        }
+        header?: never
+        path: {
+          id: string
+        }
+        cookie?: never
+      }
+      requestBody?: never
+      responses: {
+        200: {
+          headers: {
+            [name: string]: unknown
+          }
+          content: {
+            'text/vtt': string
+          }
+        }
+        401: {
+          headers: {
+            [name: string]: unknown
+          }
+          content: {
+            'application/json': components['schemas']['Message']
+          }
+        }
+        404: {
+          headers: {
+            [name: string]: unknown
+          }
+          content: {
+            'application/json': {
+              message?: string
+            }
+          }
+        }
+      }
+    }
+    put?: never
+    post?: never
+    delete?: never
+    options?: never
+    head?: never
+    patch?: never
+    trace?: never
+  }
+  '/auth/trakt/start': {
+    parameters: {
+      query?: never
+      header?: never
+      path?: never
+      cookie?: never
+    }
+    /** Start Trakt auth */
+    get: {
+      parameters: {
+        query?: never
+        header?: never
+        path?: never
+        cookie?: never
+      }
+      requestBody?: never
+      responses: {
+        200: {
+          headers: {
+            [name: string]: unknown
+          }
+          content: {
+            /** @example {
+             *       "device_code": "6a35e2f407029dc3ab09485ac3ec8725c14939dbe7de55fc2887ed5905e3513f",
+             *       "user_code": "73380AD5",
+             *       "verification_url": "https://trakt.tv/activate",
+             *       "expires_in": 600,
+             *       "interval": 5
+             *     } */
+            'application/json': {
+              device_code: string
+              user_code: string
+              verification_url: string
+              expires_in: number
+              interval: number
+            }
+          }
+        }
+        401: {
+          headers: {
+            [name: string]: unknown
+          }
+          content: {
+            'application/json': {
+              errors: {
+                message?: string
+              }[]
+            }
+          }
+        }
+      }
+    }
+    put?: never
+    post?: never
+    delete?: never
+    options?: never
+    head?: never
+    patch?: never
+    trace?: never
+  }
+  '/auth/trakt/poll': {
+    parameters: {
+      query?: never
+      header?: never
+      path?: never
+      cookie?: never
+    }
+    get?: never
+    put?: never
+    /** Poll Trrakt Auth */
+    post: {
+      parameters: {
+        query?: never
+        header?: never
+        path?: never
+        cookie?: never
+      }
+      requestBody?: {
+        content: {
+          /** @example {
+           *       "code": "de15eb164c9106a4fc331041292b96d78ad0965eac6eb428e1f23f321adc0c40"
+           *     } */
+          'application/json': {
+            code: string
+          }
+        }
+      }
+      responses: {
+        200: {
+          headers: {
+            [name: string]: unknown
+          }
+          content: {
+            /** @example {
+             *       "message": "Success",
+             *       "status": 200
+             *     } */
+            'application/json': {
+              message: string
+              status: number
+            }
+          }
+        }
+        400: {
+          headers: {
+            [name: string]: unknown
+          }
+          content: {
+            'application/json': {
+              status: number
+              message: string
+            }
+          }
+        }
+        409: {
+          headers: {
+            [name: string]: unknown
+          }
+          content: {
+            /** @example {
+             *       "status": 409,
+             *       "message": "Already Used – user already approved this code"
+             *     } */
+            'application/json': {
+              status: number
+              message: string
+            }
+          }
+        }
+      }
+    }
+    delete?: never
+    options?: never
+    head?: never
+    patch?: never
+    trace?: never
+  }
+  '/admin/failed-jobs': {
+    parameters: {
+      query?: never
+      header?: never
+      path?: never
+      cookie?: never
+    }
+    /** List Failed Jobs */
+    get: {
+      parameters: {
+        query?: {
+          /** @example 1 */
+          page?: number
+          /** @example 20 */
+          limit?: number
+          /** @example desc */
+          order?: 'asc' | 'desc'
+        }
+        header?: never
+        path?: never
+        cookie?: never
+      }
+      requestBody?: never
+      responses: {
+        200: {
+          headers: {
+            [name: string]: unknown
+          }
+          content: {
+            'application/json': {
+              meta: {
+                total: number
+                perPage: number
+                currentPage: number
+                lastPage: number
+                firstPage: number
+                firstPageUrl: string
+                lastPageUrl: string
+                nextPageUrl: null
+                previousPageUrl: null
+              }
+              data: components['schemas']['FailedJob'][]
+            }
+          }
+        }
+        401: {
+          headers: {
+            [name: string]: unknown
+          }
+          content: {
+            'application/json': components['schemas']['UnauthorizedAccess']
+          }
+        }
+        403: {
+          headers: {
+            [name: string]: unknown
+          }
+          content: {
+            /** @example {
+             *       "message": "Admin access required"
+             *     } */
+            'application/json': components['schemas']['Message']
+          }
+        }
+      }
+    }
+    put?: never
+    post?: never
+    delete?: never
+    options?: never
+    head?: never
+    patch?: never
+    trace?: never
+  }
+  '/admin/failed-jobs/retry': {
+    parameters: {
+      query?: never
+      header?: never
+      path?: never
+      cookie?: never
+    }
+    get?: never
+    put?: never
+    /** Retry All Failed Jobs */
+    post: {
+      parameters: {
+        query?: never
+        header?: never
+        path?: never
+        cookie?: never
+      }
+      requestBody?: never
+      responses: {
+        202: {
+          headers: {
+            [name: string]: unknown
+          }
+          content: {
+            /** @example {
+             *       "message": "3 jobs queued"
+             *     } */
+            'application/json': components['schemas']['Message']
+          }
+        }
+        401: {
+          headers: {
+            [name: string]: unknown
+          }
+          content: {
+            'application/json': components['schemas']['UnauthorizedAccess']
+          }
+        }
+        403: {
+          headers: {
+            [name: string]: unknown
+          }
+          content: {
+            /** @example {
+             *       "message": "Admin access required"
+             *     } */
+            'application/json': components['schemas']['Message']
+          }
+        }
+      }
+    }
+    delete?: never
+    options?: never
+    head?: never
+    patch?: never
+    trace?: never
+  }
+  '/admin/failed-jobs/{id}/retry': {
+    parameters: {
+      query?: never
+      header?: never
+      path?: never
+      cookie?: never
+    }
+    get?: never
+    put?: never
+    /** Retry Failed Job */
+    post: {
+      parameters: {
+        query?: never
+        header?: never
+        path: {
+          id: string
+        }
+        cookie?: never
+      }
+      requestBody?: never
+      responses: {
+        202: {
+          headers: {
+            [name: string]: unknown
+          }
+          content: {
+            /** @example {
+             *       "message": "Job queued"
+             *     } */
+            'application/json': components['schemas']['Message']
+          }
+        }
+        401: {
+          headers: {
+            [name: string]: unknown
+          }
+          content: {
+            'application/json': components['schemas']['UnauthorizedAccess']
+          }
+        }
+        403: {
+          headers: {
+            [name: string]: unknown
+          }
+          content: {
+            /** @example {
+             *       "message": "Admin access required"
+             *     } */
+            'application/json': components['schemas']['Message']
+          }
+        }
+        404: {
+          headers: {
+            [name: string]: unknown
+          }
+          content: {
+            /** @example {
+             *       "message": "Failed job not found"
+             *     } */
+            'application/json': components['schemas']['Message']
+          }
+        }
+      }
+    }
+    delete?: never
+    options?: never
+    head?: never
+    patch?: never
+    trace?: never
+  }
+  '/music/artists': {
+    parameters: {
+      query?: never
+      header?: never
+      path?: never
+      cookie?: never
+    }
+    /** List Artists */
+    get: {
+      parameters: {
+        query?: {
+          /** @example radiohead */
+          search?: string
+          /** @example 1 */
+          page?: number
+          /** @example 20 */
+          limit?: number
+          /** @example asc */
+          order?: 'asc' | 'desc'
+        }
+        header?: never
+        path?: never
+        cookie?: never
+      }
+      requestBody?: never
+      responses: {
+        200: {
+          headers: {
+            [name: string]: unknown
+          }
+          content: {
+            'application/json': {
+              meta: {
+                total: number
+                perPage: number
+                currentPage: number
+                lastPage: number
+                firstPage: number
+                firstPageUrl: string
+                lastPageUrl: string
+                nextPageUrl: null
+                previousPageUrl: null
+              }
+              data: {
+                id: string
+                name: string
+                totalTracks: number
+              }[]
+            }
+          }
+        }
+        401: {
+          headers: {
+            [name: string]: unknown
+          }
+          content: {
+            'application/json': components['schemas']['UnauthorizedAccess']
+          }
+        }
+      }
+    }
+    put?: never
+    post?: never
+    delete?: never
+    options?: never
+    head?: never
+    patch?: never
+    trace?: never
+  }
+  '/music/artists/{id}': {
+    parameters: {
+      query?: never
+      header?: never
+      path?: never
+      cookie?: never
+    }
+    /** Artist by ID */
+    get: {
+      parameters: {
+        query?: never
+        header?: never
+        path: {
+          /** @example tz4a98xxat96iws9zmbrgj3a */
+          id: string
+        }
+        cookie?: never
+      }
+      requestBody?: never
+      responses: {
+        200: {
+          headers: {
+            [name: string]: unknown
+          }
+          content: {
+            'application/json': {
+              id: string
+              name: string
+              albums: {
+                id: string
+                title: string
+                year: number | null
+                /** @description Path of the embedded cover art */
+                cover: string | null
+              }[]
+              singles: components['schemas']['Track'][]
+            }
+          }
+        }
+        401: {
+          headers: {
+            [name: string]: unknown
+          }
+          content: {
+            'application/json': components['schemas']['UnauthorizedAccess']
+          }
+        }
+        404: {
+          headers: {
+            [name: string]: unknown
+          }
+          content: {
+            'application/json': {
+              message: string
+            }
+          }
+        }
+      }
+    }
+    put?: never
+    post?: never
+    delete?: never
+    options?: never
+    head?: never
+    patch?: never
+    trace?: never
+  }
+  '/music/albums': {
+    parameters: {
+      query?: never
+      header?: never
+      path?: never
+      cookie?: never
+    }
+    /** List Albums */
+    get: {
+      parameters: {
+        query?: {
+          /** @example radiohead */
+          search?: string
+          /** @example 1 */
+          page?: number
+          /** @example 20 */
+          limit?: number
+          /** @example asc */
+          order?: 'asc' | 'desc'
+        }
+        header?: never
+        path?: never
+        cookie?: never
+      }
+      requestBody?: never
+      responses: {
+        200: {
+          headers: {
+            [name: string]: unknown
+          }
+          content: {
+            'application/json': {
+              meta: {
+                total: number
+                perPage: number
+                currentPage: number
+                lastPage: number
+                firstPage: number
+                firstPageUrl: string
+                lastPageUrl: string
+                nextPageUrl: null
+                previousPageUrl: null
+              }
+              data: components['schemas']['Album'][]
+            }
+          }
+        }
+        401: {
+          headers: {
+            [name: string]: unknown
+          }
+          content: {
+            'application/json': components['schemas']['UnauthorizedAccess']
+          }
+        }
+      }
+    }
+    put?: never
+    post?: never
+    delete?: never
+    options?: never
+    head?: never
+    patch?: never
+    trace?: never
+  }
+  '/music/albums/{id}': {
+    parameters: {
+      query?: never
+      header?: never
+      path?: never
+      cookie?: never
+    }
+    /** Album by ID */
+    get: {
+      parameters: {
+        query?: never
+        header?: never
+        path: {
+          /** @example tz4a98xxat96iws9zmbrgj3a */
+          id: string
+        }
+        cookie?: never
+      }
+      requestBody?: never
+      responses: {
+        200: {
+          headers: {
+            [name: string]: unknown
+          }
+          content: {
+            'application/json': components['schemas']['Album'] & {
+              tracks: (components['schemas']['Track'] & {
+                artist: components['schemas']['Artist']
+              })[]
+            }
+          }
+        }
+        401: {
+          headers: {
+            [name: string]: unknown
+          }
+          content: {
+            'application/json': components['schemas']['UnauthorizedAccess']
+          }
+        }
+        404: {
+          headers: {
+            [name: string]: unknown
+          }
+          content: {
+            'application/json': {
+              message: string
+            }
+          }
+        }
+      }
+    }
+    put?: never
+    post?: never
+    delete?: never
+    options?: never
+    head?: never
+    patch?: never
+    trace?: never
+  }
+  '/music/albums/{id}/cover': {
+    parameters: {
+      query?: never
+      header?: never
+      path?: never
+      cookie?: never
+    }
+    /** Album Cover */
+    get: {
+      parameters: {
+        query?: {
+          /** @example 1754552483 */
+          expires?: number
+          /** @example 2fcac33f0da2527b8898a01e39dad03e8ace4ebca25a4533fd7ddfc05f55279e */
+          signature?: string
+        }
+        header?: never
+        path: {
+          /** @example tz4a98xxat96iws9zmbrgj3a */
+          id: string
+        }
+        cookie?: never
+      }
+      requestBody?: never
+      responses: {
+        /** @description Embedded cover art of the album */
+        200: {
+          headers: {
+            [name: string]: unknown
+          }
+          content: {
+            'image/*': string
+          }
+        }
+        401: {
+          headers: {
+            [name: string]: unknown
+          }
+          content: {
+            'application/json': components['schemas']['Message']
+          }
+        }
+        404: {
+          headers: {
+            [name: string]: unknown
+          }
+          content: {
+            'application/json': {
+              message: string
+            }
+          }
+        }
+      }
+    }
+    put?: never
+    post?: never
+    delete?: never
+    options?: never
+    head?: never
+    patch?: never
+    trace?: never
+  }
+  '/music/tracks/{id}/stream-url': {
+    parameters: {
+      query?: never
+      header?: never
+      path?: never
+      cookie?: never
+    }
+    /** Get Track Stream URL */
+    get: {
+      parameters: {
+        query?: never
+        header?: never
+        path: {
+          /** @example tz4a98xxat96iws9zmbrgj3a */
+          id: string
+        }
+        cookie?: never
+      }
+      requestBody?: never
+      responses: {
+        200: {
+          headers: {
+            [name: string]: unknown
+          }
+          content: {
+            /** @example {
+             *       "streamUrl": "/api/music/tracks/tz4a98xxat96iws9zmbrgj3a/stream?expires=1754638719&signature=ec1ee087b1e0b0e1b7bd65c6c92766c16868022c626a40b572b0f3b7cd6ce851",
+             *       "expiresAt": 1754638719,
+             *       "fileId": "tz4a98xxat96iws9zmbrgj3a",
+             *       "size": 9437184,
+             *       "filename": "01 - Airbag.mp3",
+             *       "mimeType": "audio/mpeg",
+             *       "expiresIn": 3600
+             *     } */
+            'application/json': {
+              streamUrl: string
+              expiresAt: number
+              fileId: string
+              size: number
+              filename: string
+              mimeType: string
+              expiresIn: number
+            }
+          }
+        }
+        401: {
+          headers: {
+            [name: string]: unknown
+          }
+          content: {
+            'application/json': components['schemas']['UnauthorizedAccess']
+          }
+        }
+        404: {
+          headers: {
+            [name: string]: unknown
+          }
+          content: {
+            'application/json': {
+              message: string
+            }
+          }
+        }
+      }
+    }
+    put?: never
+    post?: never
+    delete?: never
+    options?: never
+    head?: never
+    patch?: never
+    trace?: never
+  }
+  '/music/tracks/{id}/stream': {
+    parameters: {
+      query?: never
+      header?: never
+      path?: never
+      cookie?: never
+    }
+    /** Track Stream by ID */
+    get: {
+      parameters: {
+        query?: {
+          /** @example 1754552483 */
+          expires?: number
+          /** @example 2fcac33f0da2527b8898a01e39dad03e8ace4ebca25a4533fd7ddfc05f55279e */
+          signature?: string
+        }
+        header?: {
+          /** @description One or more byte ranges like `bytes=0-499`, `bytes=500-` or `bytes=-500`. Several ranges are answered with `multipart/byteranges` */
+          'Range'?: string
+          /** @description ETag of the copy the client has, the whole file is sent when it is outdated */
+          'If-Range'?: string
+          'If-None-Match'?: string
+        }
+        path: {
+          /** @example tz4a98xxat96iws9zmbrgj3a */
+          id: string
+        }
+        cookie?: never
+      }
+      requestBody?: never
+      responses: {
+        200: {
+          headers: {
+            [name: string]: unknown
+          }
+          content: {
+            'application/json': Record<string, never>
+          }
+        }
+        /** @description Partial content, `multipart/byteranges` for several ranges */
+        206: {
+          headers: {
+            [name: string]: unknown
+          }
+          content?: never
+        }
+        /** @description The ETag matches `If-None-Match` */
+        304: {
+          headers: {
+            [name: string]: unknown
+          }
+          content?: never
+        }
+        401: {
+          headers: {
+            [name: string]: unknown
+          }
+          content: {
+            /** @example {
+             *       "message": "Invalid or expired streaming URL"
+             *     } */
+            'application/json': components['schemas']['Message']
+          }
+        }
+        416: {
+          headers: {
+            [name: string]: unknown
+          }
+          content: {
+            /** @example {
+             *       "message": "Range not satisfiable"
+             *     } */
+            'application/json': components['schemas']['Message']
+          }
+        }
+      }
+    }
+    put?: never
+    post?: never
+    delete?: never
+    options?: never
+    head?: never
+    patch?: never
+    trace?: never
+  }
+  '/admin/collisions': {
+    parameters: {
+      query?: never
+      header?: never
+      path?: never
+      cookie?: never
+    }
+    /** List Duplicate Files */
+    get: {
+      parameters: {
+        query?: never
+        header?: never
+        path?: never
+        cookie?: never
+      }
+      requestBody?: never
+      responses: {
+        200: {
+          headers: {
+            [name: string]: unknown
+          }
+          content: {
+            'application/json': {
+              data: components['schemas']['Collision'][]
+            }
+          }
+        }
+        401: {
+          headers: {
+            [name: string]: unknown
+          }
+          content: {
+            'application/json': components['schemas']['UnauthorizedAccess']
+          }
+        }
+        403: {
+          headers: {
+            [name: string]: unknown
+          }
+          content: {
+            /** @example {
+             *       "message": "Admin access required"
+             *     } */
+            'application/json': components['schemas']['Message']
+          }
+        }
+      }
+    }
+    put?: never
+    post?: never
+    delete?: never
+    options?: never
+    head?: never
+    patch?: never
+    trace?: never
+  }
+  '/admin/channels': {
+    parameters: {
+      query?: never
+      header?: never
+      path?: never
+      cookie?: never
+    }
+    /** List Ingest Channels */
+    get: {
+      parameters: {
+        query?: never
+        header?: never
+        path?: never
+        cookie?: never
+      }
+      requestBody?: never
+      responses: {
+        200: {
+          headers: {
+            [name: string]: unknown
+          }
+          content: {
+            /** @example {
+             *       "data": [
+             *         {
+             *           "id": "cm2x9f0a10000abcd1234efgh",
+             *           "chatId": -1001234567890,
+             *           "title": "Movies",
+             *           "defaultType": "movie",
+             *           "captionFormat": "caption",
+             *           "language": "en",
+             *           "autoImport": true,
+             *           "createdAt": "2025-08-19T10:00:00.000+00:00",
+             *           "updatedAt": "2025-08-19T10:00:00.000+00:00"
+             *         }
+             *       ]
+             *     } */
+            'application/json': {
+              data: components['schemas']['IngestChannel'][]
+            }
+          }
+        }
+        401: {
+          headers: {
+            [name: string]: unknown
+          }
+          content: {
+            'application/json': components['schemas']['UnauthorizedAccess']
+          }
+        }
+        403: {
+          headers: {
+            [name: string]: unknown
+          }
+          content: {
+            /** @example {
+             *       "message": "Admin access required"
+             *     } */
+            'application/json': components['schemas']['Message']
+          }
+        }
+      }
+    }
+    put?: never
+    /** Create Ingest Channel */
+    post: {
+      parameters: {
+        query?: never
+        header?: never
+        path?: never
+        cookie?: never
+      }
+      requestBody?: {
+        content: {
+          'application/json': {
+            chatId: number
+            title?: string | null
+            /**
+             * @description Type assumed when the caption has an IMDb id but does not say movie or show
+             * @enum {string|null}
+             */
+            defaultType?: 'movie' | 'show' | null
+            /**
+             * @description `caption` reads the IMDb id from the caption and falls back to the file name, `filename` only uses the file name
+             * @enum {string}
+             */
+            captionFormat?: 'caption' | 'filename'
+            /** @description ISO 639-1 code of subtitles and audio tracks that do not name their own */
+            language?: string | null
+            /** @description Uploads of channels without auto import wait for a chat admin to approve them */
+            autoImport?: boolean
+          }
+        }
+      }
+      responses: {
+        201: {
+          headers: {
+            [name: string]: unknown
+          }
+          content: {
+            /** @example {
+             *       "id": "cm2x9f0a10000abcd1234efgh",
+             *       "chatId": -1001234567890,
+             *       "title": "Movies",
+             *       "defaultType": "movie",
+             *       "captionFormat": "caption",
+             *       "language": "en",
+             *       "autoImport": true,
+             *       "createdAt": "2025-08-19T10:00:00.000+00:00",
+             *       "updatedAt": "2025-08-19T10:00:00.000+00:00"
+             *     } */
+            'application/json': components['schemas']['IngestChannel']
+          }
+        }
+        401: {
+          headers: {
+            [name: string]: unknown
+          }
+          content: {
+            'application/json': components['schemas']['UnauthorizedAccess']
+          }
+        }
+        403: {
+          headers: {
+            [name: string]: unknown
+          }
+          content: {
+            /** @example {
+             *       "message": "Admin access required"
+             *     } */
+            'application/json': components['schemas']['Message']
+          }
+        }
+        409: {
+          headers: {
+            [name: string]: unknown
+          }
+          content: {
+            /** @example {
+             *       "message": "Channel already exists"
+             *     } */
+            'application/json': components['schemas']['Message']
+          }
+        }
+        422: {
+          headers: {
+            [name: string]: unknown
+          }
+          content: {
+            'application/json': {
+              errors: {
+                message?: string
+                rule?: string
+                field?: string
+                meta?: {
+                  choices: string[]
+                }
+              }[]
+            }
+          }
+        }
+      }
+    }
+    delete?: never
+    options?: never
+    head?: never
+    patch?: never
+    trace?: never
+  }
+  '/admin/channels/{id}': {
+    parameters: {
+      query?: never
+      header?: never
+      path?: never
+      cookie?: never
+    }
+    /** Get Ingest Channel */
+    get: {
+      parameters: {
+        query?: never
+        header?: never
+        path: {
+          id: string
+        }
+        cookie?: never
+      }
+      requestBody?: never
+      responses: {
+        200: {
+          headers: {
+            [name: string]: unknown
+          }
+          content: {
+            /** @example {
+             *       "id": "cm2x9f0a10000abcd1234efgh",
+             *       "chatId": -1001234567890,
+             *       "title": "Movies",
+             *       "defaultType": "movie",
+             *       "captionFormat": "caption",
+             *       "language": "en",
+             *       "autoImport": true,
+             *       "createdAt": "2025-08-19T10:00:00.000+00:00",
+             *       "updatedAt": "2025-08-19T10:00:00.000+00:00"
+             *     } */
+            'application/json': components['schemas']['IngestChannel']
+          }
+        }
+        401: {
+          headers: {
+            [name: string]: unknown
+          }
+          content: {
+            'application/json': components['schemas']['UnauthorizedAccess']
+          }
+        }
+        403: {
+          headers: {
+            [name: string]: unknown
+          }
+          content: {
+            /** @example {
+             *       "message": "Admin access required"
+             *     } */
+            'application/json': components['schemas']['Message']
+          }
+        }
+        404: {
+          headers: {
+            [name: string]: unknown
+          }
+          content: {
+            /** @example {
+             *       "message": "Channel not found"
+             *     } */
+            'application/json': components['schemas']['Message']
+          }
+        }
+      }
+    }
+    /** Update Ingest Channel */
+    put: {
+      parameters: {
+        query?: never
+        header?: never
+        path: {
+          id: string
+        }
+        cookie?: never
+      }
+      requestBody?: {
+        content: {
+          'application/json': {
+            title?: string | null
+            /**
+             * @description Type assumed when the caption has an IMDb id but does not say movie or show
+             * @enum {string|null}
+             */
+            defaultType?: 'movie' | 'show' | null
+            /**
+             * @description `caption` reads the IMDb id from the caption and falls back to the file name, `filename` only uses the file name
+             * @enum {string}
+             */
+            captionFormat?: 'caption' | 'filename'
+            /** @description ISO 639-1 code of subtitles and audio tracks that do not name their own */
+            language?: string | null
+            /** @description Uploads of channels without auto import wait for a chat admin to approve them */
+            autoImport?: boolean
+          }
+        }
+      }
+      responses: {
+        200: {
+          headers: {
+            [name: string]: unknown
+          }
+          content: {
+            /** @example {
+             *       "id": "cm2x9f0a10000abcd1234efgh",
+             *       "chatId": -1001234567890,
+             *       "title": "Movies",
+             *       "defaultType": "movie",
+             *       "captionFormat": "caption",
+             *       "language": "en",
+             *       "autoImport": true,
+             *       "createdAt": "2025-08-19T10:00:00.000+00:00",
+             *       "updatedAt": "2025-08-19T10:00:00.000+00:00"
+             *     } */
+            'application/json': components['schemas']['IngestChannel']
+          }
+        }
+        401: {
+          headers: {
+            [name: string]: unknown
+          }
+          content: {
+            'application/json': components['schemas']['UnauthorizedAccess']
+          }
+        }
+        403: {
+          headers: {
+            [name: string]: unknown
+          }
+          content: {
+            /** @example {
+             *       "message": "Admin access required"
+             *     } */
+            'application/json': components['schemas']['Message']
+          }
+        }
+        404: {
+          headers: {
+            [name: string]: unknown
+          }
+          content: {
+            /** @example {
+             *       "message": "Channel not found"
+             *     } */
+            'application/json': components['schemas']['Message']
+          }
+        }
+        422: {
+          headers: {
+            [name: string]: unknown
+          }
+          content: {
+            'application/json': {
+              errors: {
+                message?: string
+                rule?: string
+                field?: string
+                meta?: {
+                  choices: string[]
+                }
+              }[]
+            }
+          }
+        }
+      }
+    }
+    post?: never
+    /** Delete Ingest Channel */
+    delete: {
+      parameters: {
+        query?: never
+        header?: never
+        path: {
+          id: string
+        }
+        cookie?: never
+      }
+      requestBody?: never
+      responses: {
+        204: {
+          headers: {
+            [name: string]: unknown
+          }
+          content?: never
+        }
+        401: {
+          headers: {
+            [name: string]: unknown
+          }
+          content: {
+            'application/json': components['schemas']['UnauthorizedAccess']
+          }
+        }
+        403: {
+          headers: {
+            [name: string]: unknown
+          }
+          content: {
+            /** @example {
+             *       "message": "Admin access required"
+             *     } */
+            'application/json': components['schemas']['Message']
+          }
+        }
+        404: {
+          headers: {
+            [name: string]: unknown
+          }
+          content: {
+            /** @example {
+             *       "message": "Channel not found"
+             *     } */
+            'application/json': components['schemas']['Message']
+          }
+        }
+      }
+    }
+    options?: never
+    head?: never
+    patch?: never
+    trace?: never
+  }
+  '/admin/movies/{id}/rematch': {
+    parameters: {
+      query?: never
+      header?: never
+      path?: never
+      cookie?: never
+    }
+    get?: never
+    put?: never
+    /** Rematch Movie */
+    post: {
+      parameters: {
+        query?: never
+        header?: never
+        path: {
+          id: string
+        }
+        cookie?: never
+      }
+      requestBody?: {
+        content: {
+          'application/json': {
+            /**
+             * @description Required without `tmdb`
+             * @example tt0903747
+             */
+            imdb?: string
+            /** @description Required without `imdb` */
+            tmdb?: number
+          }
+        }
+      }
+      responses: {
+        200: {
+          headers: {
+            [name: string]: unknown
+          }
+          content: {
+            /** @example {
+             *       "data": [
+             *         {
+             *           "link": "https://t.me/c/1234567890/42",
+             *           "status": "imported",
+             *           "message": "Imported Breaking Bad S01E01"
+             *         }
+             *       ]
+             *     } */
+            'application/json': {
+              data: components['schemas']['RematchResult'][]
+            }
+          }
+        }
+        401: {
+          headers: {
+            [name: string]: unknown
+          }
+          content: {
+            'application/json': components['schemas']['UnauthorizedAccess']
+          }
+        }
+        403: {
+          headers: {
+            [name: string]: unknown
+          }
+          content: {
+            /** @example {
+             *       "message": "Admin access required"
+             *     } */
+            'application/json': components['schemas']['Message']
+          }
+        }
+        404: {
+          headers: {
+            [name: string]: unknown
+          }
+          content: {
+            /** @example {
+             *       "message": "Movie not found"
+             *     } */
+            'application/json': components['schemas']['Message']
+          }
+        }
+        422: {
+          headers: {
+            [name: string]: unknown
+          }
+          content: {
+            'application/json': {
+              errors: {
+                message?: string
+                rule?: string
+                field?: string
+                meta?: {
+                  choices: string[]
+                }
+              }[]
+            }
+          }
+        }
+      }
+    }
+    delete?: never
+    options?: never
+    head?: never
+    patch?: never
+    trace?: never
+  }
+  '/admin/episodes/{id}/rematch': {
+    parameters: {
+      query?: never
+      header?: never
+      path?: never
+      cookie?: never
+    }
+    get?: never
+    put?: never
+    /** Rematch Episode */
+    post: {
+      parameters: {
+        query?: never
+        header?: never
+        path: {
+          id: string
+        }
+        cookie?: never
+      }
+      requestBody?: {
+        content: {
+          'application/json': {
+            /**
+             * @description Required without `tmdb`
+             * @example tt0903747
+             */
+            imdb?: string
+            /** @description Required without `imdb` */
+            tmdb?: number
+            /** @description Defaults to the season of the episode */
+            season?: number
+            /** @description Defaults to the number of the episode */
+            episode?: number
+            /** @description Last episode of files holding more than one */
+            lastEpisode?: number
+          }
+        }
+      }
+      responses: {
+        200: {
+          headers: {
+            [name: string]: unknown
+          }
+          content: {
+            /** @example {
+             *       "data": [
+             *         {
+             *           "link": "https://t.me/c/1234567890/42",
+             *           "status": "imported",
+             *           "message": "Imported Breaking Bad S01E01"
+             *         }
+             *       ]
+             *     } */
+            'application/json': {
+              data: components['schemas']['RematchResult'][]
+            }
+          }
+        }
+        401: {
+          headers: {
+            [name: string]: unknown
+          }
+          content: {
+            'application/json': components['schemas']['UnauthorizedAccess']
+          }
+        }
+        403: {
+          headers: {
+            [name: string]: unknown
+          }
+          content: {
+            /** @example {
+             *       "message": "Admin access required"
+             *     } */
+            'application/json': components['schemas']['Message']
+          }
+        }
+        404: {
+          headers: {
+            [name: string]: unknown
+          }
+          content: {
+            /** @example {
+             *       "message": "Episode not found"
+             *     } */
+            'application/json': components['schemas']['Message']
+          }
+        }
+        422: {
+          headers: {
+            [name: string]: unknown
+          }
+          content: {
+            'application/json': {
+              errors: {
+                message?: string
+                rule?: string
+                field?: string
+                meta?: {
+                  choices: string[]
+                }
+              }[]
+            }
+          }
+        }
+      }
+    }
+    delete?: never
+    options?: never
+    head?: never
+    patch?: never
+    trace?: never
+  }
+  '/admin/imports': {
+    parameters: {
+      query?: never
+      header?: never
+      path?: never
+      cookie?: never
+    }
+    get?: never
+    put?: never
+    /** Import Message */
+    post: {
+      parameters: {
+        query?: never
+        header?: never
+        path?: never
+        cookie?: never
+      }
+      requestBody?: {
+        content: {
+          'application/json': {
+            /** @description Telegram message link like `https://t.me/c/1234567890/42` */
+            link: string
+            /** @enum {string} */
+            type: 'movie' | 'show'
+            /**
+             * @description Required without `tmdb`
+             * @example tt0903747
+             */
+            imdb?: string
+            /** @description Required without `imdb` */
+            tmdb?: number
+            /** @description Season of the episode, absolute episode numbers without it */
+            season?: number
+            /** @description Episode number */
+            episode?: number
+            /** @description Last episode of files holding more than one */
+            lastEpisode?: number
+          }
+        }
+      }
+      responses: {
+        200: {
+          headers: {
+            [name: string]: unknown
+          }
+          content: {
+            /** @example {
+             *       "status": "imported",
+             *       "message": "Imported Inception (2010)",
+             *       "title": "Inception",
+             *       "year": 2010,
+             *       "season": null,
+             *       "episode": null,
+             *       "lastEpisode": null,
+             *       "url": "/movies/inception-2010"
+             *     } */
+            'application/json': {
+              /** @enum {string} */
+              status: 'imported' | 'skipped'
+              message: string
+              title: string
+              year: number | null
+              season: number | null
+              episode: number | null
+              lastEpisode: number | null
+              url: string
+            }
+          }
+        }
+        401: {
+          headers: {
+            [name: string]: unknown
+          }
+          content: {
+            'application/json': components['schemas']['UnauthorizedAccess']
+          }
+        }
+        403: {
+          headers: {
+            [name: string]: unknown
+          }
+          content: {
+            /** @example {
+             *       "message": "Admin access required"
+             *     } */
+            'application/json': components['schemas']['Message']
+          }
+        }
+        422: {
+          headers: {
+            [name: string]: unknown
+          }
+          content: {
+            'application/json': {
+              errors: {
+                message?: string
+                rule?: string
+                field?: string
+                meta?: {
+                  choices: string[]
+                }
+              }[]
+            }
           }
         }
       }
     }
-    put?: never
-    post?: never
     delete?: never
     options?: never
     head?: never
     patch?: never
     trace?: never
   }
-  '/auth/trakt/start': {
+  '/admin/media-files/{id}': {
     parameters: {
       query?: never
       header?: never
       path?: never
       cookie?: never
     }
-    /** Start Trakt auth */
-    get: {
+    get?: never
+    put?: never
+    post?: never
+    /** Unlink Media File */
+    delete: {
       parameters: {
         query?: never
         header?: never
-        path?: never
+        path: {
+          id: string
+        }
         cookie?: never
       }
       requestBody?: never
       responses: {
-        200: {
+        204: {
+          headers: {
+            [name: string]: unknown
+          }
+          content?: never
+        }
+        401: {
+          headers: {
+            [name: string]: unknown
+          }
+          content: {
+            'application/json': components['schemas']['UnauthorizedAccess']
+          }
+        }
+        403: {
           headers: {
             [name: string]: unknown
           }
           content: {
             /** @example {
-             *       "device_code": "6a35e2f407029dc3ab09485ac3ec8725c14939dbe7de55fc2887ed5905e3513f",
-             *       "user_code": "73380AD5",
-             *       "verification_url": "https://trakt.tv/activate",
-             *       "expires_in": 600,
-             *       "interval": 5
+             *       "message": "Admin access required"
              *     } */
-            'application/json': {
-              device_code: string
-              user_code: string
-              verification_url: string
-              expires_in: number
-              interval: number
-            }
+            'application/json': components['schemas']['Message']
           }
         }
-        401: {
+        404: {
           headers: {
             [name: string]: unknown
           }
           content: {
-            'application/json': {
-              errors: {
-                message?: string
-              }[]
-            }
+            /** @example {
+             *       "message": "File not found"
+             *     } */
+            'application/json': components['schemas']['Message']
           }
         }
       }
     }
+    options?: never
+    head?: never
+    patch?: never
+    trace?: never
+  }
+  '/admin/movies/{id}': {
+    parameters: {
+      query?: never
+      header?: never
+      path?: never
+      cookie?: never
+    }
+    get?: never
     put?: never
     post?: never
-    delete?: never
+    /** Delete Movie */
+    delete: {
+      parameters: {
+        query?: never
+        header?: never
+        path: {
+          id: string
+        }
+        cookie?: never
+      }
+      requestBody?: never
+      responses: {
+        204: {
+          headers: {
+            [name: string]: unknown
+          }
+          content?: never
+        }
+        401: {
+          headers: {
+            [name: string]: unknown
+          }
+          content: {
+            'application/json': components['schemas']['UnauthorizedAccess']
+          }
+        }
+        403: {
+          headers: {
+            [name: string]: unknown
+          }
+          content: {
+            /** @example {
+             *       "message": "Admin access required"
+             *     } */
+            'application/json': components['schemas']['Message']
+          }
+        }
+        404: {
+          headers: {
+            [name: string]: unknown
+          }
+          content: {
+            /** @example {
+             *       "message": "Movie not found"
+             *     } */
+            'application/json': components['schemas']['Message']
+          }
+        }
+      }
+    }
     options?: never
     head?: never
     patch?: never
     trace?: never
   }
-  '/auth/trakt/poll': {
+  '/admin/tvs/{id}': {
     parameters: {
       query?: never
       header?: never
@@ -7087,24 +9297,78 @@ export interface paths {
     }
     get?: never
     put?: never
-    /** Poll Trrakt Auth */
-    post: {
+    post?: never
+    /** Delete TV Show */
+    delete: {
       parameters: {
         query?: never
         header?: never
-        path?: never
+        path: {
+          id: string
+        }
         cookie?: never
       }
-      requestBody?: {
-        content: {
-          /** @example {
-           *       "code": "de15eb164c9106a4fc331041292b96d78ad0965eac6eb428e1f23f321adc0c40"
-           *     } */
-          'application/json': {
-            code: string
+      requestBody?: never
+      responses: {
+        204: {
+          headers: {
+            [name: string]: unknown
+          }
+          content?: never
+        }
+        401: {
+          headers: {
+            [name: string]: unknown
+          }
+          content: {
+            'application/json': components['schemas']['UnauthorizedAccess']
+          }
+        }
+        403: {
+          headers: {
+            [name: string]: unknown
+          }
+          content: {
+            /** @example {
+             *       "message": "Admin access required"
+             *     } */
+            'application/json': components['schemas']['Message']
+          }
+        }
+        404: {
+          headers: {
+            [name: string]: unknown
+          }
+          content: {
+            /** @example {
+             *       "message": "TV show not found"
+             *     } */
+            'application/json': components['schemas']['Message']
           }
         }
       }
+    }
+    options?: never
+    head?: never
+    patch?: never
+    trace?: never
+  }
+  '/admin/streams/stats': {
+    parameters: {
+      query?: never
+      header?: never
+      path?: never
+      cookie?: never
+    }
+    /** Get Stream Stats */
+    get: {
+      parameters: {
+        query?: never
+        header?: never
+        path?: never
+        cookie?: never
+      }
+      requestBody?: never
       responses: {
         200: {
           headers: {
@@ -7112,43 +9376,65 @@ export interface paths {
           }
           content: {
             /** @example {
-             *       "message": "Success",
-             *       "status": 200
+             *       "activeStreams": 2,
+             *       "streams": 148,
+             *       "bytes": 9663676416,
+             *       "chunks": 9312,
+             *       "failedChunks": 3,
+             *       "averageChunkTime": 412,
+             *       "averageFirstByteTime": 655,
+             *       "throughput": 8912345,
+             *       "workers": [
+             *         {
+             *           "name": "main",
+             *           "ready": true,
+             *           "active": 1,
+             *           "cooldownUntil": null,
+             *           "chunks": 4102,
+             *           "floodWaits": 0
+             *         },
+             *         {
+             *           "name": "worker-7012345678",
+             *           "ready": true,
+             *           "active": 3,
+             *           "cooldownUntil": "2025-08-22T18:04:11.000Z",
+             *           "chunks": 5210,
+             *           "floodWaits": 2
+             *         }
+             *       ],
+             *       "cache": {
+             *         "hits": 5210,
+             *         "misses": 9312,
+             *         "size": 10468982784,
+             *         "maxSize": 10737418240
+             *       }
              *     } */
-            'application/json': {
-              message: string
-              status: number
-            }
+            'application/json': components['schemas']['DownloadStats']
           }
         }
-        400: {
+        401: {
           headers: {
             [name: string]: unknown
           }
           content: {
-            'application/json': {
-              status: number
-              message: string
-            }
+            'application/json': components['schemas']['UnauthorizedAccess']
           }
         }
-        409: {
+        403: {
           headers: {
             [name: string]: unknown
           }
           content: {
             /** @example {
-             *       "status": 409,
-             *       "message": "Already Used – user already approved this code"
+             *       "message": "Admin access required"
              *     } */
-            'application/json': {
-              status: number
-              message: string
-            }
+            'application/json': components['schemas']['Message']
           }
         }
       }
     }
+    put?: never
+    post?: never
     delete?: never
     options?: never
     head?: never
@@ -7353,6 +9639,217 @@ export interface components {
       id: number
       name: string
     }
+    MediaFile: {
+      id: string
+      movieId: string | null
+      resolution: string | null
+      codec: string | null
+      source: string | null
+      edition: string | null
+      metadata: {
+        size: number
+        filename: string
+        mimeType: string
+        /** @enum {string} */
+        container?: 'mp4' | 'matroska' | 'webm'
+        duration?: number | null
+        video?: components['schemas']['VideoStream'] | null
+        audioTracks?: components['schemas']['AudioStream'][]
+        subtitleTracks?: components['schemas']['SubtitleStream'][]
+        chapters?: components['schemas']['Chapter'][]
+      }
+      createdAt: string
+      updatedAt: string
+    }
+    FailedJob: {
+      id: string
+      chatId: number
+      messageId: number
+      messageLink: string
+      error: string
+      attempts: number
+      payload: Record<string, never>
+      createdAt: string
+      updatedAt: string
+    }
+    Message: {
+      message: string
+    }
+    Artist: {
+      id: string
+      name: string
+    }
+    Track: {
+      id: string
+      artistId: string
+      albumId: string | null
+      title: string
+      number: number | null
+      disc: number | null
+      /** @description Seconds */
+      duration: number | null
+      metadata: {
+        size: number
+        filename: string
+        mimeType: string
+      }
+      createdAt: string
+      updatedAt: string
+    }
+    Album: {
+      id: string
+      title: string
+      year: number | null
+      artist: components['schemas']['Artist']
+      /** @description Path of the embedded cover art */
+      cover: string | null
+    }
+    SubtitleTrack: {
+      id: string
+      /** @description ISO 639-1 code, `und` when unknown */
+      language: string
+      label: string
+      /**
+       * @description Format of the uploaded file, served as WebVTT
+       * @enum {string}
+       */
+      format: 'srt' | 'ass' | 'vtt'
+      /** @description WebVTT endpoint of the track */
+      url: string
+    }
+    ArtworkImage: {
+      url: string
+      language: string | null
+      likes: number
+      /** @enum {string} */
+      source: 'fanart' | 'tmdb'
+    }
+    Artwork: {
+      logos: components['schemas']['ArtworkImage'][]
+      backgrounds: components['schemas']['ArtworkImage'][]
+      banners: components['schemas']['ArtworkImage'][]
+      discs: components['schemas']['ArtworkImage'][]
+      posters: components['schemas']['ArtworkImage'][]
+    }
+    VideoStream: {
+      codec: string
+      profile: string | null
+      width: number | null
+      height: number | null
+      /** @enum {string|null} */
+      hdr: 'hdr10' | 'hlg' | 'dolby-vision' | null
+    }
+    AudioStream: {
+      codec: string
+      language: string | null
+      title: string | null
+      channels: number | null
+      default: boolean
+    }
+    SubtitleStream: {
+      codec: string
+      language: string | null
+      title: string | null
+      default: boolean
+      forced: boolean
+    }
+    Chapter: {
+      title: string | null
+      start: number
+    }
+    CollisionFile: {
+      id: string
+      filename: string
+      size: number
+      fileLink: string
+      createdAt: string
+      movie: {
+        id: string
+        title: string
+        year: number
+      } | null
+      episodes: {
+        id: string
+        tvId: string
+        tvTitle: string
+        seasonNumber: number
+        episodeNumber: number
+        title: string
+      }[]
+    }
+    Collision: {
+      /** @enum {string} */
+      type: 'exact' | 'near'
+      /** @description The files are attached to different titles */
+      conflict: boolean
+      files: components['schemas']['CollisionFile'][]
+    }
+    IngestChannel: {
+      id: string
+      chatId: number
+      title: string | null
+      /**
+       * @description Type assumed when the caption has an IMDb id but does not say movie or show
+       * @enum {string|null}
+       */
+      defaultType: 'movie' | 'show' | null
+      /**
+       * @description `caption` reads the IMDb id from the caption and falls back to the file name, `filename` only uses the file name
+       * @enum {string}
+       */
+      captionFormat: 'caption' | 'filename'
+      /** @description ISO 639-1 code of subtitles and audio tracks that do not name their own */
+      language: string | null
+      /** @description Uploads of channels without auto import wait for a chat admin to approve them */
+      autoImport: boolean
+      createdAt: string
+      updatedAt: string
+    }
+    RematchResult: {
+      /** @description Link of the Telegram message of the file or subtitle */
+      link: string
+      /** @enum {string} */
+      status: 'imported' | 'skipped' | 'failed'
+      message: string
+    }
+    DownloadStats: {
+      activeStreams: number
+      /** @description Streams opened since the server started */
+      streams: number
+      /** @description Bytes sent to clients */
+      bytes: number
+      /** @description 1MB chunks downloaded from Telegram */
+      chunks: number
+      failedChunks: number
+      /** @description Average time of a chunk request in milliseconds */
+      averageChunkTime: number | null
+      /** @description Average time from opening a stream to its first bytes in milliseconds */
+      averageFirstByteTime: number | null
+      /** @description Bytes per second of the finished streams */
+      throughput: number | null
+      workers: components['schemas']['WorkerStats'][]
+      /** @description Null when the cache is off */
+      cache: {
+        hits: number
+        /** @description Chunks downloaded from Telegram into the cache */
+        misses: number
+        /** @description Bytes on disk */
+        size: number
+        maxSize: number
+      } | null
+    }
+    WorkerStats: {
+      /** @description `main` or `worker-<bot id>` */
+      name: string
+      /** @description False when the bot failed to log in */
+      ready: boolean
+      /** @description Chunk requests in flight */
+      active: number
+      /** @description Set while the bot waits out a FLOOD_WAIT */
+      cooldownUntil: string | null
+      chunks: number
+      floodWaits: number
+    }
   }
   responses: never
   parameters: never
@@ -0,0 +1,52 @@
+import { BaseCommand, flags } from '@adonisjs/core/ace'
+import type { CommandOptions } from '@adonisjs/core/types/ace'
+
+import TV from '#models/tv'
+
+/**
+ * Refreshes the TMDB details of shows, seasons and episodes right away instead
+ * of waiting for the scheduled sync of the web server
+ */
+export default class MetadataSync extends BaseCommand {
+  static commandName = 'metadata:sync'
+  static description = 'Fetch TMDB details for TV shows, seasons and episodes'
+
+  static options: CommandOptions = {
+    startApp: true,
+  }
+
+  @flags.string({ description: 'Only sync the TV show with this id' })
+  declare tv?: string
+
+  @flags.boolean({ description: 'Sync every TV show, not only the stale ones' })
+  declare all?: boolean
+
+  async run() {
+    const sync = await this.app.container.make('metadata:sync')
+
+    if (!this.tv && !this.all) {
+      const synced = await sync.syncStale(Number.MAX_SAFE_INTEGER)
+      this.logger.success(`Synced ${synced} stale TV shows`)
+      return
+    }
+
+    const tvs = await TV.query().if(this.tv, (query) => query.where('id', this.tv!))
+    if (!tvs.length) {
+      this.logger.error(`TV show ${this.tv} not found`)
+      this.exitCode = 1
+      return
+    }
+
+    let failed = 0
+    for (const tv of tvs) {
+      try {
+        await sync.syncTV(tv)
+        this.logger.info(`Synced ${tv.title}`)
+      } catch (error) {
+        failed++
+        this.logger.error(`${tv.title}: ${error.message}`)
+      }
+    }
+    this.logger.success(`Synced ${tvs.length - failed} TV shows, ${failed} failed`)
+  }
+}
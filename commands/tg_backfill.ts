@@ -0,0 +1,120 @@
+import { cuid } from '@adonisjs/core/helpers'
+import { BaseCommand, flags } from '@adonisjs/core/ace'
+import type { CommandOptions } from '@adonisjs/core/types/ace'
+import redis from '@adonisjs/redis/services/main'
+import type { Message } from '@mtcute/node'
+import { DateTime } from 'luxon'
+
+import FailedJob from '#models/failed_job'
+import { IngestService } from '#services/ingest_service'
+import { TGService } from '#services/tg_service'
+import env from '#start/env'
+import { asMediaMessage } from '#utils/tg'
+
+/**
+ * Imports the existing uploads of a channel through the ingest pipeline.
+ *
+ * Bots cannot read the channel history, so messages are fetched by id in
+ * batches until a run of empty batches marks the end of the channel. The last
+ * processed message id is kept in Redis, so an interrupted run continues where
+ * it stopped.
+ */
+export default class TGBackfill extends BaseCommand {
+  static commandName = 'tg:backfill'
+  static description = 'Import existing uploads from a Telegram channel'
+
+  static options: CommandOptions = {
+    startApp: true,
+  }
+
+  private readonly BATCH_SIZE = 100
+  private readonly MAX_EMPTY_BATCHES = 5
+
+  @flags.string({ description: 'Channel id or username', required: true })
+  declare channel: string
+
+  @flags.string({ description: 'Only import messages posted on or after this ISO date' })
+  declare since?: string
+
+  @flags.boolean({ description: 'Ignore the saved progress and start from the first message' })
+  declare restart?: boolean
+
+  private summary = { imported: 0, skipped: 0, failed: 0 }
+
+  async run() {
+    const since = this.since ? DateTime.fromISO(this.since) : null
+    if (since && !since.isValid) {
+      this.logger.error(`Invalid --since date: ${this.since}`)
+      this.exitCode = 1
+      return
+    }
+
+    const chatId = Number.isNaN(Number(this.channel)) ? this.channel : Number(this.channel)
+    const progressKey = `tg:backfill:${this.channel}`
+    if (this.restart) await redis.del(progressKey)
+
+    const tgService = new TGService('client.backfill.session')
+    const { tg } = tgService
+    await tg.start({ botToken: env.get('TG_MAIN_BOT_TOKEN') })
+    const ingest = new IngestService(tgService)
+
+    try {
+      let offset = Number((await redis.get(progressKey)) ?? 0)
+      if (offset) this.logger.info(`Resuming after message ${offset}`)
+
+      let emptyBatches = 0
+      while (emptyBatches < this.MAX_EMPTY_BATCHES) {
+        const ids = Array.from({ length: this.BATCH_SIZE }, (_, i) => offset + i + 1)
+        offset += this.BATCH_SIZE
+
+        const batch = await tg.getMessages(chatId, ids)
+        const messages = batch.filter((m) => m !== null)
+        if (!messages.length) {
+          emptyBatches++
+          continue
+        }
+        emptyBatches = 0
+
+        for (const message of messages) {
+          if (!since || DateTime.fromJSDate(message.date) >= since) {
+            await this.importMessage(ingest, message)
+          }
+          await redis.set(progressKey, message.id)
+        }
+      }
+    } finally {
+      await tg.destroy()
+    }
+
+    const { imported, skipped, failed } = this.summary
+    this.logger.success(`Backfill done: ${imported} imported, ${skipped} skipped, ${failed} failed`)
+  }
+
+  private async importMessage(ingest: IngestService, message: Message) {
+    const mediaMessage = asMediaMessage(message)
+    if (!mediaMessage) return
+
+    try {
+      const { status, message: details } = await ingest.ingest(mediaMessage)
+      this.summary[status]++
+      this.logger.info(`${message.link}: ${details}`)
+    } catch (error) {
+      this.summary.failed++
+      this.logger.error(`${message.link}: ${error.message}`)
+      await FailedJob.create({
+        chatId: message.chat.id,
+        messageId: message.id,
+        messageLink: message.link,
+        error: error.message,
+        attempts: 1,
+        payload: {
+          id: cuid(),
+          chatId: message.chat.id,
+          messageId: message.id,
+          messageLink: message.link,
+          attempts: 1,
+        },
+      })
+    }
+  }
+}
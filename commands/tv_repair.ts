@@ -0,0 +1,29 @@
+import { BaseCommand, flags } from '@adonisjs/core/ace'
+import type { CommandOptions } from '@adonisjs/core/types/ace'
+
+import { TVRepairService } from '#services/tv_repair_service'
+
+/**
+ * Merges duplicate shows, seasons and episodes. Run it before the migrations
+ * adding the unique constraints when they fail on existing duplicates.
+ */
+export default class TVRepair extends BaseCommand {
+  static commandName = 'tv:repair'
+  static description = 'Merge duplicate TV shows, seasons and episodes'
+
+  static options: CommandOptions = {
+    startApp: true,
+  }
+
+  @flags.boolean({ description: 'Report the duplicates without merging them' })
+  declare dryRun?: boolean
+
+  async run() {
+    const repair = new TVRepairService()
+    const { tvs, seasons, episodes } = await repair.repair(this.dryRun)
+    const action = this.dryRun ? 'Found' : 'Merged'
+    this.logger.success(
+      `${action} ${tvs} duplicate TV shows, ${seasons} seasons and ${episodes} episodes`
+    )
+  }
+}
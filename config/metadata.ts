@@ -0,0 +1,22 @@
+import app from '@adonisjs/core/services/app'
+
+import env from '#start/env'
+import type { MetadataConfig, MetadataSource } from '#types/metadata'
+
+const metadataConfig: MetadataConfig = {
+  /**
+   * Trakt is asked first, TMDB fills in what Trakt is missing and takes over
+   * when Trakt is down or does not know the title. Set `METADATA_PROVIDERS`
+   * to `local` to run offline.
+   */
+  providers: env
+    .get('METADATA_PROVIDERS', 'trakt,tmdb')
+    .split(',')
+    .map((name) => name.trim() as MetadataSource),
+
+  local: {
+    path: app.makePath(env.get('METADATA_LOCAL_PATH', 'database/metadata.json')),
+  },
+}
+
+export default metadataConfig
@@ -0,0 +1,28 @@
+import app from '@adonisjs/core/services/app'
+
+import env from '#start/env'
+import type { StreamConfig } from '#types/stream'
+
+const streamConfig: StreamConfig = {
+  /**
+   * Streamed chunks are kept on disk, so seeking back, watching again or two
+   * people watching the same title do not download them from Telegram again.
+   * `STREAM_CACHE_SIZE` is in MB, set it to 0 to turn the cache off.
+   */
+  cache: {
+    path: app.makePath(env.get('STREAM_CACHE_PATH', 'tmp/chunks')),
+    maxSize: env.get('STREAM_CACHE_SIZE', 10240) * 1024 * 1024,
+  },
+
+  /**
+   * Extra bots share the chunk downloads, so a FLOOD_WAIT on one of them does
+   * not stall every viewer. They have to be members of the ingest channels.
+   */
+  workerTokens: env
+    .get('TG_WORKER_BOT_TOKENS', '')
+    .split(',')
+    .map((token) => token.trim())
+    .filter(Boolean),
+}
+
+export default streamConfig
@@ -0,0 +1,93 @@
+import { cuid } from '@adonisjs/core/helpers'
+import { BaseSchema } from '@adonisjs/lucid/schema'
+
+export default class extends BaseSchema {
+  protected tableName = 'media_files'
+
+  async up() {
+    this.schema.createTable(this.tableName, (table) => {
+      table.string('id', 25).primary()
+      table.string('movie_id').nullable().references('id').inTable('movies').onDelete('CASCADE')
+      table
+        .string('episode_id', 25)
+        .nullable()
+        .references('id')
+        .inTable('episodes')
+        .onDelete('CASCADE')
+      table.string('resolution').nullable()
+      table.string('codec').nullable()
+      table.string('source').nullable()
+      table.string('edition').nullable()
+      table.jsonb('metadata').notNullable()
+      table.jsonb('tg_metadata').notNullable()
+
+      table.timestamp('created_at').notNullable()
+      table.timestamp('updated_at').notNullable()
+    })
+
+    // Every movie and episode had exactly one file so far, move it over
+    this.defer(async (db) => {
+      for (const [source, foreignKey] of [
+        ['movies', 'movie_id'],
+        ['episodes', 'episode_id'],
+      ]) {
+        const rows = await db.from(source).select('id', 'metadata', 'tg_metadata')
+        if (!rows.length) continue
+        const now = new Date()
+        await db.table(this.tableName).multiInsert(
+          rows.map((row) => ({
+            id: cuid(),
+            [foreignKey]: row.id,
+            metadata: JSON.stringify(row.metadata),
+            tg_metadata: JSON.stringify(row.tg_metadata),
+            created_at: now,
+            updated_at: now,
+          }))
+        )
+      }
+    })
+
+    this.schema.alterTable('movies', (table) => {
+      table.dropColumns('metadata', 'tg_metadata')
+    })
+    this.schema.alterTable('episodes', (table) => {
+      table.dropColumns('metadata', 'tg_metadata')
+    })
+  }
+
+  async down() {
+    this.schema.alterTable('movies', (table) => {
+      table.jsonb('tg_metadata').nullable()
+      table.jsonb('metadata').nullable()
+    })
+    this.schema.alterTable('episodes', (table) => {
+      table.jsonb('metadata').nullable()
+      table.jsonb('tg_metadata').nullable()
+    })
+
+    // Only the oldest file of every title fits back into the old columns
+    this.defer(async (db) => {
+      for (const [target, foreignKey] of [
+        ['movies', 'movie_id'],
+        ['episodes', 'episode_id'],
+      ]) {
+        const files = await db
+          .from(this.tableName)
+          .whereNotNull(foreignKey)
+          .distinctOn(foreignKey)
+          .orderBy([foreignKey, 'created_at'])
+        for (const file of files) {
+          await db
+            .from(target)
+            .where('id', file[foreignKey])
+            .update({
+              metadata: JSON.stringify(file.metadata),
+              tg_metadata: JSON.stringify(file.tg_metadata),
+            })
+        }
+      }
+    })
+
+    this.schema.dropTable(this.tableName)
+  }
+}
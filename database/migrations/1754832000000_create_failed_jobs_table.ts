@@ -0,0 +1,24 @@
+import { BaseSchema } from '@adonisjs/lucid/schema'
+
+export default class extends BaseSchema {
+  protected tableName = 'failed_jobs'
+
+  async up() {
+    this.schema.createTable(this.tableName, (table) => {
+      table.string('id', 25).primary()
+      table.bigint('chat_id').notNullable()
+      table.integer('message_id').notNullable()
+      table.string('message_link').notNullable()
+      table.text('error').notNullable()
+      table.integer('attempts').unsigned().notNullable()
+      table.jsonb('payload').notNullable()
+
+      table.timestamp('created_at').notNullable()
+      table.timestamp('updated_at').notNullable()
+    })
+  }
+
+  async down() {
+    this.schema.dropTable(this.tableName)
+  }
+}
@@ -0,0 +1,42 @@
+import { BaseSchema } from '@adonisjs/lucid/schema'
+
+export default class extends BaseSchema {
+  protected tableName = 'media_files'
+
+  async up() {
+    this.schema.alterTable(this.tableName, (table) => {
+      table.index(['tg_metadata'], 'media_files_tg_metadata_index', { indexType: 'gin' })
+    })
+
+    // Private channel links carry both ids, public ones only have the username
+    this.defer(async (db) => {
+      const files = await db.from(this.tableName).select('id', 'tg_metadata')
+      for (const file of files) {
+        const match = /t\.me\/c\/(\d+)\/(\d+)/.exec(file.tg_metadata.fileLink)
+        if (!match) continue
+        await db
+          .from(this.tableName)
+          .where('id', file.id)
+          .update({
+            tg_metadata: JSON.stringify({
+              ...file.tg_metadata,
+              chatId: Number(`-100${match[1]}`),
+              messageId: Number(match[2]),
+            }),
+          })
+      }
+    })
+  }
+
+  async down() {
+    this.defer(async (db) => {
+      await db.rawQuery(`UPDATE ?? SET tg_metadata = tg_metadata - 'chatId' - 'messageId'`, [
+        this.tableName,
+      ])
+    })
+
+    this.schema.alterTable(this.tableName, (table) => {
+      table.dropIndex(['tg_metadata'], 'media_files_tg_metadata_index')
+    })
+  }
+}
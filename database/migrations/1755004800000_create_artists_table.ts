@@ -0,0 +1,19 @@
+import { BaseSchema } from '@adonisjs/lucid/schema'
+
+export default class extends BaseSchema {
+  protected tableName = 'artists'
+
+  async up() {
+    this.schema.createTable(this.tableName, (table) => {
+      table.string('id', 25).primary()
+      table.text('name').notNullable().unique()
+
+      table.timestamp('created_at').notNullable()
+      table.timestamp('updated_at').notNullable()
+    })
+  }
+
+  async down() {
+    this.schema.dropTable(this.tableName)
+  }
+}
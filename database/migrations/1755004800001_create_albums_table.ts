@@ -0,0 +1,28 @@
+import { BaseSchema } from '@adonisjs/lucid/schema'
+
+export default class extends BaseSchema {
+  protected tableName = 'albums'
+
+  async up() {
+    this.schema.createTable(this.tableName, (table) => {
+      table.string('id', 25).primary()
+      table
+        .string('artist_id', 25)
+        .notNullable()
+        .references('id')
+        .inTable('artists')
+        .onDelete('CASCADE')
+      table.text('title').notNullable()
+      table.integer('year').unsigned().nullable()
+
+      table.timestamp('created_at').notNullable()
+      table.timestamp('updated_at').notNullable()
+
+      table.unique(['artist_id', 'title'])
+    })
+  }
+
+  async down() {
+    this.schema.dropTable(this.tableName)
+  }
+}
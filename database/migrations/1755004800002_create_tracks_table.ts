@@ -0,0 +1,34 @@
+import { BaseSchema } from '@adonisjs/lucid/schema'
+
+export default class extends BaseSchema {
+  protected tableName = 'tracks'
+
+  async up() {
+    this.schema.createTable(this.tableName, (table) => {
+      table.string('id', 25).primary()
+      table
+        .string('artist_id', 25)
+        .notNullable()
+        .references('id')
+        .inTable('artists')
+        .onDelete('CASCADE')
+      table.string('album_id', 25).nullable().references('id').inTable('albums').onDelete('CASCADE')
+      table.text('title').notNullable()
+      table.integer('number').unsigned().nullable()
+      table.integer('disc').unsigned().nullable()
+      table.integer('duration').unsigned().nullable()
+      table.jsonb('cover').nullable()
+      table.jsonb('metadata').notNullable()
+      table.jsonb('tg_metadata').notNullable()
+
+      table.timestamp('created_at').notNullable()
+      table.timestamp('updated_at').notNullable()
+
+      table.index(['tg_metadata'], 'tracks_tg_metadata_index', { indexType: 'gin' })
+    })
+  }
+
+  async down() {
+    this.schema.dropTable(this.tableName)
+  }
+}
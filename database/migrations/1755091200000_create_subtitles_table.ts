@@ -0,0 +1,31 @@
+import { BaseSchema } from '@adonisjs/lucid/schema'
+
+export default class extends BaseSchema {
+  protected tableName = 'subtitles'
+
+  async up() {
+    this.schema.createTable(this.tableName, (table) => {
+      table.string('id', 25).primary()
+      table.string('movie_id').nullable().references('id').inTable('movies').onDelete('CASCADE')
+      table
+        .string('episode_id', 25)
+        .nullable()
+        .references('id')
+        .inTable('episodes')
+        .onDelete('CASCADE')
+      table.string('language', 8).notNullable()
+      table.string('format', 8).notNullable()
+      table.jsonb('metadata').notNullable()
+      table.jsonb('tg_metadata').notNullable()
+
+      table.timestamp('created_at').notNullable()
+      table.timestamp('updated_at').notNullable()
+
+      table.index(['tg_metadata'], 'subtitles_tg_metadata_index', { indexType: 'gin' })
+    })
+  }
+
+  async down() {
+    this.schema.dropTable(this.tableName)
+  }
+}
@@ -0,0 +1,70 @@
+import { BaseSchema } from '@adonisjs/lucid/schema'
+
+export default class extends BaseSchema {
+  protected tableName = 'episode_media_files'
+
+  async up() {
+    this.schema.createTable(this.tableName, (table) => {
+      table
+        .string('episode_id', 25)
+        .notNullable()
+        .references('id')
+        .inTable('episodes')
+        .onDelete('CASCADE')
+      table
+        .string('media_file_id', 25)
+        .notNullable()
+        .references('id')
+        .inTable('media_files')
+        .onDelete('CASCADE')
+
+      table.primary(['episode_id', 'media_file_id'])
+      table.index(['media_file_id'])
+    })
+
+    // A file can hold several episodes now, the single episode link moves to the pivot
+    this.defer(async (db) => {
+      const files = await db
+        .from('media_files')
+        .whereNotNull('episode_id')
+        .select('id', 'episode_id')
+      if (!files.length) return
+      await db
+        .table(this.tableName)
+        .multiInsert(files.map((file) => ({ episode_id: file.episode_id, media_file_id: file.id })))
+    })
+
+    this.schema.alterTable('media_files', (table) => {
+      table.dropColumn('episode_id')
+    })
+  }
+
+  async down() {
+    this.schema.alterTable('media_files', (table) => {
+      table
+        .string('episode_id', 25)
+        .nullable()
+        .references('id')
+        .inTable('episodes')
+        .onDelete('CASCADE')
+    })
+
+    // Files of multiple episodes keep the link to their first one
+    this.defer(async (db) => {
+      const links = await db
+        .from(this.tableName)
+        .join('episodes', 'episodes.id', `${this.tableName}.episode_id`)
+        .distinctOn(`${this.tableName}.media_file_id`)
+        .orderBy([`${this.tableName}.media_file_id`, 'episodes.number'])
+        .select(`${this.tableName}.media_file_id`, `${this.tableName}.episode_id`)
+      for (const link of links) {
+        await db
+          .from('media_files')
+          .where('id', link.media_file_id)
+          .update({ episode_id: link.episode_id })
+      }
+    })
+
+    this.schema.dropTable(this.tableName)
+  }
+}
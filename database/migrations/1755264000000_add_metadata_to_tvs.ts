@@ -0,0 +1,41 @@
+import { BaseSchema } from '@adonisjs/lucid/schema'
+
+export default class extends BaseSchema {
+  protected tableName = 'tvs'
+
+  async up() {
+    this.schema.alterTable(this.tableName, (table) => {
+      table.string('original_title').nullable()
+      table.text('overview').nullable()
+      table.date('first_air_date').nullable()
+      table.date('last_air_date').nullable()
+      table.float('popularity').nullable()
+      table.float('vote_average').nullable()
+      table.integer('vote_count').unsigned().nullable()
+      table.boolean('adult').notNullable().defaultTo(false)
+      table.jsonb('genres').notNullable().defaultTo('[]')
+      table.string('poster').nullable()
+      table.string('backdrop').nullable()
+      table.timestamp('metadata_synced_at').nullable().index()
+    })
+  }
+
+  async down() {
+    this.schema.alterTable(this.tableName, (table) => {
+      table.dropColumns(
+        'original_title',
+        'overview',
+        'first_air_date',
+        'last_air_date',
+        'popularity',
+        'vote_average',
+        'vote_count',
+        'adult',
+        'genres',
+        'poster',
+        'backdrop',
+        'metadata_synced_at'
+      )
+    })
+  }
+}
@@ -0,0 +1,21 @@
+import { BaseSchema } from '@adonisjs/lucid/schema'
+
+export default class extends BaseSchema {
+  protected tableName = 'seasons'
+
+  async up() {
+    this.schema.alterTable(this.tableName, (table) => {
+      table.string('title').nullable()
+      table.text('overview').nullable()
+      table.date('air_date').nullable()
+      table.float('vote_average').nullable()
+      table.string('poster').nullable()
+    })
+  }
+
+  async down() {
+    this.schema.alterTable(this.tableName, (table) => {
+      table.dropColumns('title', 'overview', 'air_date', 'vote_average', 'poster')
+    })
+  }
+}
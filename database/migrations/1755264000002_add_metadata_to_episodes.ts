@@ -0,0 +1,29 @@
+import { BaseSchema } from '@adonisjs/lucid/schema'
+
+export default class extends BaseSchema {
+  protected tableName = 'episodes'
+
+  async up() {
+    this.schema.alterTable(this.tableName, (table) => {
+      table.text('overview').nullable()
+      table.date('air_date').nullable()
+      table.integer('runtime').unsigned().nullable()
+      table.float('vote_average').nullable()
+      table.integer('vote_count').unsigned().nullable()
+      table.string('thumbnail').nullable()
+    })
+  }
+
+  async down() {
+    this.schema.alterTable(this.tableName, (table) => {
+      table.dropColumns(
+        'overview',
+        'air_date',
+        'runtime',
+        'vote_average',
+        'vote_count',
+        'thumbnail'
+      )
+    })
+  }
+}
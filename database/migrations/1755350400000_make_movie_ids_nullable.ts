@@ -0,0 +1,22 @@
+import { BaseSchema } from '@adonisjs/lucid/schema'
+
+export default class extends BaseSchema {
+  protected tableName = 'movies'
+
+  async up() {
+    // Titles unknown to Trakt are imported from TMDB or the local catalog
+    this.schema.alterTable(this.tableName, (table) => {
+      table.integer('trakt').unsigned().nullable().alter()
+      table.string('imdb').nullable().alter()
+      table.string('poster').nullable().alter()
+    })
+  }
+
+  async down() {
+    this.schema.alterTable(this.tableName, (table) => {
+      table.integer('trakt').unsigned().notNullable().alter()
+      table.string('imdb').notNullable().alter()
+      table.string('poster').notNullable().alter()
+    })
+  }
+}
@@ -0,0 +1,23 @@
+import { BaseSchema } from '@adonisjs/lucid/schema'
+
+export default class extends BaseSchema {
+  protected tableName = 'episodes'
+
+  async up() {
+    this.schema.alterTable(this.tableName, (table) => {
+      table.integer('trakt').unsigned().nullable().alter()
+      table.integer('tvdb').unsigned().nullable().alter()
+      table.integer('tmdb').unsigned().nullable().alter()
+      table.string('imdb').nullable().alter()
+    })
+  }
+
+  async down() {
+    this.schema.alterTable(this.tableName, (table) => {
+      table.integer('trakt').unsigned().notNullable().alter()
+      table.integer('tvdb').unsigned().notNullable().alter()
+      table.integer('tmdb').unsigned().notNullable().alter()
+      table.string('imdb').notNullable().alter()
+    })
+  }
+}
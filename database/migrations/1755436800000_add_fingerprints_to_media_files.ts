@@ -0,0 +1,31 @@
+import { BaseSchema } from '@adonisjs/lucid/schema'
+
+export default class extends BaseSchema {
+  protected tableName = 'media_files'
+
+  async up() {
+    this.schema.alterTable(this.tableName, (table) => {
+      table.string('fingerprint', 64).nullable().index()
+      table.jsonb('fingerprint_samples').nullable()
+      // Set when the file looks like a copy of another one, for the admin to review
+      table
+        .string('duplicate_of_id', 25)
+        .nullable()
+        .references('id')
+        .inTable(this.tableName)
+        .onDelete('SET NULL')
+
+      table.index(['fingerprint_samples'], 'media_files_fingerprint_samples_index', {
+        indexType: 'gin',
+      })
+    })
+  }
+
+  async down() {
+    this.schema.alterTable(this.tableName, (table) => {
+      table.dropIndex(['fingerprint_samples'], 'media_files_fingerprint_samples_index')
+      table.dropForeign(['duplicate_of_id'])
+      table.dropColumns('fingerprint', 'fingerprint_samples', 'duplicate_of_id')
+    })
+  }
+}
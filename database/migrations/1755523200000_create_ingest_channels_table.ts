@@ -0,0 +1,97 @@
+import { cuid } from '@adonisjs/core/helpers'
+import { BaseSchema } from '@adonisjs/lucid/schema'
+
+import { TGService } from '#services/tg_service'
+import env from '#start/env'
+
+export default class extends BaseSchema {
+  protected tableName = 'ingest_channels'
+
+  async up() {
+    this.schema.createTable(this.tableName, (table) => {
+      table.string('id', 25).primary()
+      table.bigint('chat_id').notNullable().unique()
+      table.string('title').nullable()
+      table.enum('default_type', ['movie', 'show']).nullable()
+      table.enum('caption_format', ['caption', 'filename']).notNullable().defaultTo('caption')
+      table.string('language', 8).nullable()
+      table.boolean('auto_import').notNullable().defaultTo(true)
+
+      table.timestamp('created_at').notNullable()
+      table.timestamp('updated_at').notNullable()
+    })
+
+    // Chats files were already imported from keep being ingested. Links of public channels
+    // only carry the username, which is resolved to the chat id.
+    this.defer(async (db) => {
+      const chatIds = new Set<number>()
+      const usernames = new Set<string>()
+      for (const source of ['media_files', 'tracks', 'subtitles']) {
+        const rows = await db.from(source).select('tg_metadata')
+        for (const row of rows) {
+          const { chatId, fileLink } = row.tg_metadata
+          if (chatId) {
+            chatIds.add(chatId)
+            continue
+          }
+          const username = /t\.me\/(?!c\/)(\w+)\/\d+/.exec(fileLink ?? '')?.[1]
+          if (username) usernames.add(username)
+        }
+      }
+      for (const chatId of await resolveUsernames([...usernames])) chatIds.add(chatId)
+      if (!chatIds.size) return
+      const now = new Date()
+      await db.table(this.tableName).multiInsert(
+        [...chatIds].map((chatId) => ({
+          id: cuid(),
+          chat_id: chatId,
+          created_at: now,
+          updated_at: now,
+        }))
+      )
+    })
+  }
+
+  async down() {
+    this.schema.dropTable(this.tableName)
+  }
+}
+
+/**
+ * Resolve public channels with the main bot. Channels that cannot be resolved
+ * fail the migration, so none of them silently stops being ingested.
+ */
+async function resolveUsernames(usernames: string[]) {
+  if (!usernames.length) return []
+
+  const { tg } = new TGService('client.migration.session')
+  const chatIds: number[] = []
+  const unresolved: string[] = []
+  try {
+    await tg.start({ botToken: env.get('TG_MAIN_BOT_TOKEN') })
+    for (const username of usernames) {
+      try {
+        const chat = await tg.getChat(username)
+        chatIds.push(chat.id)
+      } catch {
+        unresolved.push(username)
+      }
+    }
+  } catch (error) {
+    throw new Error(`Cannot log in to resolve the channels ${list(usernames)}: ${error.message}`)
+  } finally {
+    await tg.destroy()
+  }
+
+  if (unresolved.length) {
+    throw new Error(
+      `Cannot resolve the channels ${list(unresolved)}, they would stop being ingested. ` +
+        'Make them reachable by the main bot and migrate again.'
+    )
+  }
+  return chatIds
+}
+
+function list(usernames: string[]) {
+  return usernames.map((username) => `@${username}`).join(', ')
+}
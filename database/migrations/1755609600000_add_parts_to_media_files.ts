@@ -0,0 +1,22 @@
+import { BaseSchema } from '@adonisjs/lucid/schema'
+
+export default class extends BaseSchema {
+  protected tableName = 'media_files'
+
+  async up() {
+    this.schema.alterTable(this.tableName, (table) => {
+      // File name without the part marker, shared by the uploads of a split file
+      table.string('part_group').nullable().index()
+      table.jsonb('parts').nullable()
+
+      table.index(['parts'], 'media_files_parts_index', { indexType: 'gin' })
+    })
+  }
+
+  async down() {
+    this.schema.alterTable(this.tableName, (table) => {
+      table.dropIndex(['parts'], 'media_files_parts_index')
+      table.dropColumns('part_group', 'parts')
+    })
+  }
+}
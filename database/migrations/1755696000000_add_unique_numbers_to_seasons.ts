@@ -0,0 +1,25 @@
+import { BaseSchema } from '@adonisjs/lucid/schema'
+
+import { TVRepairService } from '#services/tv_repair_service'
+
+export default class extends BaseSchema {
+  protected tableName = 'seasons'
+
+  async up() {
+    // Concurrent ingests left duplicates behind, they are merged like `node ace tv:repair`
+    // does before the seasons, episodes and shows get their unique constraints
+    this.defer(async (db) => {
+      await new TVRepairService().merge(db)
+    })
+
+    this.schema.alterTable(this.tableName, (table) => {
+      table.unique(['tv_id', 'number'])
+    })
+  }
+
+  async down() {
+    this.schema.alterTable(this.tableName, (table) => {
+      table.dropUnique(['tv_id', 'number'])
+    })
+  }
+}
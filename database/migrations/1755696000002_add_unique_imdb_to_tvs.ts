@@ -0,0 +1,18 @@
+import { BaseSchema } from '@adonisjs/lucid/schema'
+
+export default class extends BaseSchema {
+  protected tableName = 'tvs'
+
+  async up() {
+    // Duplicates were merged by the seasons migration before this one
+    this.schema.alterTable(this.tableName, (table) => {
+      table.unique(['imdb'])
+    })
+  }
+
+  async down() {
+    this.schema.alterTable(this.tableName, (table) => {
+      table.dropUnique(['imdb'])
+    })
+  }
+}
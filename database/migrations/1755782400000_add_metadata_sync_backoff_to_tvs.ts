@@ -0,0 +1,19 @@
+import { BaseSchema } from '@adonisjs/lucid/schema'
+
+export default class extends BaseSchema {
+  protected tableName = 'tvs'
+
+  async up() {
+    this.schema.alterTable(this.tableName, (table) => {
+      // Failed syncs in a row, each one pushes the next attempt further back
+      table.integer('metadata_sync_failures').unsigned().notNullable().defaultTo(0)
+      table.timestamp('metadata_sync_retry_at').nullable()
+    })
+  }
+
+  async down() {
+    this.schema.alterTable(this.tableName, (table) => {
+      table.dropColumns('metadata_sync_failures', 'metadata_sync_retry_at')
+    })
+  }
+}
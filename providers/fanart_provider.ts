@@ -1,11 +1,13 @@
 import { Fanart } from '@hitarashi/fanart'
 
 import type { ApplicationService } from '@adonisjs/core/types'
+import { ArtworkService } from '#services/artwork_service'
 import env from '#start/env'
 
 declare module '@adonisjs/core/types' {
   interface ContainerBindings {
     fanart: Fanart
+    artwork: ArtworkService
   }
 }
 
@@ -19,6 +21,7 @@ export default class FanartProvider {
     this.app.container.singleton('fanart', () => {
       return new Fanart(env.get('FANART_API_KEY'))
     })
+    this.app.container.singleton('artwork', () => new ArtworkService())
   }
 
   /**
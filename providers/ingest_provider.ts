@@ -0,0 +1,54 @@
+import type { ApplicationService } from '@adonisjs/core/types'
+
+import { IngestBotService } from '#services/ingest_bot_service'
+import { IngestQueueService } from '#services/ingest_queue_service'
+import { IngestService } from '#services/ingest_service'
+
+declare module '@adonisjs/core/types' {
+  interface ContainerBindings {
+    'ingest': IngestService
+    'ingest:queue': IngestQueueService
+    'ingest:bot': IngestBotService
+  }
+}
+
+export default class IngestProvider {
+  constructor(protected app: ApplicationService) {}
+
+  /**
+   * Register bindings to the container
+   */
+  register() {
+    this.app.container.singleton('ingest', async (resolver) => {
+      return new IngestService(await resolver.make('tg'))
+    })
+    this.app.container.singleton('ingest:queue', () => new IngestQueueService())
+    this.app.container.singleton('ingest:bot', () => new IngestBotService())
+  }
+
+  /**
+   * The container bindings have booted
+   */
+  async boot() {}
+
+  /**
+   * The application has been booted
+   */
+  async start() {}
+
+  /**
+   * The process has been started
+   */
+  async ready() {
+    const queue = await this.app.container.make('ingest:queue')
+    await queue.start()
+  }
+
+  /**
+   * Preparing to shutdown the app
+   */
+  async shutdown() {
+    const queue = await this.app.container.make('ingest:queue')
+    queue.stop()
+  }
+}
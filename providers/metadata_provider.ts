@@ -0,0 +1,63 @@
+import type { ApplicationService } from '@adonisjs/core/types'
+
+import { LocalMetadataProvider } from '#services/metadata/local_metadata_provider'
+import { TmdbMetadataProvider } from '#services/metadata/tmdb_metadata_provider'
+import { TraktMetadataProvider } from '#services/metadata/trakt_metadata_provider'
+import { MetadataService } from '#services/metadata_service'
+import { MetadataSyncService } from '#services/metadata_sync_service'
+import type { MetadataConfig, MetadataProvider as MetadataSourceProvider } from '#types/metadata'
+
+declare module '@adonisjs/core/types' {
+  interface ContainerBindings {
+    'metadata': MetadataService
+    'metadata:sync': MetadataSyncService
+  }
+}
+
+export default class MetadataProvider {
+  constructor(protected app: ApplicationService) {}
+
+  /**
+   * Register bindings to the container
+   */
+  register() {
+    this.app.container.singleton('metadata', () => {
+      const config = this.app.config.get<MetadataConfig>('metadata')
+      const providers = config.providers.map((name): MetadataSourceProvider => {
+        if (name === 'trakt') return new TraktMetadataProvider()
+        if (name === 'tmdb') return new TmdbMetadataProvider()
+        if (name === 'local') return new LocalMetadataProvider(config.local.path)
+        throw new Error(`Unknown metadata provider "${name}"`)
+      })
+      return new MetadataService(providers)
+    })
+    this.app.container.singleton('metadata:sync', () => new MetadataSyncService())
+  }
+
+  /**
+   * The container bindings have booted
+   */
+  async boot() {}
+
+  /**
+   * The application has been booted
+   */
+  async start() {}
+
+  /**
+   * The process has been started
+   */
+  async ready() {
+    if (this.app.getEnvironment() !== 'web') return
+    const sync = await this.app.container.make('metadata:sync')
+    sync.start()
+  }
+
+  /**
+   * Preparing to shutdown the app
+   */
+  async shutdown() {
+    const sync = await this.app.container.make('metadata:sync')
+    sync.stop()
+  }
+}
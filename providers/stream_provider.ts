@@ -0,0 +1,45 @@
+import type { ApplicationService } from '@adonisjs/core/types'
+import { MediaStreamService } from '#services/media_stream_service'
+import { StreamSigningService } from '#services/stream_signing_service'
+import env from '#start/env'
+
+declare module '@adonisjs/core/types' {
+  interface ContainerBindings {
+    'stream': MediaStreamService
+    'stream:signing': StreamSigningService
+  }
+}
+
+export default class StreamProvider {
+  constructor(protected app: ApplicationService) {}
+
+  /**
+   * Register bindings to the container
+   */
+  register() {
+    this.app.container.singleton('stream', () => new MediaStreamService())
+    this.app.container.singleton('stream:signing', () => {
+      return new StreamSigningService(env.get('STREAM_SIGNING_SECRET') || env.get('APP_KEY'))
+    })
+  }
+
+  /**
+   * The container bindings have booted
+   */
+  async boot() {}
+
+  /**
+   * The application has been booted
+   */
+  async start() {}
+
+  /**
+   * The process has been started
+   */
+  async ready() {}
+
+  /**
+   * Preparing to shutdown the app
+   */
+  async shutdown() {}
+}
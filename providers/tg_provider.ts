@@ -1,18 +1,16 @@
 import logger from '@adonisjs/core/services/logger'
-import { filters, MessageContext } from '@mtcute/dispatcher'
-import type { Document, Video } from '@mtcute/node'
+import { CallbackQueryContext, filters, MessageContext } from '@mtcute/dispatcher'
+import type { Audio, DeleteMessageUpdate, Document, Video } from '@mtcute/node'
 
 import type { ApplicationService } from '@adonisjs/core/types'
 
-import Episode from '#models/episode'
-import Movie from '#models/movie'
-import Season from '#models/season'
-import TV from '#models/tv'
+import IngestChannel from '#models/ingest_channel'
 import env from '#start/env'
+import { ChunkCacheService } from '#services/chunk_cache_service'
+import { IngestCallback } from '#services/ingest_bot_service'
 import { TGService } from '#services/tg_service'
+import type { StreamConfig } from '#types/stream'
 import app from '@adonisjs/core/services/app'
-import { parseMediaText } from '#utils/tg'
-import { ParsedMovieText, ParsedShowText } from '#types/tg'
 
 declare module '@adonisjs/core/types' {
   interface ContainerBindings {
@@ -28,7 +26,11 @@ export default class TGProvider {
    */
   register() {
     this.App.container.singleton('tg', () => {
-      return new TGService()
+      const { cache, workerTokens } = this.App.config.get<StreamConfig>('stream')
+      return new TGService(undefined, {
+        cache: cache.maxSize > 0 ? new ChunkCacheService(cache.path, cache.maxSize) : undefined,
+        workerTokens,
+      })
     })
   }
 
@@ -41,10 +43,11 @@ export default class TGProvider {
    * The application has been booted
    */
   async start() {
-    const { tg } = await this.App.container.make('tg')
+    const { tg, workers } = await this.App.container.make('tg')
     const self = await tg.start({ botToken: env.get('TG_MAIN_BOT_TOKEN') })
     const tgLogger = await this.App.container.make('tg:logger')
     await tgLogger.info(`Logged in Telegram as '${self.displayName}'`)
+    await workers.start()
   }
 
   /**
@@ -54,181 +57,100 @@ export default class TGProvider {
     const { dp } = await this.App.container.make('tg')
     dp.onNewMessage(filters.document, handleTGMessage)
     dp.onNewMessage(filters.video, handleTGMessage)
+    dp.onNewMessage(filters.audio, handleTGMessage)
+    dp.onEditMessage(filters.document, handleTGEdit)
+    dp.onEditMessage(filters.video, handleTGEdit)
+    dp.onEditMessage(filters.audio, handleTGEdit)
+    dp.onDeleteMessage(handleTGDelete)
+    dp.onCallbackQuery(IngestCallback.filter(), handleIngestCallback)
   }
 
   /**
    * Preparing to shut down the app
    */
   async shutdown() {
-    const { tg, dp } = await this.App.container.make('tg')
+    const { tg, dp, workers } = await this.App.container.make('tg')
+    await workers.stop()
     await tg.disconnect()
     await dp.destroy()
     await tg.destroy()
   }
 }
 
-const handleTGMessage = async (
-  ctx:
-    | filters.Modify<
-        MessageContext,
-        {
-          media: Document
-        }
-      >
-    | filters.Modify<
-        MessageContext,
-        {
-          media: filters.Modify<
-            Video,
-            {
-              isRound: false
-              isAnimation: false
-            }
-          >
-        }
-      >
-) => {
-  const { text, media } = ctx
-  logger.info(`Processing: ${media.fileName}, ${text}`)
-  const meta = parseMediaText(text)
-  if (!meta) return logger.error(`Failed to parse media info: ${text}`)
-  if (meta.type === 'movie') return handleMovie(meta, ctx)
-  if (meta.type === 'show') return handleTV(meta, ctx)
-}
+type MediaMessageContext =
+  | filters.Modify<
+      MessageContext,
+      {
+        media: Document
+      }
+    >
+  | filters.Modify<
+      MessageContext,
+      {
+        media: filters.Modify<
+          Video,
+          {
+            isRound: false
+            isAnimation: false
+          }
+        >
+      }
+    >
+  | filters.Modify<
+      MessageContext,
+      {
+        media: Audio
+      }
+    >
+
+const handleTGMessage = async (ctx: MediaMessageContext) => {
+  const channel = await IngestChannel.findBy('chatId', ctx.chat.id)
+  if (!channel) {
+    logger.debug(`Ignoring ${ctx.link}, the chat is not an ingest channel`)
+    return
+  }
 
-const handleMovie = async (
-  meta: ParsedMovieText,
-  ctx: filters.Modify<
-    MessageContext,
-    {
-      media:
-        | Document
-        | filters.Modify<
-            Video,
-            {
-              isRound: false
-              isAnimation: false
-            }
-          >
-    }
-  >
-) => {
-  const { media, link } = ctx
-  const trakt = await app.container.make('trakt')
-  const traktMovie = await trakt.movies.get(meta.imdb)
-
-  const movieExists = await Movie.query()
-    .where('id', '=', traktMovie.ids.slug)
-    .orWhere('trakt', '=', traktMovie.ids.trakt)
-    .if(traktMovie.ids.imdb, (q) => q.orWhere('imdb', '=', traktMovie.ids.imdb!))
-    .if(traktMovie.ids.tmdb, (q) => q.orWhere('tmdb', '=', traktMovie.ids.tmdb!))
-    .first()
-
-  const tmdb = await app.container.make('tmdb')
-  const tmdbMovie = await tmdb.movies.details(traktMovie.ids.tmdb!)
-
-  if (movieExists) return logger.info(`Movie already exists: ${traktMovie.title}`)
-  const movie = await Movie.create({
-    id: traktMovie.ids.slug,
-    title: traktMovie.title,
-    trakt: traktMovie.ids.trakt,
-    tmdb: traktMovie.ids.tmdb,
-    year: traktMovie.year,
-    imdb: traktMovie.ids.imdb,
-    poster: tmdbMovie.poster_path,
-    metadata: { size: media.fileSize!, mimeType: media.mimeType, filename: media.fileName! },
-    tgMetadata: { fileId: media.fileId, fileLink: link },
-  })
-
-  await movie.save()
-  return logger.info(`Movie ${movie.title}:${movie.imdb} added`)
+  if (!channel.autoImport) {
+    const bot = await app.container.make('ingest:bot')
+    await bot.requestApproval(ctx)
+    logger.info(`Waiting for approval of ${ctx.link}`)
+    return
+  }
+
+  const queue = await app.container.make('ingest:queue')
+  await queue.push(ctx)
+  logger.info(`Queued ${ctx.link} for ingestion`)
 }
 
-const handleTV = async (
-  meta: ParsedShowText,
-  ctx: filters.Modify<
-    MessageContext,
-    {
-      media:
-        | Document
-        | filters.Modify<
-            Video,
-            {
-              isRound: false
-              isAnimation: false
-            }
-          >
-    }
-  >
-) => {
-  const { media, link } = ctx
-  const trakt = await app.container.make('trakt')
-  const traktShow = await trakt.shows.get(meta.imdb)
-  if (!traktShow) return logger.error(meta, `No results found`)
-
-  // tv checks
-  let tv = await TV.query()
-    .where('id', '=', traktShow.ids.slug)
-    .orWhere('trakt', '=', traktShow.ids.trakt)
-    .if(traktShow.ids.tvdb, (q) => q.orWhere('tvdb', '=', traktShow.ids.tvdb!))
-    .if(traktShow.ids.imdb, (q) => q.orWhere('imdb', '=', traktShow.ids.imdb!))
-    .first()
-  if (tv) logger.info(`TV ${tv.title} already exists`)
-  if (!tv) {
-    tv = await TV.create({
-      id: traktShow.ids.slug,
-      title: traktShow.title,
-      year: traktShow.year,
-      trakt: traktShow.ids.trakt,
-      tmdb: traktShow.ids.tmdb,
-      tvdb: traktShow.ids.tvdb,
-      imdb: traktShow.ids.imdb,
-    })
-    await tv.save()
+/**
+ * A caption edit re-runs the match, the file moves if the title changed. Other
+ * edits of imported files are ignored, files not imported yet are handled like
+ * new uploads.
+ */
+const handleTGEdit = async (ctx: MediaMessageContext) => {
+  const ingest = await app.container.make('ingest')
+  const caption = await ingest.ingestedCaption(ctx.chat.id, ctx.id)
+  if (caption === undefined) return handleTGMessage(ctx)
+  if (caption === ctx.text) {
+    logger.debug(`Ignoring the edit of ${ctx.link}, the caption did not change`)
+    return
   }
 
-  // season checks
-  const traktSeason = await trakt.shows.season(tv.id, meta.season)
-  let season = await Season.query()
-    .where('number', '=', traktSeason.number)
-    .andWhere('trakt', '=', traktSeason.ids.trakt)
-    .first()
-  if (season) logger.info(`TV ${tv.title} Season ${season.number} already exists`)
-  if (!season) {
-    season = await tv.related('seasons').create({
-      number: traktSeason.number,
-      trakt: traktSeason.ids.trakt,
-      tvdb: traktSeason.ids.tvdb,
-      tmdb: traktSeason.ids.tmdb,
-    })
-    await season.save()
-  }
+  const queue = await app.container.make('ingest:queue')
+  await queue.push(ctx)
+  logger.info(`Queued ${ctx.link} for ingestion, the caption was edited`)
+}
 
-  // episode checks
-  const traktEpisode = await trakt.shows.episode(traktShow.ids.slug, season.number, meta.episode)
-  const episodeExists = await Episode.query()
-    .where('season', '=', traktEpisode.season)
-    .andWhere('number', '=', traktEpisode.number)
-    .andWhere('trakt', '=', traktEpisode.ids.trakt)
-    .first()
-
-  if (episodeExists)
-    return logger.info(
-      `TV ${tv.title} Season ${season.number} Episode ${episodeExists.number} already exists`
-    )
-
-  const episode = await season.related('episodes').create({
-    number: traktEpisode.number,
-    season: traktEpisode.season,
-    imdb: traktEpisode.ids.imdb,
-    tmdb: traktEpisode.ids.tmdb,
-    tvdb: traktEpisode.ids.tvdb,
-    trakt: traktEpisode.ids.trakt,
-    title: traktEpisode.title,
-    metadata: { mimeType: media.mimeType, size: media.fileSize!, filename: media.fileName! },
-    tgMetadata: { fileId: media.fileId, fileLink: link },
-  })
-  await episode.save()
-
-  return logger.info(`TV ${tv.title} Season ${season.number} Episode ${episode.number} added`)
+const handleTGDelete = async (update: DeleteMessageUpdate) => {
+  // Only channels report which chat the deleted messages belong to
+  if (update.channelId === null) return
+  const ingest = await app.container.make('ingest')
+  await ingest.removeMessages(update.channelId, update.messageIds)
+}
+
+const handleIngestCallback = async (
+  ctx: filters.Modify<CallbackQueryContext, { match: Record<'action' | 'tmdb', string> }>
+) => {
+  const bot = await app.container.make('ingest:bot')
+  await bot.handleCallback(ctx, ctx.match)
 }
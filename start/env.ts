@@ -18,6 +18,7 @@ export default await Env.create(new URL('../', import.meta.url), {
   HOST: Env.schema.string({ format: 'host' }),
   LOG_LEVEL: Env.schema.enum(['fatal', 'error', 'warn', 'info', 'debug', 'trace']),
   BACKEND_URL: Env.schema.string(),
+  FRONTEND_URL: Env.schema.string(),
 
   /*
   |----------------------------------------------------------
@@ -36,6 +37,7 @@ export default await Env.create(new URL('../', import.meta.url), {
   TG_LOG_CHANNEL: Env.schema.number(),
   TG_MAIN_BOT_TOKEN: Env.schema.string(),
   TG_ADMIN_ID: Env.schema.number(),
+  TG_WORKER_BOT_TOKENS: Env.schema.string.optional(),
 
   TRAKT_CLIENT_ID: Env.schema.string(),
   TRAKT_CLIENT_SECRET: Env.schema.string(),
@@ -47,4 +49,27 @@ export default await Env.create(new URL('../', import.meta.url), {
   FANART_API_KEY: Env.schema.string(),
 
   TMDB_API_KEY: Env.schema.string(),
+
+  /*
+  |----------------------------------------------------------
+  | Secret of signed stream URLs, defaults to APP_KEY
+  |----------------------------------------------------------
+  */
+  STREAM_SIGNING_SECRET: Env.schema.string.optional(),
+
+  /*
+  |----------------------------------------------------------
+  | Variables for configuring the stream chunk cache
+  |----------------------------------------------------------
+  */
+  STREAM_CACHE_PATH: Env.schema.string.optional(),
+  STREAM_CACHE_SIZE: Env.schema.number.optional(),
+
+  /*
+  |----------------------------------------------------------
+  | Variables for configuring metadata providers
+  |----------------------------------------------------------
+  */
+  METADATA_PROVIDERS: Env.schema.string.optional(),
+  METADATA_LOCAL_PATH: Env.schema.string.optional(),
 })
@@ -15,6 +15,15 @@ const DocsController = () => import('#controllers/docs_controller')
 const AuthController = () => import('#controllers/auth_controller')
 const MoviesController = () => import('#controllers/movies_controller')
 const TVShowsController = () => import('#controllers/tvs_controller')
+const ArtistsController = () => import('#controllers/artists_controller')
+const AlbumsController = () => import('#controllers/albums_controller')
+const TracksController = () => import('#controllers/tracks_controller')
+const SubtitlesController = () => import('#controllers/subtitles_controller')
+const FailedJobsController = () => import('#controllers/failed_jobs_controller')
+const CollisionsController = () => import('#controllers/collisions_controller')
+const IngestChannelsController = () => import('#controllers/ingest_channels_controller')
+const LibraryController = () => import('#controllers/library_controller')
+const StreamsController = () => import('#controllers/streams_controller')
 
 router
   .group(() => {
@@ -63,6 +72,18 @@ router
           .get('/:id', [MoviesController, 'show'])
           .as('show')
           .where('id', router.matchers.slug())
+        router
+          .get('/:id/artwork', [MoviesController, 'artwork'])
+          .as('artwork')
+          .where('id', router.matchers.slug())
+        router
+          .get('/:id/files', [MoviesController, 'files'])
+          .as('files')
+          .where('id', router.matchers.slug())
+        router
+          .get('/:id/subtitles', [MoviesController, 'subtitles'])
+          .as('subtitles')
+          .where('id', router.matchers.slug())
         router
           .get('/:id/stream-url', [MoviesController, 'getStreamUrl'])
           .as('streamUrl')
@@ -86,10 +107,14 @@ router
     router
       .resource('tvs', TVShowsController)
       .only(['index', 'show'])
-      .where('id', router.matchers.number())
+      .where('id', router.matchers.slug())
+    router
+      .get('tvs/:id/artwork', [TVShowsController, 'artwork'])
+      .where('id', router.matchers.slug())
+      .as('tvs.artwork')
     router
       .get('tvs/:tvId/seasons/:seasonNumber', [TVShowsController, 'season'])
-      .where('tvId', router.matchers.number())
+      .where('tvId', router.matchers.slug())
       .where('seasonNumber', router.matchers.number())
       .as('tvs.season')
     router
@@ -97,19 +122,102 @@ router
         TVShowsController,
         'episode',
       ])
-      .where('tvId', router.matchers.number())
+      .where('tvId', router.matchers.slug())
       .where('seasonNumber', router.matchers.number())
       .where('episodeNumber', router.matchers.number())
       .as('tvs.episode')
+    router
+      .get('tvs/:tvId/seasons/:seasonNumber/episodes/:episodeNumber/stream-url', [
+        TVShowsController,
+        'getStreamUrl',
+      ])
+      .where('tvId', router.matchers.slug())
+      .where('seasonNumber', router.matchers.number())
+      .where('episodeNumber', router.matchers.number())
+      .use([middleware.auth()])
+      .as('tvs.episode.streamUrl')
+    // Stream endpoint - no auth required since it uses signed URLs for security
     router
       .get('tvs/:tvId/seasons/:seasonNumber/episodes/:episodeNumber/stream', [
         TVShowsController,
         'stream',
       ])
-      .where('tvId', router.matchers.number())
+      .where('tvId', router.matchers.slug())
       .where('seasonNumber', router.matchers.number())
       .where('episodeNumber', router.matchers.number())
       .as('tvs.episode.stream')
+    router
+      .get('tvs/:tvId/seasons/:seasonNumber/episodes/:episodeNumber/subtitles', [
+        TVShowsController,
+        'subtitles',
+      ])
+      .where('tvId', router.matchers.slug())
+      .where('seasonNumber', router.matchers.number())
+      .where('episodeNumber', router.matchers.number())
+      .as('tvs.episode.subtitles')
+
+    /*
+    |--------------------------------------------------------------------------
+    | SUBTITLES Routes
+    |--------------------------------------------------------------------------
+    */
+    // Text tracks are loaded by the media element, which cannot send the auth header, so
+    // their URLs are signed like the stream URLs
+    router.get('subtitles/:id', [SubtitlesController, 'show']).as('subtitles.show')
+
+    /*
+    |--------------------------------------------------------------------------
+    | MUSIC Routes
+    |--------------------------------------------------------------------------
+    */
+    router
+      .group(() => {
+        router.get('artists', [ArtistsController, 'index']).as('artists.index')
+        router.get('artists/:id', [ArtistsController, 'show']).as('artists.show')
+        router.get('albums', [AlbumsController, 'index']).as('albums.index')
+        router.get('albums/:id', [AlbumsController, 'show']).as('albums.show')
+        router
+          .get('tracks/:id/stream-url', [TracksController, 'getStreamUrl'])
+          .as('tracks.streamUrl')
+      })
+      .as('music')
+      .prefix('music')
+      .use([middleware.auth()])
+
+    // Covers and streams are loaded by media elements, which cannot send the auth header, so
+    // their URLs are signed
+    router.get('music/albums/:id/cover', [AlbumsController, 'cover']).as('music.albums.cover')
+    router.get('music/tracks/:id/stream', [TracksController, 'stream']).as('music.tracks.stream')
+
+    /*
+    |--------------------------------------------------------------------------
+    | ADMIN Routes
+    |--------------------------------------------------------------------------
+    */
+    router
+      .group(() => {
+        router.get('failed-jobs', [FailedJobsController, 'index']).as('failedJobs.index')
+        router
+          .post('failed-jobs/retry', [FailedJobsController, 'retryAll'])
+          .as('failedJobs.retryAll')
+        router.post('failed-jobs/:id/retry', [FailedJobsController, 'retry']).as('failedJobs.retry')
+        router.get('collisions', [CollisionsController, 'index']).as('collisions.index')
+        router.get('streams/stats', [StreamsController, 'stats']).as('streams.stats')
+        router.resource('channels', IngestChannelsController).apiOnly().params({ channels: 'id' })
+        router
+          .post('movies/:id/rematch', [LibraryController, 'rematchMovie'])
+          .as('library.rematchMovie')
+        router
+          .post('episodes/:id/rematch', [LibraryController, 'rematchEpisode'])
+          .as('library.rematchEpisode')
+        router.post('imports', [LibraryController, 'importMessage']).as('library.import')
+        router.delete('media-files/:id', [LibraryController, 'unlinkFile']).as('library.unlinkFile')
+        router.delete('movies/:id', [LibraryController, 'destroyMovie']).as('library.destroyMovie')
+        router.delete('tvs/:id', [LibraryController, 'destroyTV']).as('library.destroyTV')
+      })
+      .as('admin')
+      .prefix('admin')
+      .use([middleware.auth(), middleware.admin()])
   })
   .as('api')
   .prefix('api')
@@ -0,0 +1,360 @@
+import { test } from '@japa/runner'
+
+import { readAudioTags } from '#utils/audio_tags'
+
+const EMPTY_TAGS = {
+  title: null,
+  artist: null,
+  albumArtist: null,
+  album: null,
+  year: null,
+  track: null,
+  disc: null,
+  duration: null,
+  cover: null,
+}
+
+function reader(data: Buffer) {
+  return async (offset: number, length: number) => data.subarray(offset, offset + length)
+}
+
+function uint(value: number, length: number) {
+  const data = Buffer.alloc(length)
+  data.writeUIntBE(value, 0, length)
+  return data
+}
+
+function uintLE(value: number) {
+  const data = Buffer.alloc(4)
+  data.writeUInt32LE(value)
+  return data
+}
+
+/**
+ * Picture bytes that span several of the blocks the reader downloads
+ */
+function picture(size = 100 * 1024) {
+  return Buffer.alloc(size, 0xab)
+}
+
+/*
+|--------------------------------------------------------------------------
+| ID3
+|--------------------------------------------------------------------------
+*/
+
+function syncsafe(value: number) {
+  return Buffer.from([
+    (value >> 21) & 0x7f,
+    (value >> 14) & 0x7f,
+    (value >> 7) & 0x7f,
+    value & 0x7f,
+  ])
+}
+
+function id3Frame(version: number, id: string, body: Buffer) {
+  if (version === 2) return Buffer.concat([Buffer.from(id), uint(body.length, 3), body])
+  const size = version === 4 ? syncsafe(body.length) : uint(body.length, 4)
+  return Buffer.concat([Buffer.from(id), size, uint(0, 2), body])
+}
+
+function id3Tag(version: number, frames: Buffer[], padding = 64) {
+  const body = Buffer.concat([...frames, Buffer.alloc(padding)])
+  return Buffer.concat([
+    Buffer.from([0x49, 0x44, 0x33, version, 0, 0]),
+    syncsafe(body.length),
+    body,
+  ])
+}
+
+function latin1Text(value: string) {
+  return Buffer.concat([Buffer.from([0]), Buffer.from(value, 'latin1')])
+}
+
+function id3v1(fields: {
+  title: string
+  artist: string
+  album: string
+  year: string
+  track: number
+}) {
+  const tag = Buffer.alloc(128)
+  tag.write('TAG', 0, 'latin1')
+  tag.write(fields.title, 3, 'latin1')
+  tag.write(fields.artist, 33, 'latin1')
+  tag.write(fields.album, 63, 'latin1')
+  tag.write(fields.year, 93, 'latin1')
+  tag[126] = fields.track
+  return tag
+}
+
+/*
+|--------------------------------------------------------------------------
+| FLAC and Ogg
+|--------------------------------------------------------------------------
+*/
+
+function vorbisComment(comments: string[]) {
+  const vendor = Buffer.from('reference libFLAC 1.4.3')
+  return Buffer.concat([
+    uintLE(vendor.length),
+    vendor,
+    uintLE(comments.length),
+    ...comments.flatMap((comment) => [uintLE(Buffer.byteLength(comment)), Buffer.from(comment)]),
+  ])
+}
+
+function flacBlock(type: number, body: Buffer, last = false) {
+  return Buffer.concat([Buffer.from([(last ? 0x80 : 0) | type]), uint(body.length, 3), body])
+}
+
+function flacFile(cover: Buffer) {
+  // 44.1kHz and 200 seconds of samples, the total is the last 36 bits
+  const streamInfo = Buffer.alloc(34)
+  streamInfo.writeUIntBE(44_100 << 4, 10, 3)
+  streamInfo.writeUInt32BE(44_100 * 200, 14)
+
+  const comments = vorbisComment([
+    'TITLE=Song',
+    'artist=Band',
+    'ALBUMARTIST=Various',
+    'ALBUM=Record',
+    'DATE=2020-01-01',
+    'TRACKNUMBER=7',
+    'DISCNUMBER=2/2',
+  ])
+  const mimeType = Buffer.from('image/png')
+  const pictureBlock = Buffer.concat([
+    uint(3, 4),
+    uint(mimeType.length, 4),
+    mimeType,
+    uint(0, 4),
+    Buffer.alloc(16),
+    uint(cover.length, 4),
+    cover,
+  ])
+
+  return Buffer.concat([
+    Buffer.from('fLaC'),
+    flacBlock(0, streamInfo),
+    flacBlock(4, comments),
+    flacBlock(6, pictureBlock, true),
+    Buffer.alloc(1024),
+  ])
+}
+
+function oggPage(segments: number[], body: Buffer) {
+  const header = Buffer.alloc(27)
+  header.write('OggS', 0, 'latin1')
+  header[26] = segments.length
+  return Buffer.concat([header, Buffer.from(segments), body])
+}
+
+function lacing(length: number) {
+  return [...Array(Math.floor(length / 255)).fill(255), length % 255]
+}
+
+/*
+|--------------------------------------------------------------------------
+| MP4
+|--------------------------------------------------------------------------
+*/
+
+function atom(type: string, ...body: Buffer[]) {
+  const data = Buffer.concat(body)
+  return Buffer.concat([uint(8 + data.length, 4), Buffer.from(type, 'latin1'), data])
+}
+
+function dataAtom(type: number, value: Buffer) {
+  return atom('data', uint(type, 4), uint(0, 4), value)
+}
+
+test.group('readAudioTags | id3', () => {
+  test('reads ID3v2.3 frames and fills the gaps from ID3v1', async ({ assert }) => {
+    const cover = picture()
+    const apic = Buffer.concat([
+      Buffer.from([0]),
+      Buffer.from('image/jpeg\0'),
+      Buffer.from([3]),
+      Buffer.from('Cover\0'),
+      cover,
+    ])
+    const tag = id3Tag(3, [
+      // UTF-16 with a byte order mark
+      id3Frame(
+        3,
+        'TIT2',
+        Buffer.concat([Buffer.from([1, 0xff, 0xfe]), Buffer.from('Título', 'utf16le')])
+      ),
+      id3Frame(3, 'TPE1', latin1Text('Artist')),
+      id3Frame(3, 'TYER', latin1Text('2019')),
+      id3Frame(3, 'TRCK', latin1Text('3/12')),
+      id3Frame(3, 'TLEN', latin1Text('245000')),
+      id3Frame(3, 'APIC', apic),
+    ])
+    const v1 = id3v1({ title: 'Other', artist: 'Other', album: 'V1 Album', year: '1999', track: 9 })
+    const data = Buffer.concat([tag, Buffer.alloc(4096), v1])
+
+    assert.deepEqual(await readAudioTags(reader(data), data.length), {
+      ...EMPTY_TAGS,
+      title: 'Título',
+      artist: 'Artist',
+      album: 'V1 Album',
+      year: 2019,
+      track: 3,
+      duration: 245,
+      cover: { offset: data.indexOf(cover), length: cover.length, mimeType: 'image/jpeg' },
+    })
+  })
+
+  test('reads syncsafe ID3v2.4 frame sizes', async ({ assert }) => {
+    const album = 'A'.repeat(300)
+    const tag = id3Tag(4, [
+      id3Frame(4, 'TALB', Buffer.concat([Buffer.from([3]), Buffer.from(album)])),
+      id3Frame(4, 'TPE2', Buffer.concat([Buffer.from([3]), Buffer.from('Various')])),
+      id3Frame(4, 'TDRC', latin1Text('2021-05-01')),
+      id3Frame(4, 'TPOS', latin1Text('2/3')),
+    ])
+
+    assert.deepEqual(await readAudioTags(reader(tag), tag.length), {
+      ...EMPTY_TAGS,
+      albumArtist: 'Various',
+      album,
+      year: 2021,
+      disc: 2,
+    })
+  })
+
+  test('reads ID3v2.2 frames and pictures', async ({ assert }) => {
+    const cover = picture(1000)
+    const pic = Buffer.concat([Buffer.from([0]), Buffer.from('PNG'), Buffer.from([3, 0]), cover])
+    const tag = id3Tag(2, [id3Frame(2, 'TT2', latin1Text('Old Song')), id3Frame(2, 'PIC', pic)])
+
+    assert.deepEqual(await readAudioTags(reader(tag), tag.length), {
+      ...EMPTY_TAGS,
+      title: 'Old Song',
+      cover: { offset: tag.indexOf(cover), length: cover.length, mimeType: 'image/png' },
+    })
+  })
+
+  test('reads an ID3v1 tag alone', async ({ assert }) => {
+    const data = Buffer.concat([
+      Buffer.alloc(2048),
+      id3v1({ title: 'Song', artist: 'Band', album: 'Record', year: '1999', track: 4 }),
+    ])
+
+    assert.deepEqual(await readAudioTags(reader(data), data.length), {
+      ...EMPTY_TAGS,
+      title: 'Song',
+      artist: 'Band',
+      album: 'Record',
+      year: 1999,
+      track: 4,
+    })
+  })
+})
+
+test.group('readAudioTags | vorbis comments', () => {
+  test('reads FLAC stream info, comments and pictures', async ({ assert }) => {
+    const cover = picture()
+    const data = flacFile(cover)
+
+    assert.deepEqual(await readAudioTags(reader(data), data.length), {
+      title: 'Song',
+      artist: 'Band',
+      albumArtist: 'Various',
+      album: 'Record',
+      year: 2020,
+      track: 7,
+      disc: 2,
+      duration: 200,
+      cover: { offset: data.indexOf(cover), length: cover.length, mimeType: 'image/png' },
+    })
+  })
+
+  test('reads FLAC behind an ID3v2 tag', async ({ assert }) => {
+    const cover = picture(1000)
+    const tag = id3Tag(3, [id3Frame(3, 'TIT2', latin1Text('Tagged'))])
+    const data = Buffer.concat([tag, flacFile(cover)])
+    const tags = await readAudioTags(reader(data), data.length)
+
+    assert.equal(tags.title, 'Tagged')
+    assert.equal(tags.album, 'Record')
+    assert.equal(tags.duration, 200)
+    assert.deepEqual(tags.cover, {
+      offset: data.indexOf(cover),
+      length: cover.length,
+      mimeType: 'image/png',
+    })
+  })
+
+  test('reads an Ogg comment packet that spans pages', async ({ assert }) => {
+    const identification = Buffer.concat([Buffer.from('\x01vorbis', 'latin1'), Buffer.alloc(23)])
+    const comment = Buffer.concat([
+      Buffer.from('\x03vorbis', 'latin1'),
+      vorbisComment(['TITLE=Song', `COMMENT=${'x'.repeat(500)}`, 'TRACKNUMBER=2']),
+      Buffer.from([1]),
+    ])
+    const segments = lacing(comment.length)
+
+    const data = Buffer.concat([
+      oggPage(
+        [identification.length, 255],
+        Buffer.concat([identification, comment.subarray(0, 255)])
+      ),
+      oggPage(segments.slice(1), comment.subarray(255)),
+    ])
+
+    assert.deepEqual(await readAudioTags(reader(data), data.length), {
+      ...EMPTY_TAGS,
+      title: 'Song',
+      track: 2,
+    })
+  })
+})
+
+test.group('readAudioTags | mp4', () => {
+  test('reads iTunes metadata items', async ({ assert }) => {
+    const cover = picture()
+    const ilst = atom(
+      'ilst',
+      atom('©nam', dataAtom(1, Buffer.from('Song'))),
+      atom('©ART', dataAtom(1, Buffer.from('Band'))),
+      atom('aART', dataAtom(1, Buffer.from('Various'))),
+      atom('©alb', dataAtom(1, Buffer.from('Record'))),
+      atom('©day', dataAtom(1, Buffer.from('2018-04-02T07:00:00Z'))),
+      atom('trkn', dataAtom(0, Buffer.from([0, 0, 0, 5, 0, 12, 0, 0]))),
+      atom('disk', dataAtom(0, Buffer.from([0, 0, 0, 1, 0, 2]))),
+      atom('covr', dataAtom(14, cover))
+    )
+    const mvhd = atom(
+      'mvhd',
+      Buffer.alloc(12),
+      uint(44_100, 4),
+      uint(44_100 * 180, 4),
+      Buffer.alloc(80)
+    )
+    const moov = atom(
+      'moov',
+      mvhd,
+      atom('udta', atom('meta', uint(0, 4), atom('hdlr', Buffer.alloc(25)), ilst))
+    )
+    const data = Buffer.concat([
+      atom('ftyp', Buffer.from('M4A '), uint(0, 4)),
+      atom('mdat', Buffer.alloc(4096)),
+      moov,
+    ])
+
+    assert.deepEqual(await readAudioTags(reader(data), data.length), {
+      title: 'Song',
+      artist: 'Band',
+      albumArtist: 'Various',
+      album: 'Record',
+      year: 2018,
+      track: 5,
+      disc: 1,
+      duration: 180,
+      cover: { offset: data.indexOf(cover), length: cover.length, mimeType: 'image/png' },
+    })
+  })
+})
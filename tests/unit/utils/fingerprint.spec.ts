@@ -0,0 +1,85 @@
+import { test } from '@japa/runner'
+
+import { fingerprintFile, sharedSamples } from '#utils/fingerprint'
+
+const MiB = 1024 * 1024
+
+/**
+ * The same pseudo random bytes for the same seed
+ */
+function fileOf(size: number, seed = 1) {
+  const data = Buffer.alloc(size)
+  let state = seed
+  for (let index = 0; index < size; index++) {
+    state = (Math.imul(state, 1103515245) + 12345) >>> 0
+    data[index] = state >>> 24
+  }
+  return data
+}
+
+function reader(data: Buffer) {
+  return async (offset: number, length: number) => data.subarray(offset, offset + length)
+}
+
+test.group('fingerprintFile', () => {
+  test('samples the start, offsets doubling from 1 MiB and the end', async ({ assert }) => {
+    const { samples } = await fingerprintFile(reader(fileOf(10 * MiB)), 10 * MiB)
+
+    assert.deepEqual(
+      samples.map((sample) => sample.split(':')[0]),
+      ['0', `${MiB}`, `${2 * MiB}`, `${4 * MiB}`, `${8 * MiB}`, 'end']
+    )
+  })
+
+  test('is stable for the same bytes', async ({ assert }) => {
+    const data = fileOf(3 * MiB)
+    const first = await fingerprintFile(reader(data), data.length)
+    const second = await fingerprintFile(reader(Buffer.from(data)), data.length)
+
+    assert.deepEqual(second, first)
+  })
+
+  test('shares the samples in front of the cut with a truncated copy', async ({ assert }) => {
+    const data = fileOf(10 * MiB)
+    const original = await fingerprintFile(reader(data), data.length)
+    const truncated = data.subarray(0, 6 * MiB)
+    const copy = await fingerprintFile(reader(truncated), truncated.length)
+
+    assert.notEqual(copy.hash, original.hash)
+    assert.deepEqual(copy.samples.slice(0, 4), original.samples.slice(0, 4))
+    assert.equal(sharedSamples(original.samples, copy.samples), 4)
+  })
+
+  test('shares all but the first sample with a copy of rewritten headers', async ({ assert }) => {
+    const data = fileOf(5 * MiB)
+    const copy = Buffer.from(data)
+    copy.write('other header', 16)
+
+    const original = await fingerprintFile(reader(data), data.length)
+    const rewritten = await fingerprintFile(reader(copy), copy.length)
+
+    assert.notEqual(rewritten.hash, original.hash)
+    assert.equal(sharedSamples(original.samples, rewritten.samples), original.samples.length - 1)
+  })
+
+  test('differs for a different file of the same size', async ({ assert }) => {
+    const first = await fingerprintFile(reader(fileOf(2 * MiB, 1)), 2 * MiB)
+    const second = await fingerprintFile(reader(fileOf(2 * MiB, 2)), 2 * MiB)
+
+    assert.notEqual(second.hash, first.hash)
+    assert.equal(sharedSamples(first.samples, second.samples), 0)
+  })
+
+  test('reads a file smaller than a sample once', async ({ assert }) => {
+    const data = fileOf(1000)
+    const reads: [number, number][] = []
+    const { samples } = await fingerprintFile(async (offset, length) => {
+      reads.push([offset, length])
+      return data.subarray(offset, offset + length)
+    }, data.length)
+
+    assert.deepEqual(reads, [[0, 1000]])
+    assert.lengthOf(samples, 1)
+    assert.match(samples[0], /^0:[0-9a-f]{32}$/)
+  })
+})
@@ -0,0 +1,331 @@
+import { test } from '@japa/runner'
+
+import { probeMedia } from '#utils/media_probe'
+
+const MiB = 1024 * 1024
+
+function reader(data: Buffer, reads: [number, number][] = []) {
+  return async (offset: number, length: number) => {
+    reads.push([offset, length])
+    return data.subarray(offset, offset + length)
+  }
+}
+
+function uint(value: number, length: number) {
+  const data = Buffer.alloc(length)
+  data.writeUIntBE(value, 0, length)
+  return data
+}
+
+function uint64(value: number) {
+  const data = Buffer.alloc(8)
+  data.writeBigUInt64BE(BigInt(value))
+  return data
+}
+
+/*
+|--------------------------------------------------------------------------
+| MP4 fixtures
+|--------------------------------------------------------------------------
+*/
+
+function box(type: string, ...body: Buffer[]) {
+  const data = Buffer.concat(body)
+  return Buffer.concat([uint(8 + data.length, 4), Buffer.from(type, 'latin1'), data])
+}
+
+/**
+ * A box with a 64-bit size, as used for media data over 4GB
+ */
+function largeBox(type: string, body: Buffer) {
+  return Buffer.concat([uint(1, 4), Buffer.from(type, 'latin1'), uint64(16 + body.length), body])
+}
+
+function withBytes(length: number, fields: [number, Buffer][]) {
+  const data = Buffer.alloc(length)
+  for (const [offset, value] of fields) value.copy(data, offset)
+  return data
+}
+
+function packedLanguage(code: string) {
+  const [a, b, c] = [...code].map((letter) => letter.charCodeAt(0) - 0x60)
+  return uint((a << 10) | (b << 5) | c, 2)
+}
+
+function mp4Track(options: {
+  id: number
+  handler: string
+  language?: string
+  name?: string
+  entry: Buffer
+  extra?: Buffer[]
+  mdia?: Buffer[]
+}) {
+  const tkhd = box(
+    'tkhd',
+    withBytes(84, [
+      [3, uint(1, 1)],
+      [12, uint(options.id, 4)],
+    ])
+  )
+  const mdhd = box('mdhd', withBytes(24, [[20, packedLanguage(options.language ?? 'und')]]))
+  const hdlr = box(
+    'hdlr',
+    withBytes(24, [[8, Buffer.from(options.handler, 'latin1')]]),
+    Buffer.from(`${options.name ?? 'Core Media Handler'}\0`)
+  )
+  const stsd = box('stsd', uint(0, 4), uint(1, 4), options.entry)
+  const minf = box('minf', box('stbl', stsd))
+  return box(
+    'trak',
+    tkhd,
+    ...(options.extra ?? []),
+    box('mdia', mdhd, hdlr, ...(options.mdia ?? []), minf)
+  )
+}
+
+function mp4Fixture(order: 'moov-last' | 'moov-first' = 'moov-last') {
+  const mvhd = box(
+    'mvhd',
+    withBytes(100, [
+      [12, uint(1000, 4)],
+      [16, uint(5_025_500, 4)],
+    ])
+  )
+
+  const avcC = box('avcC', Buffer.from([1, 0x64, 0x00, 0x28, 0xff]))
+  const colr = box('colr', Buffer.from('nclx'), uint(9, 2), uint(16, 2), uint(9, 2), uint(0, 1))
+  const avc1 = box(
+    'avc1',
+    withBytes(78, [
+      [24, uint(1920, 2)],
+      [26, uint(1080, 2)],
+    ]),
+    avcC,
+    colr
+  )
+  const video = mp4Track({
+    id: 1,
+    handler: 'vide',
+    entry: avc1,
+    extra: [box('tref', box('chap', uint(4, 4)))],
+  })
+
+  // ES descriptor > decoder config > decoder specific info of HE-AAC
+  const specific = Buffer.from([0x05, 0x02, 0x28, 0x10])
+  const decoderConfig = Buffer.concat([
+    Buffer.from([0x04, 13 + specific.length, 0x40]),
+    Buffer.alloc(12),
+    specific,
+  ])
+  const esDescriptor = Buffer.concat([
+    Buffer.from([0x03, 3 + decoderConfig.length, 0, 1, 0]),
+    decoderConfig,
+  ])
+  const mp4a = box('mp4a', withBytes(28, [[16, uint(6, 2)]]), box('esds', uint(0, 4), esDescriptor))
+  const audio = mp4Track({ id: 2, handler: 'soun', language: 'eng', name: 'Surround', entry: mp4a })
+
+  const subtitles = mp4Track({
+    id: 3,
+    handler: 'sbtl',
+    language: 'fra',
+    name: 'SubtitleHandler',
+    entry: box('tx3g'),
+    mdia: [box('elng', uint(0, 4), Buffer.from('pt-BR\0'))],
+  })
+  const chapterTitles = mp4Track({ id: 4, handler: 'text', entry: box('text') })
+
+  const chapters = [
+    { start: 0, title: 'Opening' },
+    { start: 90.5, title: 'Part A' },
+  ]
+  const chpl = box(
+    'chpl',
+    Buffer.from([1, 0, 0, 0, 0, 0, 0, 0, chapters.length]),
+    ...chapters.map(({ start, title }) =>
+      Buffer.concat([uint64(start * 10_000_000), uint(title.length, 1), Buffer.from(title)])
+    )
+  )
+
+  const ftyp = box('ftyp', Buffer.from('isom'), uint(512, 4), Buffer.from('isomavc1'))
+  const moov = box('moov', mvhd, video, audio, subtitles, chapterTitles, box('udta', chpl))
+  const mdat = largeBox('mdat', Buffer.alloc(2 * MiB))
+  return Buffer.concat(order === 'moov-last' ? [ftyp, mdat, moov] : [ftyp, moov, mdat])
+}
+
+const MP4_PROBE = {
+  container: 'mp4',
+  duration: 5025.5,
+  video: { codec: 'avc1.640028', profile: 'High', width: 1920, height: 1080, hdr: 'hdr10' },
+  audioTracks: [
+    { codec: 'mp4a.40.5', language: 'en', title: 'Surround', channels: 6, default: true },
+  ],
+  subtitleTracks: [{ codec: 'tx3g', language: 'pt', title: null, default: false, forced: false }],
+  chapters: [
+    { title: 'Opening', start: 0 },
+    { title: 'Part A', start: 90.5 },
+  ],
+}
+
+/*
+|--------------------------------------------------------------------------
+| Matroska fixtures
+|--------------------------------------------------------------------------
+*/
+
+function vintSize(size: number) {
+  if (size < 0x7f) return uint(0x80 | size, 1)
+  if (size < 0x3fff) return uint(0x4000 | size, 2)
+  return uint(0x10000000 | size, 4)
+}
+
+function element(id: number, ...body: (Buffer | string | number)[]) {
+  const data = Buffer.concat(
+    body.map((value) =>
+      typeof value === 'string'
+        ? Buffer.from(value)
+        : typeof value === 'number'
+          ? uint(value, value > 0xffff ? 4 : value > 0xff ? 2 : 1)
+          : value
+    )
+  )
+  const idLength = Math.ceil(id.toString(16).length / 2)
+  return Buffer.concat([uint(id, idLength), vintSize(data.length), data])
+}
+
+function float(value: number) {
+  const data = Buffer.alloc(8)
+  data.writeDoubleBE(value)
+  return data
+}
+
+function matroskaFixture(docType = 'matroska') {
+  const header = element(0x1a45dfa3, element(0x4282, docType))
+  const info = element(0x1549a966, element(0x2ad7b1, 1_000_000), element(0x4489, float(5_025_500)))
+
+  // HEVC Main 10, the compatibility flag of profile 2 and level 4
+  const hvcC = Buffer.from([1, 0x02, 0x20, 0, 0, 0, 0x90, 0, 0, 0, 0, 0, 120])
+  const videoTrack = element(
+    0xae,
+    element(0x83, 1),
+    element(0x86, 'V_MPEGH/ISO/HEVC'),
+    element(0x63a2, hvcC),
+    element(0xe0, element(0xb0, 3840), element(0xba, 2160)),
+    element(0x41e4, element(0x41e7, uint(Buffer.from('dvvC').readUInt32BE(), 4)))
+  )
+  const surround = element(
+    0xae,
+    element(0x83, 2),
+    element(0x86, 'A_EAC3'),
+    element(0x22b59c, 'ger'),
+    element(0x536e, 'Surround'),
+    element(0x88, 0),
+    element(0xe1, element(0x9f, 6))
+  )
+  const stereo = element(
+    0xae,
+    element(0x83, 2),
+    element(0x86, 'A_AAC'),
+    element(0x63a2, Buffer.from([0x13, 0x90]))
+  )
+  const forced = element(
+    0xae,
+    element(0x83, 17),
+    element(0x86, 'S_TEXT/UTF8'),
+    element(0x22b59c, 'por'),
+    element(0x22b59d, 'pt-BR'),
+    element(0x88, 0),
+    element(0x55aa, 1)
+  )
+  const disabled = element(0xae, element(0x83, 17), element(0x86, 'S_HDMV/PGS'), element(0xb9, 0))
+  const tracks = element(0x1654ae6b, videoTrack, surround, stereo, forced, disabled)
+
+  const atom = (start: number, title: string) =>
+    element(0xb6, element(0x91, uint64(start)), element(0x80, element(0x85, title)))
+  const chapters = element(
+    0x1043a770,
+    element(0x45b9, atom(0, 'Opening'), atom(90_500_000_000, 'Part A'))
+  )
+
+  // Tracks and chapters sit behind the first cluster and are found through the seek head
+  const cluster = element(0x1f43b675, Buffer.alloc(2 * MiB))
+  const seek = (id: number, position: number) =>
+    element(0x4dbb, element(0x53ab, uint(id, 4)), element(0x53ac, uint(position, 4)))
+  const seekHeadSize = element(0x114d9b74, seek(0, 0), seek(0, 0)).length
+  const tracksPosition = seekHeadSize + info.length + cluster.length
+  const seekHead = element(
+    0x114d9b74,
+    seek(0x1654ae6b, tracksPosition),
+    seek(0x1043a770, tracksPosition + tracks.length)
+  )
+
+  // Live recordings leave the segment size unknown
+  const segmentHeader = Buffer.from([
+    0x18, 0x53, 0x80, 0x67, 0x01, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff,
+  ])
+  return Buffer.concat([header, segmentHeader, seekHead, info, cluster, tracks, chapters])
+}
+
+const MATROSKA_PROBE = {
+  container: 'matroska',
+  duration: 5025.5,
+  video: {
+    codec: 'hvc1.2.4.L120.90',
+    profile: 'Main 10',
+    width: 3840,
+    height: 2160,
+    hdr: 'dolby-vision',
+  },
+  audioTracks: [
+    { codec: 'ec-3', language: 'de', title: 'Surround', channels: 6, default: false },
+    { codec: 'mp4a.40.2', language: 'en', title: null, channels: null, default: true },
+  ],
+  subtitleTracks: [{ codec: 'srt', language: 'pt', title: null, default: false, forced: true }],
+  chapters: [
+    { title: 'Opening', start: 0 },
+    { title: 'Part A', start: 90.5 },
+  ],
+}
+
+test.group('probeMedia | mp4', () => {
+  test('reads the moov box behind a 64-bit mdat box', async ({ assert }) => {
+    const data = mp4Fixture('moov-last')
+    assert.deepEqual(await probeMedia(reader(data), data.length), MP4_PROBE)
+  })
+
+  test('reads a moov box in front of the media data', async ({ assert }) => {
+    const data = mp4Fixture('moov-first')
+    assert.deepEqual(await probeMedia(reader(data), data.length), MP4_PROBE)
+  })
+
+  test('downloads only the first and last megabyte', async ({ assert }) => {
+    const data = mp4Fixture('moov-last')
+    const reads: [number, number][] = []
+    await probeMedia(reader(data, reads), data.length)
+
+    assert.deepEqual(reads, [
+      [0, MiB],
+      [data.length - MiB, MiB],
+    ])
+  })
+})
+
+test.group('probeMedia | matroska', () => {
+  test('reads elements found through the seek head', async ({ assert }) => {
+    const data = matroskaFixture()
+    assert.deepEqual(await probeMedia(reader(data), data.length), MATROSKA_PROBE)
+  })
+
+  test('tells WebM from Matroska by the doc type', async ({ assert }) => {
+    const data = matroskaFixture('webm')
+    const probe = await probeMedia(reader(data), data.length)
+    assert.equal(probe?.container, 'webm')
+  })
+})
+
+test.group('probeMedia', () => {
+  test('returns null for other containers', async ({ assert }) => {
+    const data = Buffer.from('RIFF\0\0\0\0AVI LIST')
+    assert.isNull(await probeMedia(reader(data), data.length))
+  })
+})
@@ -0,0 +1,76 @@
+import { test } from '@japa/runner'
+
+import { parseRange } from '#utils/range'
+
+test.group('parseRange', () => {
+  test('reads {header}')
+    .with([
+      { header: 'bytes=0-499', expected: [{ start: 0, end: 499 }] },
+      { header: 'bytes=500-', expected: [{ start: 500, end: 999 }] },
+      { header: 'bytes=900-1500', expected: [{ start: 900, end: 999 }] },
+      { header: 'BYTES = 0 - 9', expected: [{ start: 0, end: 9 }] },
+      {
+        header: 'bytes=0-1,,5-6',
+        expected: [
+          { start: 0, end: 1 },
+          { start: 5, end: 6 },
+        ],
+      },
+    ])
+    .run(({ assert }, { header, expected }) => {
+      assert.deepEqual(parseRange(header, 1000), expected)
+    })
+
+  test('reads the suffix range {header}')
+    .with([
+      { header: 'bytes=-500', expected: [{ start: 500, end: 999 }] },
+      { header: 'bytes=-1', expected: [{ start: 999, end: 999 }] },
+      // A suffix longer than the file is the whole file
+      { header: 'bytes=-5000', expected: [{ start: 0, end: 999 }] },
+    ])
+    .run(({ assert }, { header, expected }) => {
+      assert.deepEqual(parseRange(header, 1000), expected)
+    })
+
+  test('merges overlapping and adjacent ranges of {header}')
+    .with([
+      { header: 'bytes=0-99,50-149', expected: [{ start: 0, end: 149 }] },
+      { header: 'bytes=0-99,100-199', expected: [{ start: 0, end: 199 }] },
+      {
+        header: 'bytes=500-599,0-99,50-60',
+        expected: [
+          { start: 0, end: 99 },
+          { start: 500, end: 599 },
+        ],
+      },
+      { header: 'bytes=900-,-200', expected: [{ start: 800, end: 999 }] },
+      {
+        header: 'bytes=0-0,2-2',
+        expected: [
+          { start: 0, end: 0 },
+          { start: 2, end: 2 },
+        ],
+      },
+    ])
+    .run(({ assert }, { header, expected }) => {
+      assert.deepEqual(parseRange(header, 1000), expected)
+    })
+
+  test('returns no ranges when none of {$self} is satisfiable')
+    .with(['bytes=1000-', 'bytes=1000-1999', 'bytes=-0', 'bytes=1500-,2000-2100'])
+    .run(({ assert }, header) => {
+      assert.deepEqual(parseRange(header, 1000), [])
+    })
+
+  test('returns no ranges for an empty file')
+    .with(['bytes=0-', 'bytes=-10'])
+    .run(({ assert }, header) => {
+      assert.deepEqual(parseRange(header, 0), [])
+    })
+
+  test('ignores {$self}')
+    .with(['items=0-9', 'bytes=', 'bytes=-', 'bytes=9-0', 'bytes=a-b', 'bytes=0-9,x'])
+    .run(({ assert }, header) => {
+      assert.isNull(parseRange(header, 1000))
+    })
+})
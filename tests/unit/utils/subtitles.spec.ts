@@ -0,0 +1,127 @@
+import { test } from '@japa/runner'
+
+import { parseSubtitleLanguage, subtitleFormat, toWebVTT } from '#utils/subtitles'
+
+const ASS = `[Script Info]
+Title: Example
+ScriptType: v4.00+
+
+[V4+ Styles]
+Format: Name, Fontname, Fontsize
+Style: Default,Arial,20
+
+[Events]
+Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text
+Dialogue: 0,0:00:05.50,0:00:07.00,Default,,0,0,0,,{\\i1}Later{\\i0}, she said
+Dialogue: 0,0:00:01.00,0:00:03.25,Default,,0,0,0,,First line\\NSecond line
+Comment: 0,0:00:04.00,0:00:05.00,Default,,0,0,0,,Not shown
+Dialogue: 0,1:02:03.04,1:02:04.00,Default,,0,0,0,,Tom & Jerry <3\\hforever
+Dialogue: 0,0:00:09.00,0:00:10.00,Default,,0,0,0,,{\\pos(10,10)}
+`
+
+test.group('toWebVTT', () => {
+  test('converts SRT timestamps and drops positioning tags', ({ assert }) => {
+    const srt = [
+      '1',
+      '00:00:01,000 --> 00:00:03,5',
+      '{\\an8}Hello',
+      '',
+      '2',
+      '0:01:02,345 --> 0:01:04,000',
+      'World',
+    ].join('\r\n')
+
+    assert.equal(
+      toWebVTT(Buffer.from(srt), 'srt'),
+      [
+        'WEBVTT',
+        '',
+        '1',
+        '00:00:01.000 --> 00:00:03.500',
+        'Hello',
+        '',
+        '2',
+        '00:01:02.345 --> 00:01:04.000',
+        'World',
+        '',
+      ].join('\n')
+    )
+  })
+
+  test('keeps the timing and text of ASS dialogue lines in order', ({ assert }) => {
+    assert.equal(
+      toWebVTT(Buffer.from(ASS), 'ass'),
+      [
+        'WEBVTT',
+        '',
+        '00:00:01.000 --> 00:00:03.250',
+        'First line',
+        'Second line',
+        '',
+        '00:00:05.500 --> 00:00:07.000',
+        'Later, she said',
+        '',
+        '01:02:03.040 --> 01:02:04.000',
+        'Tom &amp; Jerry &lt;3 forever',
+        '',
+      ].join('\n')
+    )
+  })
+
+  test('adds the WEBVTT header only when it is missing', ({ assert }) => {
+    const cue = '00:00:01.000 --> 00:00:02.000\nHi'
+    assert.equal(toWebVTT(Buffer.from(`WEBVTT\n\n${cue}`), 'vtt'), `WEBVTT\n\n${cue}\n`)
+    assert.equal(toWebVTT(Buffer.from(cue), 'vtt'), `WEBVTT\n\n${cue}\n`)
+  })
+
+  test('decodes {name} subtitles')
+    .with([
+      {
+        name: 'UTF-8 with a byte order mark',
+        data: Buffer.concat([Buffer.from([0xef, 0xbb, 0xbf]), Buffer.from('Café')]),
+      },
+      {
+        name: 'UTF-16 little endian',
+        data: Buffer.concat([Buffer.from([0xff, 0xfe]), Buffer.from('Café', 'utf16le')]),
+      },
+      {
+        name: 'UTF-16 big endian',
+        data: Buffer.concat([Buffer.from([0xfe, 0xff]), Buffer.from('Café', 'utf16le').swap16()]),
+      },
+      { name: 'Windows-1252', data: Buffer.from([0x43, 0x61, 0x66, 0xe9]) },
+    ])
+    .run(({ assert }, { data }) => {
+      assert.equal(toWebVTT(data, 'vtt'), 'WEBVTT\n\nCafé\n')
+    })
+})
+
+test.group('subtitleFormat', () => {
+  test('reads the format of {fileName}')
+    .with([
+      { fileName: 'Movie.2019.en.srt', mimeType: 'application/octet-stream', expected: 'srt' },
+      { fileName: 'Movie.SSA', mimeType: 'application/octet-stream', expected: 'ass' },
+      { fileName: null, mimeType: 'text/vtt', expected: 'vtt' },
+      { fileName: 'Movie.mkv', mimeType: 'video/x-matroska', expected: null },
+    ])
+    .run(({ assert }, { fileName, mimeType, expected }) => {
+      assert.equal(subtitleFormat(fileName, mimeType), expected)
+    })
+})
+
+test.group('parseSubtitleLanguage', () => {
+  test('reads {expected} from {text} {fileName}')
+    .with([
+      { text: 'lang: pt-BR', fileName: 'Movie.en.srt', expected: 'pt' },
+      { text: 'language = French', fileName: null, expected: 'fr' },
+      { text: '', fileName: 'Movie.2019.eng.forced.srt', expected: 'en' },
+      { text: '', fileName: 'Movie.2019.de.srt', expected: 'de' },
+      { text: '', fileName: 'Movie.2019.srt', expected: 'und' },
+    ])
+    .run(({ assert }, { text, fileName, expected }) => {
+      assert.equal(parseSubtitleLanguage(text, fileName), expected)
+    })
+
+  test('falls back to the given language', ({ assert }) => {
+    assert.equal(parseSubtitleLanguage('', 'Movie.srt', 'ja'), 'ja')
+  })
+})
@@ -0,0 +1,205 @@
+import { test } from '@japa/runner'
+
+import { parseFilePart, parseMediaText, parseReleaseName, parseStructuredCaption } from '#utils/tg'
+
+test.group('parseStructuredCaption', () => {
+  test('reads {name}')
+    .with([
+      {
+        name: 'a JSON object',
+        text: '{"type": "show", "imdb": "tt0944947", "season": 1, "episode": 2}',
+        expected: { type: 'show', imdb: 'tt0944947', season: '1', episode: '2' },
+      },
+      {
+        name: 'a JSON code block',
+        text: '```json\n{"type": "movie", "imdb": "tt0133093", "part": 2}\n```',
+        expected: { type: 'movie', imdb: 'tt0133093', part: '2' },
+      },
+      {
+        name: 'key: value lines',
+        text: 'Type: movie\nIMDB: tt0133093\nlang = pt-BR\nedition:',
+        expected: { type: 'movie', imdb: 'tt0133093', language: 'pt-BR' },
+      },
+    ])
+    .run(({ assert }, { text, expected }) => {
+      assert.deepEqual(parseStructuredCaption(text), expected)
+    })
+
+  test('returns null for {$self}')
+    .with(['The Matrix tt0133093', 'note: no known keys here', 'type: movie\nfree text'])
+    .run(({ assert }, text) => {
+      assert.isNull(parseStructuredCaption(text))
+    })
+
+  test('throws on {$self}')
+    .with(['{"type": "movie",', '{"type": "movie"} trailing'])
+    .run(({ assert }, text) => {
+      assert.throws(() => parseStructuredCaption(text), SyntaxError)
+    })
+})
+
+test.group('parseMediaText', () => {
+  test('reads {text}')
+    .with([
+      { text: 'movie tt0133093', expected: { type: 'movie', imdb: 'tt0133093' } },
+      {
+        text: 'show tt0944947 S01E05',
+        expected: { type: 'show', imdb: 'tt0944947', season: 1, episode: 5 },
+      },
+      {
+        text: 'show tt0944947 S01E01-E02',
+        expected: { type: 'show', imdb: 'tt0944947', season: 1, episode: 1, lastEpisode: 2 },
+      },
+      {
+        text: 'show tt0944947 season: 2 episode: 3-4',
+        expected: { type: 'show', imdb: 'tt0944947', season: 2, episode: 3, lastEpisode: 4 },
+      },
+      {
+        text: 'show tt0388629 E137',
+        expected: { type: 'show', imdb: 'tt0388629', season: null, episode: 137 },
+      },
+      {
+        text: 'show tt0388629 One Piece - 137-138v2',
+        expected: { type: 'show', imdb: 'tt0388629', season: null, episode: 137, lastEpisode: 138 },
+      },
+      // Backwards ranges are a single episode
+      {
+        text: 'show tt0944947 S01E05-E03',
+        expected: { type: 'show', imdb: 'tt0944947', season: 1, episode: 5 },
+      },
+    ])
+    .run(({ assert }, { text, expected }) => {
+      assert.deepEqual(parseMediaText(text), expected)
+    })
+
+  test('reads captions without a type as the default type', ({ assert }) => {
+    assert.deepEqual(parseMediaText('tt0944947 S02E01', 'show'), {
+      type: 'show',
+      imdb: 'tt0944947',
+      season: 2,
+      episode: 1,
+    })
+    assert.isNull(parseMediaText('tt0944947 S02E01'))
+  })
+
+  test('returns null for {$self}')
+    .with(['movie without an id', 'show tt0944947', 'show tt0944947 - 2019'])
+    .run(({ assert }, text) => {
+      assert.isNull(parseMediaText(text))
+    })
+})
+
+test.group('parseReleaseName', () => {
+  test('reads {fileName}')
+    .with([
+      {
+        fileName: 'The.Matrix.1999.1080p.BluRay.x264.mkv',
+        expected: { type: 'movie', title: 'The Matrix', year: 1999 },
+      },
+      {
+        fileName: '2001.A.Space.Odyssey.1968.2160p.mkv',
+        expected: { type: 'movie', title: '2001 A Space Odyssey', year: 1968 },
+      },
+      {
+        fileName: 'Some.Movie.1080p.WEB-DL.mp4',
+        expected: { type: 'movie', title: 'Some Movie', year: null },
+      },
+      {
+        fileName: 'Show.Name.2011.S02E05.720p.mkv',
+        expected: { type: 'show', title: 'Show Name', year: 2011, season: 2, episode: 5 },
+      },
+      {
+        fileName: 'Show.Name.S01E01-E02.1080p.mkv',
+        expected: {
+          type: 'show',
+          title: 'Show Name',
+          year: null,
+          season: 1,
+          episode: 1,
+          lastEpisode: 2,
+        },
+      },
+      {
+        fileName: 'Show Name 2x05-06.avi',
+        expected: {
+          type: 'show',
+          title: 'Show Name',
+          year: null,
+          season: 2,
+          episode: 5,
+          lastEpisode: 6,
+        },
+      },
+      {
+        fileName: '[Group] One Piece - 137 (1080p).mkv',
+        expected: { type: 'show', title: 'One Piece', year: null, season: null, episode: 137 },
+      },
+      {
+        fileName: '[Group] One Piece - 137-138v2 [1080p].mkv',
+        expected: {
+          type: 'show',
+          title: 'One Piece',
+          year: null,
+          season: null,
+          episode: 137,
+          lastEpisode: 138,
+        },
+      },
+    ])
+    .run(({ assert }, { fileName, expected }) => {
+      assert.deepEqual(parseReleaseName(fileName), expected)
+    })
+
+  test('returns null for {$self}')
+    .with([
+      // Season packs have no episode to link them to
+      'Show.Name.S01.1080p.WEB-DL.mkv',
+      'Show Name Season 2 1080p.mkv',
+      'holiday_video.mp4',
+      '',
+    ])
+    .run(({ assert }, fileName) => {
+      assert.isNull(parseReleaseName(fileName))
+    })
+})
+
+test.group('parseFilePart', () => {
+  test('reads {fileName} with caption part {captionPart}')
+    .with([
+      {
+        fileName: 'Movie.2019.mkv.002',
+        captionPart: undefined,
+        expected: { number: 2, group: 'Movie.2019.mkv' },
+      },
+      // The caption wins over the suffix
+      {
+        fileName: 'Movie.2019.mkv.002',
+        captionPart: 3,
+        expected: { number: 3, group: 'Movie.2019.mkv' },
+      },
+      {
+        fileName: 'Movie.2019.Part2.mkv',
+        captionPart: 2,
+        expected: { number: 2, group: 'Movie.2019.mkv' },
+      },
+      {
+        fileName: 'Movie 2019 CD1 of 2.avi',
+        captionPart: 1,
+        expected: { number: 1, group: 'Movie 2019.avi' },
+      },
+      {
+        fileName: 'Movie.2019.mkv',
+        captionPart: 2,
+        expected: { number: 2, group: 'Movie.2019.mkv' },
+      },
+    ])
+    .run(({ assert }, { fileName, captionPart, expected }) => {
+      assert.deepEqual(parseFilePart(fileName, captionPart), expected)
+    })
+
+  test('returns null for {$self} without a caption part')
+    .with(['Movie.2019.mkv', 'Movie.2019.Part2.mkv', 'Movie.2019.mkv.000'])
+    .run(({ assert }, fileName) => {
+      assert.isNull(parseFilePart(fileName))
+    })
+})